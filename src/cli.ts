@@ -9,7 +9,19 @@ import fs from 'fs';
 import path from 'path';
 import chalk from 'chalk';
 import ora from 'ora';
-import { makeHomeTour } from './index.js';
+import { makeHomeTour, planHomeTour } from './index.js';
+import { Job, JobQueue, JobResult, JobStore } from './server/jobs.js';
+import { JobEvent, JobEventHub } from './server/events.js';
+import { cleanupExpiredJobs, discardUploads, ensureThumbnail, getJobPaths, listJobArtifacts } from './server/artifacts.js';
+import { FakeVertexServer } from './pipeline/fake-vertex.js';
+import { EXPORT_PRESETS, isExportPresetName, resolveExportPresets } from './pipeline/presets.js';
+import { checkMlsCompliance } from './pipeline/compliance.js';
+import { isSupportedImage } from './pipeline/image-formats.js';
+import { ImageIngestor } from './pipeline/ingest.js';
+import { IMAGE_ORDERINGS, isImageOrdering } from './pipeline/ordering.js';
+import { FloorPlanGraph } from './pipeline/floor-plan.js';
+import { roomLabel } from './pipeline/room-types.js';
+import { planImageInputs, readScenePlanFile, writeScenePlanFile } from './pipeline/plan-file.js';
 import type { Request, Response } from 'express';
 import { 
   HomeTourConfig, 
@@ -19,7 +31,12 @@ import {
   MusicConfig, 
   BrandConfig,
   OutputConfig,
-  VeoConfig 
+  TransitionType,
+  VeoConfig,
+  ExportPresetName,
+  ImageOrdering,
+  ComplianceReport,
+  ScenePlanFile
 } from './types.js';
 
 const program = new Command();
@@ -29,16 +46,36 @@ interface CLIOptions {
   listing?: string;
   vo?: string;
   music?: string;
+  musicInstrumental?: boolean;
+  duckDb?: string;
+  loudness?: string;
+  burnCaptions?: boolean;
+  presets?: string;
+  mls?: boolean;
+  preprocess?: boolean;
+  order?: string;
+  fit?: string;
+  straighten?: boolean;
   brand?: string;
   out?: string;
   seconds?: number;
   aspect?: '16:9' | '9:16';
   res?: '720p' | '1080p';
+  transition?: string;
+  crossfade?: string;
   veoProject?: string;
   veoLocation?: string;
   veoModel?: string;
+  veoBackend?: string;
+  veoEndpoint?: string;
+  veoConcurrency?: string;
   tmpDir?: string;
+  cacheDir?: string;
+  resume?: boolean;
+  keepIntermediates?: boolean;
   dryRun?: boolean;
+  plan?: string;
+  planOut?: string;
   verbose?: boolean;
 }
 
@@ -54,16 +91,36 @@ program
   .option('--listing <path>', 'Path to JSON file with listing information')
   .option('--vo <config>', 'Voiceover configuration (text=...,voice=...,speed=...)')
   .option('--music <path>', 'Path to background music file')
+  .option('--music-instrumental', 'The music has no lyrics, so MLS cuts may keep it')
+  .option('--duck-db <dB>', 'How far music drops under the voiceover, in dB', '-6')
+  .option('--burn-captions', 'Render voiceover captions into the video (SRT/VTT files are always written)')
+  .option('--loudness <lufs>', 'Target loudness of the final mix (-16 social, -23 broadcast)', '-16')
   .option('--brand <config>', 'Brand configuration (logo=...,color=...)')
   .option('--out <path>', 'Output video file path', './output/tour.mp4')
   .option('--seconds <number>', 'Target video duration in seconds', '90')
   .option('--aspect <ratio>', 'Video aspect ratio', '16:9')
   .option('--res <resolution>', 'Video resolution', '1080p')
+  .option('--presets <list>', `Extra exports from the same segments, comma-separated (${Object.keys(EXPORT_PRESETS).join(', ')})`)
+  .option('--mls', 'Also produce an MLS-compliant unbranded cut and a compliance report')
+  .option('--order <policy>', `Tour order: ${IMAGE_ORDERINGS.join(', ')}`, 'room-flow')
+  .option('--no-preprocess', 'Send the original image files to Veo and Ken Burns as-is')
+  .option('--fit <mode>', 'How images are fitted to the output aspect: crop or pad', 'crop')
+  .option('--straighten', 'Level tilted photos and correct converging verticals before rendering')
+  .option('--transition <type>', 'Transition between segments (fade, dissolve, wipe, slide, dip-to-white)', 'fade')
+  .option('--crossfade <seconds>', 'Transition duration in seconds (0 for hard cuts)', '0.75')
   .option('--veo-project <project>', 'Google Cloud project ID')
   .option('--veo-location <location>', 'Veo API location', 'us-central1')
   .option('--veo-model <model>', 'Veo model to use', 'veo-3.0-fast-generate-001')
+  .option('--veo-backend <backend>', 'Video backend: vertex or local (offline ffmpeg motion)', 'vertex')
+  .option('--veo-endpoint <url>', 'Override the Vertex AI/GCS endpoint (e.g. a fake-vertex server)')
+  .option('--veo-concurrency <n>', 'Maximum Veo operations in flight at once', '3')
   .option('--tmp-dir <path>', 'Temporary directory for processing', './.cache/home-tour')
+  .option('--cache-dir <path>', 'Directory for cached Veo clips and voiceovers', './.cache/home-tour-renders')
+  .option('--resume', 'Continue the previous run in --tmp-dir from where it stopped')
+  .option('--keep-intermediates', 'Keep segments, audio and processed images in --tmp-dir after a successful run')
   .option('--dry-run', 'Show plan without generating video')
+  .option('--plan-out <path>', 'Plan the tour, write the editable scene plan to this file and stop before rendering')
+  .option('--plan <path>', 'Render this scene plan file exactly as written (its images replace --images)')
   .option('--verbose', 'Verbose output')
   .action(async (options: CLIOptions) => {
     try {
@@ -102,15 +159,51 @@ program
     }
   });
 
+program
+  .command('fake-vertex')
+  .description('Start a local stand-in for the Vertex AI and GCS endpoints used by Veo')
+  .option('--port <number>', 'Server port', '8089')
+  .option('--host <address>', 'Server host', 'localhost')
+  .option('--storage-dir <path>', 'Directory that holds the fake buckets', './.cache/fake-vertex')
+  .action(async (options: { port?: string; host?: string; storageDir?: string }) => {
+    try {
+      const server = new FakeVertexServer({
+        port: parseInt(options.port || '8089'),
+        host: options.host || 'localhost',
+        storageDir: options.storageDir
+      });
+      const url = await server.start();
+      console.log(chalk.green(`✅ Fake Vertex AI/GCS server running at ${url}`));
+      console.log(chalk.cyan(`Use it with: --veo-endpoint ${url} (and GCS_BUCKET set to any bucket name)`));
+    } catch (error) {
+      console.error(chalk.red('Error:'), error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+  });
+
 program
   .command('serve')
   .description('Start HTTP API server for remote video generation')
   .option('--port <number>', 'Server port', '3000')
   .option('--host <address>', 'Server host', 'localhost')
   .option('--cors', 'Enable CORS for browser requests')
-  .action(async (options: { port?: string; host?: string; cors?: boolean }) => {
+  .option('--max-jobs <number>', 'Maximum jobs processed at once', '1')
+  .option('--jobs-file <path>', 'Where job state is persisted', './.home-tour/jobs.json')
+  .option('--retention-hours <hours>', 'Delete finished jobs, their outputs and uploads after this long', '168')
+  .action(async (options: {
+    port?: string;
+    host?: string;
+    cors?: boolean;
+    maxJobs?: string;
+    jobsFile?: string;
+    retentionHours?: string;
+  }) => {
     try {
-      await startApiServer(parseInt(options.port || '3000'), options.host || 'localhost', options.cors || false);
+      await startApiServer(parseInt(options.port || '3000'), options.host || 'localhost', options.cors || false, {
+        maxJobs: parseInt(options.maxJobs || '1'),
+        jobsFile: options.jobsFile || './.home-tour/jobs.json',
+        retentionHours: parseFloat(options.retentionHours || '168')
+      });
     } catch (error) {
       console.error(chalk.red('Error:'), error instanceof Error ? error.message : error);
       process.exit(1);
@@ -133,6 +226,16 @@ async function runGenerate(options: CLIOptions): Promise<void> {
     // Create progress handler
     const progressHandler = createProgressHandler(spinner, options.verbose);
 
+    if (options.planOut) {
+      spinner.text = 'Planning home tour...';
+      const plan = await planHomeTour(config, progressHandler);
+      await writeScenePlanFile(options.planOut, plan);
+      spinner.succeed(chalk.green(`Scene plan written: ${options.planOut}`));
+      printScenePlan(plan);
+      console.log(chalk.gray(`\nEdit it, then render it with: generate --plan ${options.planOut} (plus the same output options)`));
+      return;
+    }
+
     // Generate the tour
     spinner.text = 'Generating home tour video...';
     const result = await makeHomeTour(config, progressHandler);
@@ -142,13 +245,37 @@ async function runGenerate(options: CLIOptions): Promise<void> {
     // Show summary
     console.log(chalk.cyan('\nGeneration Summary:'));
     console.log(`  Output: ${result.outputPath}`);
+    if (result.captions) {
+      console.log(`  Captions: ${result.captions.srtPath}, ${result.captions.vttPath}`);
+    }
     console.log(`  Duration: ${result.duration.toFixed(1)}s`);
+    for (const exported of result.exports || []) {
+      console.log(`  Export ${exported.preset}: ${exported.outputPath} (${exported.width}x${exported.height}, ${exported.duration.toFixed(1)}s)`);
+    }
+    if (result.compliance) {
+      console.log(`  Compliance report: ${result.compliance.reportPath}`);
+      printComplianceReport(result.compliance.report);
+    }
     console.log(`  Veo segments: ${result.veoSegments}`);
     console.log(`  Ken Burns segments: ${result.kenBurnsSegments}`);
+    const qualityIssues = result.metadata.qualityIssues || [];
+    if (qualityIssues.length > 0) {
+      const byCheck: Record<string, number> = {};
+      qualityIssues.forEach(issue => byCheck[issue.check] = (byCheck[issue.check] || 0) + 1);
+      const counts = Object.entries(byCheck).map(([check, count]) => `${count} ${check}`).join(', ');
+      console.log(chalk.yellow(`  Image quality issues: ${qualityIssues.length} (${counts}); see warnings above`));
+    }
+    const culled = (result.metadata.duplicates || []).reduce((sum, cluster) => sum + cluster.culled.length, 0);
+    if (culled > 0) {
+      console.log(`  Near-duplicates culled: ${culled} (kept the best of ${result.metadata.duplicates!.length} groups)`);
+    }
     console.log(`  Total cost estimate: $${result.estimatedCost.toFixed(2)}`);
 
   } catch (error) {
-    spinner.fail('Home tour generation failed');
+    spinner.fail(options.planOut ? 'Home tour planning failed' : 'Home tour generation failed');
+    if (!options.dryRun && !options.planOut) {
+      console.log(chalk.yellow('Completed segments were kept. Re-run the same command with --resume to continue.'));
+    }
     throw error;
   }
 }
@@ -236,11 +363,18 @@ async function listVoices(languageCode: string): Promise<void> {
 }
 
 async function parseConfiguration(options: CLIOptions): Promise<HomeTourConfig> {
+  if (options.plan && options.planOut) {
+    throw new Error('Use either --plan-out (to write a plan) or --plan (to render one), not both');
+  }
+
+  // A plan file brings its own images
+  const plan = options.plan ? await readScenePlanFile(options.plan) : undefined;
+
   // Parse images
-  if (!options.images) {
-    throw new Error('Images path is required (--images)');
+  if (!options.images && !plan) {
+    throw new Error('Images path is required (--images), unless rendering a --plan');
   }
-  const images = await parseImages(options.images);
+  const images = plan ? planImageInputs(plan) : await parseImages(options.images!);
 
   // Parse listing data
   const listing = options.listing ? await parseListingFile(options.listing) : undefined;
@@ -249,7 +383,9 @@ async function parseConfiguration(options: CLIOptions): Promise<HomeTourConfig>
   const voiceover = options.vo ? parseVoiceoverConfig(options.vo) : undefined;
 
   // Parse music config
-  const music = options.music ? parseMusicConfig(options.music) : undefined;
+  const music = options.music
+    ? { ...parseMusicConfig(options.music, parseFloat(options.duckDb || '-6')), instrumental: options.musicInstrumental || false }
+    : undefined;
 
   // Parse brand config
   const brand = options.brand ? parseBrandConfig(options.brand) : undefined;
@@ -260,19 +396,56 @@ async function parseConfiguration(options: CLIOptions): Promise<HomeTourConfig>
     aspect: (options.aspect as '16:9' | '9:16') || '16:9',
     resolution: (options.res as '720p' | '1080p') || '1080p',
     targetSeconds: parseInt(String(options.seconds || '90')),
-    fps: 24
+    fps: 24,
+    transition: parseTransition(options.transition),
+    crossfadeDuration: parseFloat(options.crossfade || '0.75'),
+    loudnessTarget: parseFloat(options.loudness || '-16'),
+    burnCaptions: options.burnCaptions || false,
+    presets: options.presets ? parsePresets(options.presets) : undefined
   };
 
+  if (isNaN(output.loudnessTarget!) || output.loudnessTarget! > -5 || output.loudnessTarget! < -70) {
+    throw new Error(`Invalid --loudness "${options.loudness}" (expected LUFS between -70 and -5)`);
+  }
+
+  if (!Number.isFinite(output.crossfadeDuration) || output.crossfadeDuration! < 0) {
+    throw new Error(`Invalid --crossfade "${options.crossfade}" (expected seconds, 0 or more)`);
+  }
+
   // Parse Veo config
+  const backend = options.veoBackend || 'vertex';
+  if (backend !== 'vertex' && backend !== 'local') {
+    throw new Error(`Unknown Veo backend "${backend}" (expected vertex or local)`);
+  }
+
+  // Offline backends don't need a real Google Cloud project
+  const offline = backend === 'local' || !!options.veoEndpoint;
+
   const veo: VeoConfig = {
-    projectId: options.veoProject || process.env.GOOGLE_CLOUD_PROJECT || '',
+    projectId: options.veoProject || process.env.GOOGLE_CLOUD_PROJECT || (offline ? 'local-project' : ''),
     location: options.veoLocation || 'us-central1',
     model: (options.veoModel as any) || 'veo-3.0-fast-generate-001',
     generateAudio: false,
-    bucketName: process.env.GCS_BUCKET
+    bucketName: process.env.GCS_BUCKET,
+    backend,
+    apiEndpoint: options.veoEndpoint,
+    maxConcurrent: parseInt(options.veoConcurrency || '3')
   };
 
-  if (!veo.projectId) {
+  if (!Number.isInteger(veo.maxConcurrent) || veo.maxConcurrent! < 1) {
+    throw new Error(`Invalid --veo-concurrency "${options.veoConcurrency}" (expected a positive integer)`);
+  }
+
+  if (options.order && !isImageOrdering(options.order)) {
+    throw new Error(`Invalid --order "${options.order}" (expected one of ${IMAGE_ORDERINGS.join(', ')})`);
+  }
+
+  if (options.fit && options.fit !== 'crop' && options.fit !== 'pad') {
+    throw new Error(`Invalid --fit "${options.fit}" (expected crop or pad)`);
+  }
+
+  // Planning alone never calls Veo
+  if (!veo.projectId && !options.planOut) {
     throw new Error('Google Cloud project ID is required (--veo-project or GOOGLE_CLOUD_PROJECT env var)');
   }
 
@@ -284,7 +457,18 @@ async function parseConfiguration(options: CLIOptions): Promise<HomeTourConfig>
     brand,
     output,
     veo,
-    tmpDir: options.tmpDir || './.cache/home-tour'
+    compliance: options.mls ? { mls: true } : undefined,
+    ordering: (options.order as ImageOrdering) || 'room-flow',
+    preprocess: {
+      enabled: options.preprocess ?? true,
+      fit: (options.fit as 'crop' | 'pad') || 'crop',
+      straightenVerticals: options.straighten || false
+    },
+    tmpDir: options.tmpDir || './.cache/home-tour',
+    cacheDir: options.cacheDir || './.cache/home-tour-renders',
+    resume: options.resume || false,
+    keepIntermediates: options.keepIntermediates || false,
+    plan
   };
 }
 
@@ -310,10 +494,8 @@ async function parseImages(imagesPath: string): Promise<ImageInput[]> {
   } else if (stat.isDirectory()) {
     // Directory with images
     const files = await fs.promises.readdir(imagesPath);
-    const imageExtensions = ['.jpg', '.jpeg', '.png', '.webp'];
-    
     const imageFiles = files
-      .filter(file => imageExtensions.includes(path.extname(file).toLowerCase()))
+      .filter(file => isSupportedImage(file))
       .map(file => ({ path: path.join(imagesPath, file) }))
       .sort((a, b) => a.path.localeCompare(b.path));
     
@@ -329,7 +511,12 @@ async function parseListingFile(listingPath: string): Promise<ListingData> {
   }
 
   const content = await fs.promises.readFile(listingPath, 'utf8');
-  return JSON.parse(content);
+  const listing: ListingData = JSON.parse(content);
+  if (listing.floorPlan) {
+    // Report a broken floor plan now rather than after ingest
+    new FloorPlanGraph(listing.floorPlan);
+  }
+  return listing;
 }
 
 function parseVoiceoverConfig(voConfig: string): VoiceoverConfig {
@@ -356,14 +543,39 @@ function parseVoiceoverConfig(voConfig: string): VoiceoverConfig {
   return config;
 }
 
-function parseMusicConfig(musicPath: string): MusicConfig {
+function parseTransition(transition?: string): TransitionType {
+  const transitions: TransitionType[] = ['fade', 'dissolve', 'wipe', 'slide', 'dip-to-white'];
+  if (!transition) {
+    return 'fade';
+  }
+  if (!transitions.includes(transition as TransitionType)) {
+    throw new Error(`Unknown transition "${transition}" (expected one of: ${transitions.join(', ')})`);
+  }
+  return transition as TransitionType;
+}
+
+function parsePresets(presets: string): ExportPresetName[] {
+  const names = presets.split(',').map(name => name.trim()).filter(Boolean);
+  for (const name of names) {
+    if (!isExportPresetName(name)) {
+      throw new Error(`Unknown export preset "${name}" (expected one of: ${Object.keys(EXPORT_PRESETS).join(', ')})`);
+    }
+  }
+  return names as ExportPresetName[];
+}
+
+function parseMusicConfig(musicPath: string, duckUnderVOdB: number): MusicConfig {
   if (!fs.existsSync(musicPath)) {
     throw new Error(`Music file not found: ${musicPath}`);
   }
+  if (isNaN(duckUnderVOdB)) {
+    throw new Error('Invalid --duck-db (expected a number of dB, e.g. -6)');
+  }
 
   return {
     path: musicPath,
-    duckUnderVOdB: -6,
+    // Accept "6" and "-6" alike, ducking always lowers the music
+    duckUnderVOdB: -Math.abs(duckUnderVOdB),
     volume: 0.3
   };
 }
@@ -396,12 +608,15 @@ function createProgressHandler(spinner: any, verbose?: boolean) {
   return (phase: string, progress: number, message?: string) => {
     const phaseNames: Record<string, string> = {
       ingest: 'Processing images',
+      preprocess: 'Preparing images',
       planning: 'Planning scenes',
       veo: 'Generating AI video',
       kenburns: 'Creating Ken Burns effects',
       tts: 'Synthesizing voiceover',
       assembly: 'Assembling video',
-      branding: 'Adding branding'
+      branding: 'Adding branding',
+      reframe: 'Reframing export',
+      exports: 'Rendering exports'
     };
 
     const phaseName = phaseNames[phase] || phase;
@@ -416,6 +631,29 @@ function createProgressHandler(spinner: any, verbose?: boolean) {
   };
 }
 
+// Runs the real ingest (local only: no Veo or TTS calls) so the order shown
+// is exactly the one the tour will use
+async function printTourOrder(config: HomeTourConfig): Promise<void> {
+  const ordering = config.ordering ?? 'room-flow';
+  console.log(chalk.yellow(`\nTour Order (${ordering}):`));
+
+  const ingestor = new ImageIngestor({ config, tmpDir: config.tmpDir || './.cache/home-tour' });
+  const { images, duplicates } = await ingestor.ingestImages(config.images);
+  images.forEach((image, index) => {
+    const name = path.basename(image.sourcePath || image.path);
+    console.log(`  ${String(index + 1).padStart(2)}. ${(image.room ? roomLabel(image.room) : 'Unknown').padEnd(16)} ${name}`);
+  });
+
+  const culled = duplicates.flatMap(cluster => cluster.culled.map(p => path.basename(p)));
+  if (culled.length > 0) {
+    console.log(chalk.gray(`  Culled as near-duplicates: ${culled.join(', ')}`));
+  }
+  const skipped = config.images.length - images.length - culled.length;
+  if (skipped > 0) {
+    console.log(chalk.gray(`  ${skipped} image${skipped === 1 ? '' : 's'} could not be read and will be skipped`));
+  }
+}
+
 async function showDryRun(config: HomeTourConfig): Promise<void> {
   console.log(chalk.cyan('\n🎬 Home Tour Generation Plan\n'));
 
@@ -424,6 +662,19 @@ async function showDryRun(config: HomeTourConfig): Promise<void> {
   console.log(`  Target duration: ${config.output.targetSeconds}s`);
   console.log(`  Aspect ratio: ${config.output.aspect}`);
   console.log(`  Resolution: ${config.output.resolution}`);
+  console.log(`  Transition: ${config.output.transition || 'fade'} (${config.output.crossfadeDuration ?? 0.75}s)`);
+  console.log(`  Loudness: ${config.output.loudnessTarget ?? -16} LUFS`);
+  console.log(`  Captions: SRT + VTT${config.output.burnCaptions ? ', burned in' : ''}`);
+  if (config.preprocess?.enabled ?? true) {
+    const steps = [
+      `${config.preprocess?.fit === 'pad' ? 'pad' : 'crop'} to ${config.output.aspect}`,
+      config.preprocess?.straightenVerticals ? 'straighten verticals' : undefined,
+      (config.preprocess?.normalizeExposure ?? true) ? 'normalize exposure' : undefined
+    ].filter(Boolean).join(', ');
+    console.log(`  Preprocessing: auto-orient, ${steps}`);
+  } else {
+    console.log('  Preprocessing: off (original files)');
+  }
   console.log(`  Output: ${config.output.path}`);
 
   if (config.listing) {
@@ -435,31 +686,86 @@ async function showDryRun(config: HomeTourConfig): Promise<void> {
   }
 
   if (config.music) {
-    console.log(`  Music: ${path.basename(config.music.path)}`);
+    console.log(`  Music: ${path.basename(config.music.path)} (ducked ${config.music.duckUnderVOdB ?? -6} dB under voiceover)`);
   }
 
   if (config.brand) {
     console.log(`  Branding: ${config.brand.logoPath ? 'Logo + ' : ''}Color ${config.brand.primaryHex || 'default'}`);
   }
 
+  const exportPresets = resolveExportPresets(config.output, config.compliance);
+  if (exportPresets.length > 0) {
+    console.log(chalk.yellow('\nExports:'));
+    for (const preset of exportPresets) {
+      const details = [
+        `${preset.width}x${preset.height}`,
+        preset.reframe !== 'smart' ? `${preset.reframe} reframe` : undefined,
+        preset.maxSeconds ? `max ${preset.maxSeconds}s` : undefined,
+        preset.branded ? undefined : 'unbranded'
+      ].filter(Boolean).join(', ');
+      console.log(`  ${preset.name}: ${details} → ${preset.path}`);
+    }
+  }
+
+  if (exportPresets.some(preset => preset.mlsCompliant)) {
+    console.log(chalk.yellow('\nMLS Compliance:'));
+    printComplianceReport(checkMlsCompliance(config));
+  }
+
+  if (config.plan) {
+    printScenePlan(config.plan);
+  } else {
+    await printTourOrder(config);
+  }
+
   console.log(chalk.yellow('\nVeo Configuration:'));
   console.log(`  Project: ${config.veo.projectId}`);
   console.log(`  Location: ${config.veo.location}`);
   console.log(`  Model: ${config.veo.model}`);
-
-  // Estimate segments and cost
-  const maxVeoSegments = Math.min(15, Math.floor(config.output.targetSeconds / 6));
+  console.log(`  Backend: ${config.veo.backend || 'vertex'}${config.veo.apiEndpoint ? ` (${config.veo.apiEndpoint})` : ''}`);
+  console.log(`  Concurrency: ${config.veo.maxConcurrent ?? 3} operations`);
+
+  // Estimate segments and cost; a plan file says exactly
+  const planVeoSegments = config.plan?.scenes.filter(scene => scene.type === 'veo').length;
+  const maxVeoSegments = planVeoSegments ?? Math.min(15, Math.floor(config.output.targetSeconds / 6));
+  const kenBurnsSegments = config.plan
+    ? config.plan.scenes.length - maxVeoSegments
+    : Math.max(0, config.images.length - maxVeoSegments);
   const estimatedCost = maxVeoSegments * 0.50; // Rough estimate
+  const approximate = config.plan ? '' : '~';
 
   console.log(chalk.yellow('\nEstimated Generation Plan:'));
-  console.log(`  Veo segments: ~${maxVeoSegments}`);
-  console.log(`  Ken Burns segments: ~${Math.max(0, config.images.length - maxVeoSegments)}`);
+  console.log(`  Veo segments: ${approximate}${maxVeoSegments}`);
+  console.log(`  Ken Burns segments: ${approximate}${kenBurnsSegments}`);
   console.log(`  Estimated cost: ~$${estimatedCost.toFixed(2)}`);
-  console.log(`  Estimated time: ~${Math.round(maxVeoSegments * 2 + 5)} minutes`);
+  const veoWaves = Math.ceil(maxVeoSegments / (config.veo.maxConcurrent ?? 3));
+  console.log(`  Estimated time: ~${Math.round(veoWaves * 2 + 5)} minutes`);
 
   console.log(chalk.green('\n✅ Configuration looks good! Remove --dry-run to generate.'));
 }
 
+function printScenePlan(plan: ScenePlanFile): void {
+  const total = plan.scenes.reduce((sum, scene) => sum + scene.duration, 0);
+  console.log(chalk.yellow(`\nScene Plan (${plan.scenes.length} scenes, ${total.toFixed(1)}s before transitions):`));
+  plan.scenes.forEach((scene, index) => {
+    const type = scene.type === 'veo' ? 'Veo' : 'Ken Burns';
+    const label = scene.lowerThird === null ? '' : ` "${scene.lowerThird ?? roomLabel(scene.room)}"`;
+    console.log(`  ${String(index + 1).padStart(2)}. ${scene.id.padEnd(22)} ${type.padEnd(9)} ${String(scene.duration).padStart(4)}s ` +
+      `${path.basename(scene.images[0])}${label}`);
+  });
+}
+
+function printComplianceReport(report: ComplianceReport): void {
+  if (report.violations.length === 0) {
+    console.log(chalk.green('  No MLS rule violations'));
+    return;
+  }
+  for (const violation of report.violations) {
+    const mark = violation.fixedInCut ? chalk.gray('fixed in MLS cut') : chalk.red('needs attention');
+    console.log(`  [${violation.rule}] ${violation.field}: ${violation.message} (${mark})`);
+  }
+}
+
 // Handle uncaught errors
 process.on('uncaughtException', (error) => {
   console.error(chalk.red('\nUncaught error:'), error.message);
@@ -483,7 +789,12 @@ if (!process.argv.slice(2).length) {
 }
 
 // API Server functionality
-async function startApiServer(port: number, host: string, enableCors: boolean): Promise<void> {
+async function startApiServer(
+  port: number,
+  host: string,
+  enableCors: boolean,
+  queueOptions: { maxJobs: number; jobsFile: string; retentionHours: number }
+): Promise<void> {
   console.log(chalk.blue('🚀 Starting Home Tour Maker API Server...'));
   
   // Dynamic import to avoid loading express unless needed
@@ -503,17 +814,14 @@ async function startApiServer(port: number, host: string, enableCors: boolean):
     app.use(cors.default());
   }
 
-  // Job tracking
-  const jobs = new Map<string, {
-    id: string;
-    status: 'pending' | 'processing' | 'completed' | 'failed';
-    progress: number;
-    phase: string;
-    message?: string;
-    result?: any;
-    error?: string;
-    createdAt: Date;
-  }>();
+  // Jobs are persisted so a restart neither loses them nor reruns finished work
+  const jobStore = new JobStore(queueOptions.jobsFile);
+  const jobEvents = new JobEventHub();
+  const jobQueue = new JobQueue(jobStore, (job, signal, resume) =>
+    processHomeTourJob(job, jobStore, jobEvents, signal, resume), {
+      maxConcurrent: queueOptions.maxJobs,
+      events: jobEvents
+    });
 
   // API Routes
 
@@ -547,7 +855,7 @@ async function startApiServer(port: number, host: string, enableCors: boolean):
   app.post('/api/validate', upload.array('images'), async (req: Request, res: Response) => {
     try {
       const { listing, targetSeconds = 90 } = req.body;
-      const files = req.files as any[];
+      const files = req.files as Express.Multer.File[];
       
       if (!files || files.length === 0) {
         return res.status(400).json({ error: 'No images provided' });
@@ -584,15 +892,19 @@ async function startApiServer(port: number, host: string, enableCors: boolean):
 
     } catch (error) {
       res.status(500).json({ error: error instanceof Error ? error.message : 'Validation failed' });
+    } finally {
+      // Validation only looks at the uploads; nothing keeps them
+      await discardUploads(req.files as Express.Multer.File[]);
     }
   });
 
   // Generate home tour (async job)
   app.post('/api/generate', upload.array('images'), async (req: Request, res: Response) => {
     const jobId = uuidv4();
+    let queued = false;
     
     try {
-      const files = req.files as any[];
+      const files = req.files as Express.Multer.File[];
       if (!files || files.length === 0) {
         return res.status(400).json({ error: 'No images provided' });
       }
@@ -608,27 +920,30 @@ async function startApiServer(port: number, host: string, enableCors: boolean):
         resolution = '1080p',
         veoProject,
         veoLocation = 'us-central1',
-        veoModel = 'veo-3.0-fast-generate-001'
+        veoModel = 'veo-3.0-fast-generate-001',
+        presets,
+        mls,
+        order
       } = req.body;
 
       if (!veoProject) {
         return res.status(400).json({ error: 'veoProject is required' });
       }
 
-      // Create job entry
-      jobs.set(jobId, {
-        id: jobId,
-        status: 'pending',
-        progress: 0,
-        phase: 'preparing',
-        createdAt: new Date()
-      });
+      let exportPresets: ExportPresetName[] | undefined;
+      try {
+        exportPresets = presets ? parsePresets(presets) : undefined;
+      } catch (error) {
+        return res.status(400).json({ error: error instanceof Error ? error.message : 'Invalid presets' });
+      }
 
-      // Return job ID immediately
-      res.json({ jobId, status: 'pending', message: 'Job queued for processing' });
+      if (order && !isImageOrdering(order)) {
+        return res.status(400).json({ error: `Invalid order "${order}" (expected one of ${IMAGE_ORDERINGS.join(', ')})` });
+      }
 
-      // Process asynchronously
-      processHomeTourJob(jobId, files, {
+      // Persist the job, then let the queue pick it up when a worker is free
+      const job = jobStore.create(jobId, {
+        imagePaths: files.map(file => file.path),
         listing: listing ? JSON.parse(listing) : undefined,
         voiceover: voiceover ? JSON.parse(voiceover) : undefined,
         music: music ? { path: music } : undefined,
@@ -638,40 +953,178 @@ async function startApiServer(port: number, host: string, enableCors: boolean):
         resolution,
         veoProject,
         veoLocation,
-        veoModel
-      }, jobs).catch(error => {
-        const job = jobs.get(jobId);
-        if (job) {
-          job.status = 'failed';
-          job.error = error instanceof Error ? error.message : 'Unknown error';
-        }
+        veoModel,
+        presets: exportPresets,
+        mls: mls === true || mls === 'true' || mls === '1',
+        ordering: order
       });
+      queued = true;
+      jobQueue.enqueue(job.id);
+
+      res.json({ jobId, status: job.status, message: 'Job queued for processing', queuePosition: jobQueue.pendingCount });
 
     } catch (error) {
-      jobs.set(jobId, {
-        id: jobId,
-        status: 'failed',
-        progress: 0,
-        phase: 'error',
-        error: error instanceof Error ? error.message : 'Unknown error',
-        createdAt: new Date()
-      });
       res.status(500).json({ error: error instanceof Error ? error.message : 'Generation failed' });
+    } finally {
+      // Once queued, the uploads are the job's and go with it
+      if (!queued) {
+        await discardUploads(req.files as Express.Multer.File[]);
+      }
     }
   });
 
   // Check job status
   app.get('/api/jobs/:jobId', (req: Request, res: Response) => {
-    const job = jobs.get(req.params.jobId);
+    const job = jobStore.get(req.params.jobId);
     if (!job) {
       return res.status(404).json({ error: 'Job not found' });
     }
-    res.json(job);
+    const { request, ...status } = job;
+    res.json(status);
+  });
+
+  // Cancel a queued or running job
+  app.delete('/api/jobs/:jobId', (req: Request, res: Response) => {
+    if (!jobStore.get(req.params.jobId)) {
+      return res.status(404).json({ error: 'Job not found' });
+    }
+    try {
+      const job = jobQueue.cancel(req.params.jobId);
+      res.json({ jobId: job.id, status: job.status });
+    } catch (error) {
+      res.status(409).json({ error: error instanceof Error ? error.message : 'Cancel failed' });
+    }
+  });
+
+  // Retry a failed or cancelled job, resuming from its last checkpoint
+  app.post('/api/jobs/:jobId/retry', (req: Request, res: Response) => {
+    if (!jobStore.get(req.params.jobId)) {
+      return res.status(404).json({ error: 'Job not found' });
+    }
+    try {
+      const job = jobQueue.retry(req.params.jobId);
+      res.json({ jobId: job.id, status: job.status, attempts: job.attempts });
+    } catch (error) {
+      res.status(409).json({ error: error instanceof Error ? error.message : 'Retry failed' });
+    }
+  });
+
+  // Live job events over Server-Sent Events. The stream starts with a status
+  // snapshot, replays anything after Last-Event-ID, and ends once the job settles.
+  app.get('/api/jobs/:jobId/events', (req: Request, res: Response) => {
+    const job = jobStore.get(req.params.jobId);
+    if (!job) {
+      return res.status(404).json({ error: 'Job not found' });
+    }
+
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive',
+      'X-Accel-Buffering': 'no'
+    });
+
+    const send = (event: JobEvent | ReturnType<typeof jobSnapshot>) => {
+      if ('id' in event && typeof event.id === 'number') {
+        res.write(`id: ${event.id}\n`);
+      }
+      res.write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+    };
+
+    send(jobSnapshot(job));
+    const lastEventId = parseInt(String(req.headers['last-event-id'] || '0')) || 0;
+    jobEvents.replay(job.id, lastEventId).forEach(send);
+
+    if (isTerminalStatus(job.status)) {
+      return res.end();
+    }
+
+    // Comment lines keep proxies from closing an idle stream
+    const heartbeat = setInterval(() => res.write(': heartbeat\n\n'), 15000);
+    const unsubscribe = jobEvents.subscribe(job.id, event => {
+      send(event);
+      if (event.type === 'status' && isTerminalStatus(event.status)) {
+        res.end();
+      }
+    });
+
+    res.on('close', () => {
+      clearInterval(heartbeat);
+      unsubscribe();
+    });
+  });
+
+  // Download or stream the finished video, or one of its exports with ?preset=;
+  // sendFile answers Range requests for scrubbing
+  app.get('/api/jobs/:jobId/video', (req: Request, res: Response) => {
+    const job = jobStore.get(req.params.jobId);
+    if (!job) {
+      return res.status(404).json({ error: 'Job not found' });
+    }
+    const preset = req.query.preset as string | undefined;
+    const outputPath = preset
+      ? job.result?.exports?.find(e => e.preset === preset)?.outputPath
+      : job.result?.outputPath;
+    if (preset && job.status === 'completed' && !outputPath) {
+      return res.status(404).json({ error: `Job has no "${preset}" export` });
+    }
+    if (job.status !== 'completed' || !outputPath || !fs.existsSync(outputPath)) {
+      return res.status(409).json({ error: `Video not available (job is ${job.status})` });
+    }
+
+    if (req.query.download !== undefined) {
+      res.attachment(`home-tour-${job.id}${preset ? `-${preset}` : ''}.mp4`);
+    }
+    res.sendFile(path.resolve(outputPath), { acceptRanges: true });
+  });
+
+  // Poster frame for the finished video, extracted on first request
+  app.get('/api/jobs/:jobId/thumbnail', async (req: Request, res: Response) => {
+    const job = jobStore.get(req.params.jobId);
+    if (!job) {
+      return res.status(404).json({ error: 'Job not found' });
+    }
+    const outputPath = job.result?.outputPath;
+    if (job.status !== 'completed' || !outputPath || !fs.existsSync(outputPath)) {
+      return res.status(409).json({ error: `Thumbnail not available (job is ${job.status})` });
+    }
+
+    try {
+      const thumbnailPath = await ensureThumbnail(outputPath, getJobPaths(job.id).thumbnailPath);
+      res.sendFile(path.resolve(thumbnailPath));
+    } catch (error) {
+      res.status(500).json({ error: error instanceof Error ? error.message : 'Thumbnail extraction failed' });
+    }
+  });
+
+  // Intermediate files (segment clips, voiceover) produced so far
+  app.get('/api/jobs/:jobId/artifacts', (req: Request, res: Response) => {
+    const job = jobStore.get(req.params.jobId);
+    if (!job) {
+      return res.status(404).json({ error: 'Job not found' });
+    }
+    const artifacts = listJobArtifacts(job).map(({ path: artifactPath, ...artifact }) => ({
+      ...artifact,
+      url: `/api/jobs/${job.id}/artifacts/${encodeURIComponent(artifact.name)}`
+    }));
+    res.json({ jobId: job.id, artifacts });
+  });
+
+  app.get('/api/jobs/:jobId/artifacts/:name', (req: Request, res: Response) => {
+    const job = jobStore.get(req.params.jobId);
+    if (!job) {
+      return res.status(404).json({ error: 'Job not found' });
+    }
+    const artifact = listJobArtifacts(job).find(a => a.name === req.params.name);
+    if (!artifact) {
+      return res.status(404).json({ error: 'Artifact not found' });
+    }
+    res.sendFile(path.resolve(artifact.path), { acceptRanges: true });
   });
 
   // List all jobs
   app.get('/api/jobs', (req: Request, res: Response) => {
-    const jobList = Array.from(jobs.values()).map(job => ({
+    const jobList = jobStore.list().map(job => ({
       id: job.id,
       status: job.status,
       progress: job.progress,
@@ -681,8 +1134,27 @@ async function startApiServer(port: number, host: string, enableCors: boolean):
     res.json({ jobs: jobList });
   });
 
+  // Pick up jobs that were queued or running when the server last stopped
+  const recovered = jobQueue.recover();
+  if (recovered > 0) {
+    console.log(chalk.yellow(`Recovered ${recovered} unfinished job(s) from ${queueOptions.jobsFile}`));
+  }
+
+  // Expire old jobs now and then hourly; the timer must not keep the process alive
+  const retention = queueOptions.retentionHours * 60 * 60 * 1000;
+  const runCleanup = () => cleanupExpiredJobs(jobStore, retention)
+    .then(removed => {
+      removed.forEach(jobId => jobEvents.forget(jobId));
+      if (removed.length > 0) {
+        console.log(chalk.gray(`Cleaned up ${removed.length} expired job(s)`));
+      }
+    })
+    .catch(error => console.warn('Job cleanup failed:', error));
+  await runCleanup();
+  setInterval(runCleanup, 60 * 60 * 1000).unref();
+
   // Start server
-  app.listen(port, host, () => {
+  const server = app.listen(port, host, () => {
     console.log(chalk.green(`✅ API Server running at http://${host}:${port}`));
     console.log(chalk.cyan('Available endpoints:'));
     console.log(`  GET  /health - Health check`);
@@ -690,74 +1162,135 @@ async function startApiServer(port: number, host: string, enableCors: boolean):
     console.log(`  POST /api/validate - Validate configuration`);
     console.log(`  POST /api/generate - Generate home tour`);
     console.log(`  GET  /api/jobs/:id - Check job status`);
+    console.log(`  DELETE /api/jobs/:id - Cancel a job`);
+    console.log(`  POST /api/jobs/:id/retry - Retry a failed or cancelled job`);
+    console.log(`  GET  /api/jobs/:id/events - Live job events (Server-Sent Events)`);
+    console.log(`  WS   /api/jobs/:id/ws - Live job events (WebSocket)`);
+    console.log(`  GET  /api/jobs/:id/video - Stream or download the finished video (?preset= for an export)`);
+    console.log(`  GET  /api/jobs/:id/thumbnail - Video thumbnail`);
+    console.log(`  GET  /api/jobs/:id/artifacts - List intermediate files`);
     console.log(`  GET  /api/jobs - List all jobs`);
   });
+
+  // The same events over WebSocket: one socket per job, closed once the job settles
+  const { WebSocketServer } = await import('ws');
+  const wss = new WebSocketServer({ noServer: true });
+
+  server.on('upgrade', (req, socket, head) => {
+    const match = (req.url || '').match(/^\/api\/jobs\/([^/?]+)\/ws(?:\?.*)?$/);
+    const job = match ? jobStore.get(decodeURIComponent(match[1])) : undefined;
+    if (!job) {
+      socket.write('HTTP/1.1 404 Not Found\r\nConnection: close\r\n\r\n');
+      socket.destroy();
+      return;
+    }
+
+    wss.handleUpgrade(req, socket, head, ws => {
+      const send = (event: unknown) => ws.send(JSON.stringify(event));
+
+      send(jobSnapshot(job));
+      jobEvents.replay(job.id).forEach(send);
+      if (isTerminalStatus(job.status)) {
+        ws.close(1000, 'Job finished');
+        return;
+      }
+
+      const unsubscribe = jobEvents.subscribe(job.id, event => {
+        send(event);
+        if (event.type === 'status' && isTerminalStatus(event.status)) {
+          ws.close(1000, 'Job finished');
+        }
+      });
+      ws.on('close', unsubscribe);
+    });
+  });
 }
 
-async function processHomeTourJob(
-  jobId: string,
-  files: any[],
-  config: any,
-  jobs: Map<string, any>
-): Promise<void> {
-  const job = jobs.get(jobId)!;
-  
-  try {
-    job.status = 'processing';
-    job.phase = 'preparing';
+function jobSnapshot(job: Job) {
+  return {
+    type: 'snapshot' as const,
+    jobId: job.id,
+    status: job.status,
+    phase: job.phase,
+    progress: job.progress,
+    message: job.message,
+    result: job.result,
+    error: job.error
+  };
+}
 
-    // Convert files to ImageInput
-    const images: ImageInput[] = files.map(file => ({
-      path: file.path
-    }));
+function isTerminalStatus(status: Job['status']): boolean {
+  return status === 'completed' || status === 'failed' || status === 'cancelled';
+}
 
-    // Build HomeTourConfig
-    const homeTourConfig: HomeTourConfig = {
-      images,
-      listing: config.listing,
-      voiceover: config.voiceover,
-      music: config.music,
-      brand: config.brand,
-      output: {
-        path: `./output/${jobId}_tour.mp4`,
-        aspect: config.aspect,
-        resolution: config.resolution,
-        targetSeconds: config.targetSeconds,
-        fps: 24
-      },
-      veo: {
-        projectId: config.veoProject,
-        location: config.veoLocation,
-        model: config.veoModel,
-        generateAudio: false
-      },
-      tmpDir: `./tmp/${jobId}`
-    };
+async function processHomeTourJob(
+  job: Job,
+  jobStore: JobStore,
+  events: JobEventHub,
+  signal: AbortSignal,
+  resume: boolean
+): Promise<JobResult> {
+  const { request } = job;
+  const { tmpDir, outputPath } = getJobPaths(job.id);
+
+  // Convert uploaded files to ImageInput
+  const images: ImageInput[] = request.imagePaths.map(imagePath => ({
+    path: imagePath
+  }));
+
+  // Build HomeTourConfig
+  const homeTourConfig: HomeTourConfig = {
+    images,
+    listing: request.listing,
+    voiceover: request.voiceover,
+    music: request.music,
+    brand: request.brand,
+    output: {
+      path: outputPath,
+      aspect: request.aspect,
+      resolution: request.resolution,
+      targetSeconds: request.targetSeconds,
+      fps: 24,
+      presets: request.presets
+    },
+    compliance: request.mls ? { mls: true } : undefined,
+    ordering: request.ordering,
+    veo: {
+      projectId: request.veoProject,
+      location: request.veoLocation,
+      model: request.veoModel,
+      generateAudio: false
+    },
+    tmpDir,
+    resume,
+    // Segments and audio stay downloadable until the job is deleted
+    keepIntermediates: true
+  };
 
-    // Progress handler
-    const progressHandler = (phase: string, progress: number, message?: string) => {
-      job.progress = progress;
-      job.phase = phase;
-      job.message = message;
-    };
+  // Progress handler; a cancelled job keeps its 'cancelled' state
+  const progressHandler = (phase: string, progress: number, message?: string) => {
+    if (!signal.aborted) {
+      jobStore.updateProgress(job.id, { progress, phase, message });
+      events.publishProgress(job.id, phase, progress, message);
+    }
+  };
 
-    // Generate the tour
-    const result = await makeHomeTour(homeTourConfig, progressHandler);
-
-    // Mark as completed
-    job.status = 'completed';
-    job.progress = 100;
-    job.phase = 'completed';
-    job.result = {
-      outputPath: result.outputPath,
-      duration: result.duration,
-      veoSegments: result.veoSegments,
-      kenBurnsSegments: result.kenBurnsSegments,
-      estimatedCost: result.estimatedCost
-    };
+  // Generate the tour
+  const result = await makeHomeTour(homeTourConfig, progressHandler, {
+    signal,
+    onWarning: message => events.publish(job.id, { type: 'warning', message }),
+    onSegmentProgress: (sceneId, progress, message) =>
+      events.publish(job.id, { type: 'segment', sceneId, progress, message })
+  });
 
-  } catch (error) {
-    job.status = 'failed';
-    job.error = error instanceof Error ? error.message : 'Unknown error';
-  }
+  return {
+    outputPath: result.outputPath,
+    duration: result.duration,
+    veoSegments: result.veoSegments,
+    kenBurnsSegments: result.kenBurnsSegments,
+    estimatedCost: result.estimatedCost,
+    captions: result.captions,
+    exports: result.exports,
+    compliance: result.compliance
+  };
 }
@@ -0,0 +1,13 @@
+declare module 'heic-decode' {
+  interface DecodedImage {
+    width: number;
+    height: number;
+    // RGBA, row by row
+    data: Uint8ClampedArray;
+  }
+
+  // Decodes the primary image, with the container's rotation and mirroring applied
+  function decode(options: { buffer: ArrayBufferLike | Uint8Array }): Promise<DecodedImage>;
+
+  export default decode;
+}
@@ -8,81 +8,184 @@ import {
   VideoSegment,
   AudioTrack,
   AssemblyParams,
-  ImageInput
+  ImageInput,
+  ImageQualityIssue,
+  VideoGenerator,
+  GenerateClipOptions,
+  RunOptions,
+  ExportResult,
+  ComplianceReport,
+  ScenePlan,
+  ScenePlanFile,
+  HomeTourResult
 } from './types.js';
 
 // Import pipeline components
-import { ImageIngestor } from './pipeline/ingest.js';
+import { ImageIngestor, IngestResult } from './pipeline/ingest.js';
+import { ImagePreprocessor } from './pipeline/preprocess.js';
 import { ScenePlanner } from './pipeline/scene-plan.js';
-import { VeoClient } from './pipeline/veo.js';
+import { toVeoDuration, VeoClient } from './pipeline/veo.js';
+import { LocalVideoGenerator } from './pipeline/local-video.js';
+import { RenderCache } from './pipeline/cache.js';
+import { RunManifest } from './pipeline/manifest.js';
+import { runWithConcurrency } from './pipeline/scheduler.js';
 import { KenBurnsGenerator } from './pipeline/kenburns.js';
 import { TTSGenerator } from './pipeline/tts.js';
-import { VideoAssembler } from './pipeline/assemble.js';
-import { BrandingProcessor, LowerThird } from './pipeline/branding.js';
-import { generateSegmentPrompt, generateVoiceoverScript } from './prompts/segmentPrompt.js';
-
-export interface HomeTourResult {
-  outputPath: string;
-  duration: number;
-  veoSegments: number;
-  kenBurnsSegments: number;
-  estimatedCost: number;
-  metadata: {
-    totalImages: number;
-    roomDistribution: Record<string, number>;
-    processingTime: number;
-  };
+import { VideoAssembler, Timeline } from './pipeline/assemble.js';
+import { BrandingProcessor, EndSlate } from './pipeline/branding.js';
+import { CaptionGenerator, CaptionCue } from './pipeline/captions.js';
+import { resolveExportPresets, ResolvedExportPreset } from './pipeline/presets.js';
+import { VideoReframer } from './pipeline/reframe.js';
+import { checkMlsCompliance, containsAgentContact, scrubAgentContact, writeComplianceReport } from './pipeline/compliance.js';
+import { generateSegmentPrompt, generateSceneNarration } from './prompts/segmentPrompt.js';
+import { parseRoom } from './pipeline/room-types.js';
+import { fromScenePlanFile, planImageInputs, toScenePlanFile } from './pipeline/plan-file.js';
+
+const DEFAULT_CACHE_MAX_AGE = 30 * 24 * 60 * 60 * 1000; // 30 days
+const DEFAULT_VEO_CONCURRENCY = 3;
+const END_SLATE_SECONDS = 3;
+const DEFAULT_TMP_DIR = './.cache/home-tour';
+
+// The soundtrack an export is cut from: the main one, or the MLS one
+// without agent contact in the narration and without music that may have lyrics
+interface ExportSource {
+  assembledPath: string;
+  captionCues: CaptionCue[];
 }
 
 export async function makeHomeTour(
   config: HomeTourConfig,
-  onProgress?: ProgressCallback
+  onProgress?: ProgressCallback,
+  options: RunOptions = {}
 ): Promise<HomeTourResult> {
   
+  const { signal, onWarning, onSegmentProgress } = options;
   const startTime = Date.now();
+
+  // Fail on a bad preset list before paying for any segments
+  const exportPresets = resolveExportPresets(config.output, config.compliance);
+  const mlsPreset = exportPresets.find(p => p.mlsCompliant);
+  const complianceReport = mlsPreset ? checkMlsCompliance(config) : undefined;
   
+  // Evict renders nobody has asked for in a while
+  const cache = new RenderCache(config.cacheDir || './.cache/home-tour-renders');
+  cache.cleanup(config.cacheMaxAge ?? DEFAULT_CACHE_MAX_AGE);
+
   // Create pipeline context
   const context: PipelineContext = {
     config,
-    tmpDir: config.tmpDir || './.cache/home-tour',
-    onProgress
+    tmpDir: RunManifest.runDirectory(config.tmpDir || DEFAULT_TMP_DIR, config),
+    onProgress,
+    cache,
+    signal,
+    onWarning,
+    onSegmentProgress
   };
 
-  // Ensure temporary directory exists
+  // A fresh run doesn't build on files an earlier run with this config left behind
+  if (!config.resume) {
+    await fs.promises.rm(context.tmpDir, { recursive: true, force: true });
+  }
   await fs.promises.mkdir(context.tmpDir, { recursive: true });
 
+  // Every phase checkpoints into the manifest so a failed run can be resumed
+  const manifest = RunManifest.open(context.tmpDir, config, config.resume ?? false);
+
   try {
-    onProgress?.('pipeline', 0, 'Starting home tour generation');
+    onProgress?.('pipeline', 0, config.resume ? 'Resuming home tour generation' : 'Starting home tour generation');
 
-    // Phase 1: Ingest and validate images
-    onProgress?.('pipeline', 5, 'Phase 1: Image ingestion');
-    const ingestor = new ImageIngestor(context);
-    const ingestResult = await ingestor.ingestImages(config.images);
-    
-    if (ingestResult.warnings.length > 0) {
-      console.warn('Image ingestion warnings:', ingestResult.warnings);
+    if (manifest.data.status === 'completed' && manifest.data.result && fs.existsSync(manifest.data.result.outputPath)) {
+      onProgress?.('pipeline', 100, 'Home tour already generated');
+      return manifest.data.result;
     }
 
-    // Phase 2: Plan scenes
-    onProgress?.('pipeline', 15, 'Phase 2: Scene planning');
-    const planner = new ScenePlanner(context);
-    const scenePlan = await planner.planScenes(ingestResult.images, config.output);
+    // Phases 1-2: ingest, preprocess and plan (or take the plan as given)
+    const { ingestResult, scenePlan } = await prepareScenePlan(context, manifest, options, complianceReport);
 
-    // Phase 3: Generate video segments
+    // Phase 3: Generate video segments (completed segments are reused)
+    signal?.throwIfAborted();
     onProgress?.('pipeline', 25, 'Phase 3: Video generation');
-    const videoSegments = await generateVideoSegments(ingestResult.images, context);
+    const videoSegments = await generateVideoSegments(scenePlan.scenes, context, manifest);
+    manifest.completePhase('segments');
+
+    // Narration and lower thirds follow the timeline of the rendered segments
+    const timeline = VideoAssembler.calculateTimeline(
+      videoSegments.map(s => s.duration),
+      getCrossfadeDuration(config)
+    );
 
     // Phase 4: Generate audio
+    signal?.throwIfAborted();
     onProgress?.('pipeline', 60, 'Phase 4: Audio generation');
-    const audioTracks = await generateAudioTracks(scenePlan.scenes, config, context);
+    let audioTracks = manifest.data.audioTracks;
+    let captionCues = manifest.data.captionCues || [];
+    let mlsAudioTracks = manifest.data.mlsAudioTracks;
+    let mlsCaptionCues = manifest.data.mlsCaptionCues || [];
+    const audioMissing = (tracks?: AudioTrack[]) => !tracks || !tracks.every(t => fs.existsSync(t.path));
+    if (!manifest.isPhaseComplete('audio') || !audioTracks || audioMissing(audioTracks) || (mlsPreset && audioMissing(mlsAudioTracks))) {
+      ({ audioTracks, captionCues } = await generateAudioTracks(scenePlan.scenes, timeline, config, context));
+      if (mlsPreset) {
+        ({ audioTracks: mlsAudioTracks, captionCues: mlsCaptionCues } =
+          await generateAudioTracks(scenePlan.scenes, timeline, config, context, { mlsCompliant: true }));
+      }
+      manifest.completePhase('audio', { audioTracks, captionCues, mlsAudioTracks, mlsCaptionCues });
+    }
 
     // Phase 5: Assemble final video
+    signal?.throwIfAborted();
     onProgress?.('pipeline', 80, 'Phase 5: Video assembly');
-    const assembledVideoPath = await assembleVideo(videoSegments, audioTracks, config, context);
+    let assembledVideoPath = manifest.data.assembledPath;
+    if (!manifest.isPhaseComplete('assembly') || !assembledVideoPath || !fs.existsSync(assembledVideoPath)) {
+      assembledVideoPath = await assembleVideo(videoSegments, audioTracks, config, context);
+      manifest.completePhase('assembly', { assembledPath: assembledVideoPath, mlsAssembledPath: undefined });
+    }
+
+    // The MLS cut shares the picture and only swaps the soundtrack
+    let mlsAssembledPath = manifest.data.mlsAssembledPath;
+    if (mlsPreset && mlsAudioTracks && (!mlsAssembledPath || !fs.existsSync(mlsAssembledPath))) {
+      mlsAssembledPath = await assembleVideo(videoSegments, mlsAudioTracks, config, context, assembledVideoPath);
+      manifest.completePhase('assembly', { mlsAssembledPath });
+    }
 
     // Phase 6: Apply branding
+    signal?.throwIfAborted();
     onProgress?.('pipeline', 90, 'Phase 6: Branding');
-    const finalVideoPath = await applyBranding(assembledVideoPath, scenePlan.scenes, config, context);
+    const captions = captionCues.length > 0
+      ? await new CaptionGenerator(context).writeCaptionFiles(captionCues, config.output.path)
+      : undefined;
+    const finalVideoPath = await applyBranding(assembledVideoPath, videoSegments, timeline, config, context, {
+      outputPath: config.output.path,
+      captionsPath: config.output.burnCaptions ? captions?.srtPath : undefined
+    });
+    manifest.completePhase('branding', { outputPath: finalVideoPath });
+
+    // Phase 7: Platform exports, reframed from the same assembled tour
+    let exports: ExportResult[] | undefined;
+    if (exportPresets.length > 0) {
+      signal?.throwIfAborted();
+      onProgress?.('pipeline', 95, `Phase 7: Exports (${exportPresets.map(p => p.name).join(', ')})`);
+      exports = await renderExports(
+        exportPresets,
+        {
+          main: { assembledPath: assembledVideoPath, captionCues },
+          mls: mlsAssembledPath ? { assembledPath: mlsAssembledPath, captionCues: mlsCaptionCues } : undefined
+        },
+        videoSegments,
+        timeline,
+        context,
+        manifest
+      );
+      manifest.completePhase('exports', { exports });
+    }
+
+    let compliance: HomeTourResult['compliance'];
+    if (mlsPreset && complianceReport) {
+      const reportPath = await writeComplianceReport(
+        complianceReport,
+        config.compliance?.reportPath || mlsPreset.path.replace(/\.[^./\\]+$/, '') + '.compliance.json'
+      );
+      compliance = { report: complianceReport, reportPath };
+    }
 
     const processingTime = Date.now() - startTime;
     
@@ -91,113 +194,326 @@ export async function makeHomeTour(
     // Calculate results
     const result: HomeTourResult = {
       outputPath: finalVideoPath,
-      duration: scenePlan.totalDuration,
+      duration: timeline.totalDuration,
       veoSegments: scenePlan.veoSegments,
       kenBurnsSegments: scenePlan.kenBurnsSegments,
       estimatedCost: calculateEstimatedCost(scenePlan.veoSegments),
       metadata: {
         totalImages: ingestResult.totalImages,
         roomDistribution: ingestResult.roomDistribution,
-        processingTime
-      }
+        processingTime,
+        qualityIssues: ingestResult.qualityIssues || [],
+        duplicates: ingestResult.duplicates || []
+      },
+      captions,
+      exports,
+      compliance
     };
 
+    manifest.markCompleted(result);
+    if (!config.keepIntermediates) {
+      await removeIntermediates(manifest);
+    }
+
     return result;
 
   } catch (error) {
-    // Cleanup on error
-    await cleanupTempDirectory(context.tmpDir);
+    // Keep tmpDir: its clips are paid for and the manifest lets a resumed run reuse them
+    manifest.markFailed(error);
+    console.warn(`Run state kept in ${context.tmpDir}; re-run with resume to continue where it stopped.`);
     throw error;
   }
 }
 
+// Runs ingest, preprocessing and planning only (no Veo, TTS or rendering)
+// and returns the plan in its editable form. Pass an edited copy back as
+// config.plan to render it.
+export async function planHomeTour(
+  config: HomeTourConfig,
+  onProgress?: ProgressCallback,
+  options: RunOptions = {}
+): Promise<ScenePlanFile> {
+  const { signal, onWarning } = options;
+  const context: PipelineContext = {
+    config,
+    tmpDir: RunManifest.runDirectory(config.tmpDir || DEFAULT_TMP_DIR, config),
+    onProgress,
+    signal,
+    onWarning
+  };
+  await fs.promises.mkdir(context.tmpDir, { recursive: true });
+
+  const manifest = RunManifest.open(context.tmpDir, config, config.resume ?? false);
+  const { scenePlan } = await prepareScenePlan(context, manifest, options);
+  // The plan file points at the original photos, so the preprocessed copies can go
+  if (!config.keepIntermediates) {
+    await removeIntermediates(manifest);
+  }
+  onProgress?.('pipeline', 100, 'Scene plan ready');
+  return toScenePlanFile(scenePlan, config.listing, !!config.voiceover?.text);
+}
+
+export async function resumeHomeTour(
+  config: HomeTourConfig,
+  onProgress?: ProgressCallback,
+  options: RunOptions = {}
+): Promise<HomeTourResult> {
+  return makeHomeTour({ ...config, resume: true }, onProgress, options);
+}
+
+// Phases 1 and 2, shared by a full run and by planning alone
+async function prepareScenePlan(
+  context: PipelineContext,
+  manifest: RunManifest,
+  options: RunOptions,
+  complianceReport?: ComplianceReport
+): Promise<{ ingestResult: IngestResult; scenePlan: ScenePlan }> {
+  const { config, signal, onProgress, onWarning } = context;
+
+  // Phase 1: Ingest and validate images
+  signal?.throwIfAborted();
+  onProgress?.('pipeline', 5, 'Phase 1: Image ingestion');
+  let ingestResult = manifest.data.ingest;
+  if (!manifest.isPhaseComplete('ingest') || !ingestResult) {
+    // A plan's images are ingested as given: every one it names is kept
+    const ingestor = new ImageIngestor(context, {
+      classifier: options.roomClassifier,
+      cullDuplicates: !config.plan
+    });
+    ingestResult = await ingestor.ingestImages(config.plan ? planImageInputs(config.plan) : config.images);
+    manifest.completePhase('ingest', { ingest: ingestResult });
+  }
+  
+  // Violations the MLS cut can't fix itself need the user's attention
+  complianceReport?.violations
+    .filter(violation => !violation.fixedInCut)
+    .forEach(violation => onWarning?.(`MLS compliance (${violation.field}): ${violation.message}`));
+
+  if (ingestResult.warnings.length > 0) {
+    console.warn('Image ingestion warnings:', ingestResult.warnings);
+    ingestResult.warnings.forEach(warning => onWarning?.(warning));
+  }
+
+  // Upright, resized copies in tmpDir stand in for the originals from here on
+  signal?.throwIfAborted();
+  onProgress?.('pipeline', 10, 'Phase 1: Image preprocessing');
+  let images = ingestResult.images;
+  if (config.preprocess?.enabled ?? true) {
+    let preprocessed = manifest.data.preprocessed;
+    if (!manifest.isPhaseComplete('preprocess') || !preprocessed || !preprocessed.every(image => fs.existsSync(image.path))) {
+      const result = await new ImagePreprocessor(context, config.preprocess).preprocessImages(ingestResult.images);
+      result.warnings.forEach(warning => onWarning?.(warning));
+      preprocessed = result.images;
+      manifest.completePhase('preprocess', { preprocessed });
+    }
+    images = preprocessed;
+  }
+
+  // Phase 2: Plan scenes
+  signal?.throwIfAborted();
+  onProgress?.('pipeline', 15, 'Phase 2: Scene planning');
+  let scenePlan = manifest.data.plan;
+  if (!manifest.isPhaseComplete('planning') || !scenePlan) {
+    if (config.plan) {
+      scenePlan = fromScenePlanFile(config.plan, images);
+    } else {
+      // The main output ends on a slate when it is branded and has a listing
+      const planner = new ScenePlanner(context, {
+        maxVeoSegments: config.veo.maxVeoSegments,
+        crossfadeDuration: getCrossfadeDuration(config),
+        floorPlan: config.listing?.floorPlan,
+        endSlateDuration: config.brand && config.listing ? END_SLATE_SECONDS : 0,
+        narration: config.voiceover || config.listing
+          ? { listing: config.listing, script: config.voiceover?.text, speed: config.voiceover?.speed }
+          : undefined
+      });
+      scenePlan = await planner.planScenes(images, config.output);
+    }
+    manifest.completePhase('planning', { plan: scenePlan });
+  }
+
+  // A custom script is split across the scenes at render time, so a plan
+  // file's own narration lines go unused
+  const timing = scenePlan.timing;
+  const planWarnings = [
+    ...(timing && !timing.withinTolerance
+      ? [`Planned tour runs ${timing.renderedSeconds.toFixed(1)}s against a ${timing.targetSeconds}s target: ${timing.reasons.join('; ')}`]
+      : []),
+    ...(timing?.warnings || []),
+    ...(config.plan && config.voiceover?.text && config.plan.scenes.some(scene => scene.narration !== undefined)
+      ? ['The scene plan\'s narration lines are ignored because voiceover.text sets a custom script']
+      : [])
+  ];
+  if (planWarnings.length > 0) {
+    console.warn('Scene plan warnings:', planWarnings);
+    planWarnings.forEach(warning => onWarning?.(warning));
+  }
+
+  return { ingestResult, scenePlan };
+}
+
 async function generateVideoSegments(
-  images: ImageInput[],
-  context: PipelineContext
+  scenes: Scene[],
+  context: PipelineContext,
+  manifest: RunManifest
 ): Promise<VideoSegment[]> {
   
-  const videoSegments: VideoSegment[] = [];
-  const veoClient = new VeoClient(context);
+  const maxConcurrent = context.config.veo.maxConcurrent ?? DEFAULT_VEO_CONCURRENCY;
   const kenBurnsGenerator = new KenBurnsGenerator(context);
+  const progress = new Map<string, number>();
+  let completedCount = 0;
 
-  // Sort images by filename numerically to ensure consistent processing order
-  const sortedImages = [...images].sort((a, b) => {
-    const nameA = path.basename(a.path);
-    const nameB = path.basename(b.path);
-    
-    // Extract numeric part from filename (e.g., "7e5f5_12.jpg" -> 12)
-    const numA = parseInt(nameA.match(/_(\d+)\./)?.[1] || '0');
-    const numB = parseInt(nameB.match(/_(\d+)\./)?.[1] || '0');
-    
-    return numA - numB;
-  });
+  console.log(`Rendering ${scenes.length} planned scenes (up to ${maxConcurrent} Veo operations at once)`);
 
-  console.log(`Processing ${sortedImages.length} images individually for Veo generation`);
+  // Aggregate progress: finished scenes count fully, running ones by their own percentage
+  const reportProgress = (sceneId: string, message: string) => {
+    const total = Array.from(progress.values()).reduce((sum, pct) => sum + pct / 100, completedCount);
+    const running = progress.size;
+    context.onProgress?.('segments', 25 + (total / scenes.length) * 35,
+      `${completedCount}/${scenes.length} segments complete, ${running} rendering — ${sceneId}: ${message}`);
+  };
 
-  // Process each image individually
-  for (let i = 0; i < sortedImages.length; i++) {
-    const image = sortedImages[i];
-    const progress = (i / sortedImages.length) * 35;
-    const imageName = path.basename(image.path);
-    context.onProgress?.('segments', 25 + progress, `Processing image ${i + 1}/${sortedImages.length}: ${imageName}`);
-    
-    // Create a scene for this single image
-    const singleImageScene: Scene = {
-      id: `single-image-${i}`,
-      room: 'home', // Generic room for single image processing
-      images: [image],
-      duration: 4, // 4 seconds per segment
-      type: 'veo',
-      description: `Single image segment ${i + 1}`,
-      focusPoints: []
+  const renderScene = async (scene: Scene, index: number): Promise<VideoSegment> => {
+    context.signal?.throwIfAborted();
+
+    const completed = manifest.getCompletedSegment(scene.id);
+    if (completed) {
+      completedCount++;
+      context.onSegmentProgress?.(scene.id, 100, 'reused from previous run');
+      reportProgress(scene.id, 'reused from previous run');
+      return completed;
+    }
+
+    // Each scene reports through its own context so concurrent clients don't
+    // overwrite one another's progress
+    progress.set(scene.id, 0);
+    const sceneContext: PipelineContext = {
+      ...context,
+      onProgress: (phase, pct, message) => {
+        progress.set(scene.id, Math.max(0, Math.min(100, pct)));
+        context.onSegmentProgress?.(scene.id, progress.get(scene.id)!, message);
+        reportProgress(scene.id, message || phase);
+      }
     };
+    reportProgress(scene.id, `rendering ${scene.type} (${scene.room})`);
+
+    // An operation left over from an interrupted run is polled, not resubmitted
+    const pendingOperation = manifest.getSegment(scene.id)?.operationName;
+    manifest.updateSegment(scene.id, scene.type, { status: 'running', error: undefined });
 
     try {
-      // Generate Veo segment for this single image
-      const segment = await generateVeoSegment(singleImageScene, [singleImageScene], i, veoClient, context);
-      videoSegments.push(segment);
-      console.log(`✓ Generated video segment ${i + 1}/${sortedImages.length}`);
+      const segment = scene.type === 'veo'
+        ? await generateVeoSegment(scene, scenes, index, createVideoGenerator(sceneContext), sceneContext, {
+            resumeOperation: pendingOperation,
+            onOperationStarted: operationName =>
+              manifest.updateSegment(scene.id, scene.type, { operationName })
+          })
+        : await generateKenBurnsSegment(scene, kenBurnsGenerator, context);
+      manifest.updateSegment(scene.id, scene.type, { status: 'completed', segment });
+      progress.delete(scene.id);
+      completedCount++;
+      context.onSegmentProgress?.(scene.id, 100, 'done');
+      reportProgress(scene.id, 'done');
+      console.log(`✓ Generated ${scene.type} segment ${index + 1}/${scenes.length} (${scene.room})`);
+      return segment;
     } catch (error) {
-      console.error(`✗ Failed to generate video segment ${i + 1}:`, error);
+      // The operation name is kept: a poll timeout or download error doesn't
+      // mean the clip failed, and VeoClient resubmits if it really did
+      progress.delete(scene.id);
+      manifest.updateSegment(scene.id, scene.type, {
+        status: 'failed',
+        error: error instanceof Error ? error.message : String(error)
+      });
+      console.error(`✗ Failed to generate ${scene.type} segment ${index + 1} (${scene.id}):`, error);
       throw error;
     }
-  }
+  };
 
-  return videoSegments;
-}
+  // Veo jobs mostly wait on the API, so several run at once; Ken Burns renders
+  // are CPU-bound ffmpeg work and run one at a time alongside them
+  const indexed = scenes.map((scene, index) => ({ scene, index }));
+  const veoScenes = indexed.filter(({ scene }) => scene.type === 'veo');
+  const kenBurnsScenes = indexed.filter(({ scene }) => scene.type !== 'veo');
+
+  // A failure in either pool stops both from starting more scenes; both settle
+  // before failing so nothing keeps rendering in the background
+  const failure = new AbortController();
+  const [veoRun, kenBurnsRun] = await Promise.allSettled([
+    runWithConcurrency(veoScenes, maxConcurrent, ({ scene, index }) => renderScene(scene, index), failure),
+    runWithConcurrency(kenBurnsScenes, 1, ({ scene, index }) => renderScene(scene, index), failure)
+  ]);
+  if (veoRun.status === 'rejected') throw veoRun.reason;
+  if (kenBurnsRun.status === 'rejected') throw kenBurnsRun.reason;
+  const [veoSegments, kenBurnsSegments] = [veoRun.value, kenBurnsRun.value];
+
+  // Collect results back into plan order
+  const videoSegments: VideoSegment[] = new Array(scenes.length);
+  veoScenes.forEach(({ index }, i) => { videoSegments[index] = veoSegments[i]; });
+  kenBurnsScenes.forEach(({ index }, i) => { videoSegments[index] = kenBurnsSegments[i]; });
 
-function getTotalImageCount(scenes: Scene[]): number {
-  return scenes.reduce((total, scene) => total + scene.images.length, 0);
+  return videoSegments;
 }
 
 async function generateVeoSegment(
   scene: Scene,
   allScenes: Scene[],
   sceneIndex: number,
-  veoClient: VeoClient,
-  context: PipelineContext
+  videoGenerator: VideoGenerator,
+  context: PipelineContext,
+  clipOptions: GenerateClipOptions = {}
 ): Promise<VideoSegment> {
   
-  // Upload all images to GCS
-  const imageGcsUris: string[] = [];
-  for (const image of scene.images) {
-    const gcsUri = await veoClient.uploadToGcs(
-      image.path,
-      `inputs/${Date.now()}_${path.basename(image.path)}`,
-      context.config.veo.bucketName
-    );
-    imageGcsUris.push(gcsUri);
+  const primaryImage = scene.images[0];
+  const { config } = context;
+  const duration = toVeoDuration(scene.duration);
+  const generateAudio = config.veo.generateAudio ?? false;
+
+  // Generate prompt for this segment, unless the plan wrote one
+  const prompt = scene.prompt ?? generateSegmentPrompt({
+    scene,
+    listing: config.listing,
+    previousRoom: sceneIndex > 0 ? allScenes[sceneIndex - 1].room : undefined,
+    nextRoom: sceneIndex < allScenes.length - 1 ? allScenes[sceneIndex + 1].room : undefined,
+    segmentIndex: sceneIndex,
+    totalSegments: allScenes.length
+  });
+
+  // Reuse a previous render of the exact same inputs
+  const cacheKey = RenderCache.hashVeoInputs({
+    imagePath: primaryImage.path,
+    prompt,
+    model: config.veo.model,
+    duration,
+    aspect: config.output.aspect,
+    resolution: config.output.resolution,
+    generateAudio,
+    backend: config.veo.backend
+  });
+  const cached = context.cache?.get(cacheKey);
+  if (cached) {
+    const cachedPath = path.join(context.tmpDir, `veo_cached_${scene.id}_${Date.now()}.mp4`);
+    await fs.promises.copyFile(cached.outputPath, cachedPath);
+    context.onProgress?.('veo', 100, `Reused cached clip for ${scene.id}`);
+
+    return {
+      path: cachedPath,
+      duration,
+      type: 'veo',
+      room: scene.room,
+      hasAudio: generateAudio,
+      lowerThird: scene.lowerThird
+    };
   }
-  
-  // Primary image (first one)
-  const imageGcsUri = imageGcsUris[0];
-  
-  // For single image mode, no reference images
-  const refImages: Array<{gcsUri: string; mimeType: string; role: 'asset'}> = []; // Empty array for single image mode
 
-  console.log(`[DEBUG] Scene has ${scene.images.length} images (single image mode)`);
-  console.log(`[DEBUG] Primary image: ${imageGcsUri}`);
-  console.log(`[DEBUG] Reference images: none (single image mode)`);
+  // Upload the primary image to GCS
+  const imageGcsUri = await videoGenerator.uploadImage(
+    primaryImage.path,
+    `inputs/${Date.now()}_${scene.id}_${path.basename(primaryImage.path)}`,
+    config.veo.bucketName
+  );
+
+  // Single image mode, no reference images
+  const refImages: Array<{gcsUri: string; mimeType: string; role: 'asset'}> = [];
 
   // Get last frame from previous segment if available
   let lastFrameGcsUri: string | undefined;
@@ -206,30 +522,28 @@ async function generateVeoSegment(
     // For now, we'll skip this for simplicity
   }
 
-  // Generate prompt for this segment
-  const prompt = generateSegmentPrompt({
-    scene,
-    listing: context.config.listing,
-    previousRoom: sceneIndex > 0 ? allScenes[sceneIndex - 1].room : undefined,
-    nextRoom: sceneIndex < allScenes.length - 1 ? allScenes[sceneIndex + 1].room : undefined,
-    segmentIndex: sceneIndex,
-    totalSegments: allScenes.length
-  });
-
   // Generate Veo clip with all images
-  const veoResult = await veoClient.generateClip({
-    projectId: context.config.veo.projectId,
-    location: context.config.veo.location,
-    model: context.config.veo.model,
-    aspect: context.config.output.aspect,
-    resolution: context.config.output.resolution,
-    duration: Math.min(4, Math.round(scene.duration)) as 4 | 6 | 8,
-    generateAudio: context.config.veo.generateAudio ?? false,
+  const veoResult = await videoGenerator.generateClip({
+    projectId: config.veo.projectId,
+    location: config.veo.location,
+    model: config.veo.model,
+    aspect: config.output.aspect,
+    resolution: config.output.resolution,
+    duration,
+    generateAudio,
     imageGcsUri,
     lastFrameGcsUri,
     refImages, // Include additional images as reference
-    storageUri: `gs://${context.config.veo.bucketName}/output/`, // Add storage URI for output
+    storageUri: config.veo.bucketName ? `gs://${config.veo.bucketName}/output/` : undefined,
     prompt
+  }, clipOptions);
+
+  context.cache?.set(cacheKey, {
+    hash: '',
+    inputHash: cacheKey,
+    outputPath: veoResult.videoPath,
+    lastUsed: new Date(),
+    metadata: { sceneId: scene.id, model: config.veo.model, duration: veoResult.duration }
   });
 
   return {
@@ -237,7 +551,8 @@ async function generateVeoSegment(
     duration: veoResult.duration,
     type: 'veo',
     room: scene.room,
-    hasAudio: context.config.veo.generateAudio ?? false
+    hasAudio: generateAudio,
+    lowerThird: scene.lowerThird
   };
 }
 
@@ -253,7 +568,7 @@ async function generateKenBurnsSegment(
     `kenburns_${scene.id}_${Date.now()}.mp4`
   );
 
-  const { width, height } = getResolutionDimensions(context.config.output.resolution);
+  const { width, height } = getResolutionDimensions(context.config.output.resolution, context.config.output.aspect);
 
   await kenBurnsGenerator.generateOptimizedForRoom(
     primaryImage.path,
@@ -261,7 +576,8 @@ async function generateKenBurnsSegment(
     scene.duration,
     width,
     height,
-    scene.room
+    scene.room,
+    scene.motion
   );
 
   return {
@@ -269,149 +585,332 @@ async function generateKenBurnsSegment(
     duration: scene.duration,
     type: 'kenburns',
     room: scene.room,
-    hasAudio: false
+    hasAudio: false,
+    lowerThird: scene.lowerThird
   };
 }
 
 async function generateAudioTracks(
   scenes: Scene[],
+  timeline: Timeline,
   config: HomeTourConfig,
-  context: PipelineContext
-): Promise<AudioTrack[]> {
+  context: PipelineContext,
+  options: { mlsCompliant?: boolean } = {}
+): Promise<{ audioTracks: AudioTrack[]; captionCues: CaptionCue[] }> {
   
+  const { mlsCompliant = false } = options;
   const audioTracks: AudioTrack[] = [];
+  let captionCues: CaptionCue[] = [];
+
+  // MLS narration loses every sentence with agent contact details; a custom
+  // script with nothing left means no voiceover at all
+  const customScript = config.voiceover?.text && mlsCompliant
+    ? scrubAgentContact(config.voiceover.text)
+    : config.voiceover?.text;
+  const hasNarration = config.voiceover?.text ? !!customScript : !!(config.voiceover || config.listing);
 
   // Generate voiceover if requested or auto-generate
-  if (config.voiceover || config.listing) {
+  if (hasNarration) {
     const ttsGenerator = new TTSGenerator(context);
-    
-    // Generate script if not provided
-    let script = config.voiceover?.text;
-    if (!script && config.listing) {
-      script = generateVoiceoverScript(scenes, config.listing, config.output.targetSeconds);
-    }
 
-    if (script) {
-      const voiceoverPath = path.join(context.tmpDir, `voiceover_${Date.now()}.mp3`);
+    // Each scene's slot runs until the next scene starts fading in. Generated
+    // narration has a line per scene; custom text is split across the slots.
+    const listing = mlsCompliant && config.listing
+      ? {
+          ...config.listing,
+          headline: config.listing.headline && !containsAgentContact(config.listing.headline)
+            ? config.listing.headline
+            : undefined,
+          bullets: config.listing.bullets?.filter(bullet => !containsAgentContact(bullet))
+        }
+      : config.listing;
+    const sceneLines = customScript
+      ? undefined
+      : generateSceneNarration(scenes, listing, { includeContact: !mlsCompliant })
+          .map(line => mlsCompliant ? scrubAgentContact(line) : line);
+    const roomTimings = scenes.map((scene, index) => ({
+      room: scene.room,
+      startTime: timeline.startTimes[index],
+      duration: (timeline.startTimes[index + 1] ?? timeline.totalDuration) - timeline.startTimes[index],
+      text: sceneLines?.[index]
+    }));
+
+    if (roomTimings.length > 0) {
+      const voiceoverPath = path.join(context.tmpDir, `voiceover_${mlsCompliant ? 'mls_' : ''}${Date.now()}.mp3`);
       
-      await ttsGenerator.synthesizeVoiceover({
-        text: script,
-        voice: config.voiceover?.voice || 'en-US-Neural2-D',
-        speed: config.voiceover?.speed || 1.0,
-        outputPath: voiceoverPath
-      });
+      const voiceover = await ttsGenerator.generateVoiceoverWithTiming(
+        customScript || '',
+        roomTimings,
+        voiceoverPath,
+        config.voiceover?.voice || 'en-US-Neural2-D',
+        config.voiceover?.speed || 1.0,
+        timeline.totalDuration
+      );
+      captionCues = new CaptionGenerator(context).buildCues(voiceover.segments, timeline.totalDuration);
 
       audioTracks.push({
         path: voiceoverPath,
         type: 'voiceover',
         volume: 1.0,
         startTime: 0,
-        duration: config.output.targetSeconds
+        duration: timeline.totalDuration
       });
     }
   }
 
-  // Add background music if provided
-  if (config.music) {
-    const musicVolume = config.music.volume || 0.3;
-    const duckingVolume = audioTracks.length > 0 ? musicVolume * 0.4 : musicVolume;
-
+  // Add background music if provided; the assembler ducks it under the voiceover
+  if (config.music && (!mlsCompliant || config.music.instrumental)) {
     audioTracks.push({
       path: config.music.path,
       type: 'music',
-      volume: duckingVolume,
+      volume: config.music.volume || 0.3,
       startTime: 0,
-      duration: config.output.targetSeconds
+      duration: timeline.totalDuration
     });
   }
 
-  return audioTracks;
+  return { audioTracks, captionCues };
 }
 
+// With pictureFrom, the video of an earlier assembly is reused and only the
+// soundtrack is mixed from audioTracks
 async function assembleVideo(
   videoSegments: VideoSegment[],
   audioTracks: AudioTrack[],
   config: HomeTourConfig,
-  context: PipelineContext
+  context: PipelineContext,
+  pictureFrom?: string
 ): Promise<string> {
   
   const assembler = new VideoAssembler(context);
-  const assembledPath = path.join(context.tmpDir, `assembled_${Date.now()}.mp4`);
+  const assembledPath = path.join(context.tmpDir, `assembled_${pictureFrom ? 'mls_' : ''}${Date.now()}.mp4`);
 
   const assemblyParams: AssemblyParams = {
     segments: videoSegments,
     audioTracks,
     outputPath: assembledPath,
-    crossfadeDuration: 0.75,
+    crossfadeDuration: getCrossfadeDuration(config),
+    transition: config.output.transition,
+    audioMix: {
+      duckUnderVOdB: config.music?.duckUnderVOdB,
+      duckAttackMs: config.music?.duckAttackMs,
+      duckReleaseMs: config.music?.duckReleaseMs,
+      musicFadeIn: config.music?.fadeInSeconds,
+      musicFadeOut: config.music?.fadeOutSeconds,
+      loudnessTarget: config.output.loudnessTarget
+    },
     aspect: config.output.aspect,
     resolution: config.output.resolution,
     fps: config.output.fps || 24
   };
 
-  await assembler.assembleVideo(assemblyParams);
+  if (pictureFrom) {
+    await assembler.replaceAudio(pictureFrom, assemblyParams);
+  } else {
+    await assembler.assembleVideo(assemblyParams);
+  }
   return assembledPath;
 }
 
+interface BrandingTarget {
+  outputPath: string;
+  captionsPath?: string;
+  // Export layout; the main output uses the defaults
+  preset?: ResolvedExportPreset;
+  // Length of the (possibly trimmed) tour before the end slate
+  duration?: number;
+}
+
 async function applyBranding(
   videoPath: string,
-  scenes: Scene[],
+  segments: VideoSegment[],
+  timeline: Timeline,
   config: HomeTourConfig,
-  context: PipelineContext
+  context: PipelineContext,
+  target: BrandingTarget
 ): Promise<string> {
   
-  // Ensure output directory exists
-  await fs.promises.mkdir(path.dirname(config.output.path), { recursive: true });
-
-  if (!config.brand) {
-    // No branding, just copy to final output
-    await fs.promises.copyFile(videoPath, config.output.path);
-    return config.output.path;
-  }
-
-  const brandingProcessor = new BrandingProcessor(context);
+  const { outputPath, captionsPath, preset } = target;
+  const brand = preset?.branded === false ? undefined : config.brand;
+  const tourDuration = target.duration ?? timeline.totalDuration;
 
-  // Generate room lower thirds
-  const segmentDurations = scenes.map(s => s.duration);
-  const lowerThirds = BrandingProcessor.generateRoomLowerThirds(
-    scenes.map(s => s.room),
-    segmentDurations,
-    'bar'
+  // Ensure output directory exists
+  await fs.promises.mkdir(path.dirname(outputPath), { recursive: true });
+
+  // Generate room lower thirds from the assembled timeline, where each
+  // segment is on screen until the next one starts fading in. Rooms cut off
+  // by a duration cap don't get one.
+  const segmentDurations = segments.map((s, index) =>
+    index < segments.length - 1
+      ? timeline.startTimes[index + 1] - timeline.startTimes[index]
+      : s.duration
   );
-
-  // Create end slate if we have listing data
-  let endSlate;
-  if (config.listing) {
+  const lowerThirds = brand
+    ? BrandingProcessor.generateRoomLowerThirds(
+        segments.map(s => s.room),
+        segmentDurations,
+        preset?.lowerThirdStyle ?? 'bar',
+        preset?.lowerThirdPosition ?? 'bottom-left',
+        segments.map(s => s.lowerThird)
+      ).filter(lowerThird => lowerThird.startTime + lowerThird.duration <= tourDuration)
+    : [];
+
+  // Create end slate if we have listing data. MLS cuts end on the address
+  // alone: no headline, call to action or brand color.
+  const frameSize = preset
+    ? { width: preset.width, height: preset.height }
+    : getResolutionDimensions(config.output.resolution, config.output.aspect);
+  let endSlate: EndSlate | undefined;
+  if (preset?.mlsCompliant && config.listing?.address) {
+    endSlate = {
+      headline: config.listing.address,
+      duration: END_SLATE_SECONDS,
+      backgroundColor: '#000000',
+      ...frameSize
+    };
+  } else if (brand && config.listing) {
     endSlate = {
       headline: config.listing.headline || 'Thank You',
       subtitle: config.listing.address,
       cta: 'Contact us today to schedule your private showing',
-      duration: 3,
-      backgroundColor: config.brand.primaryHex || '#000000'
+      duration: END_SLATE_SECONDS,
+      backgroundColor: brand.primaryHex || '#000000',
+      ...frameSize
     };
   }
 
+  if (!brand && !captionsPath && !endSlate) {
+    // No branding, just copy to final output
+    await fs.promises.copyFile(videoPath, outputPath);
+    return outputPath;
+  }
+
+  const brandingProcessor = new BrandingProcessor(context, {
+    bottomSafePercent: preset?.bottomSafePercent
+  });
+
   await brandingProcessor.applyBranding(
     videoPath,
-    config.output.path,
-    config.brand,
+    outputPath,
+    brand || {},
     lowerThirds,
-    endSlate
+    endSlate,
+    captionsPath
   );
 
-  return config.output.path;
+  return outputPath;
 }
 
-function getResolutionDimensions(resolution: '720p' | '1080p'): { width: number; height: number } {
-  switch (resolution) {
-    case '720p':
-      return { width: 1280, height: 720 };
-    case '1080p':
-      return { width: 1920, height: 1080 };
+// Each preset is reframed (and trimmed to its cap) from the assembled,
+// unbranded tour, then gets its own captions and branding layout
+async function renderExports(
+  presets: ResolvedExportPreset[],
+  sources: { main: ExportSource; mls?: ExportSource },
+  segments: VideoSegment[],
+  timeline: Timeline,
+  context: PipelineContext,
+  manifest: RunManifest
+): Promise<ExportResult[]> {
+
+  const { config } = context;
+  const reframer = new VideoReframer(context);
+  const captionGenerator = new CaptionGenerator(context);
+  const results: ExportResult[] = [];
+
+  for (const [index, preset] of presets.entries()) {
+    context.signal?.throwIfAborted();
+
+    const completed = manifest.getCompletedExport(preset.name);
+    if (completed) {
+      results.push(completed);
+      continue;
+    }
+
+    context.onProgress?.('exports', (index / presets.length) * 100,
+      `Rendering ${preset.name} (${preset.width}x${preset.height})`);
+
+    // The cap covers the end slate too, so the tour itself gets what's left
+    const hasEndSlate = preset.mlsCompliant
+      ? !!config.listing?.address
+      : preset.branded && !!config.brand && !!config.listing;
+    const endSlateDuration = hasEndSlate ? END_SLATE_SECONDS : 0;
+    const maxSeconds = preset.maxSeconds !== undefined ? preset.maxSeconds - endSlateDuration : undefined;
+    if (maxSeconds !== undefined && maxSeconds <= 0) {
+      throw new Error(`Export preset "${preset.name}" is capped at ${preset.maxSeconds}s, too short for its end slate`);
+    }
+
+    const source = preset.mlsCompliant ? sources.mls : sources.main;
+    if (!source) {
+      throw new Error(`No MLS soundtrack was prepared for export preset "${preset.name}"`);
+    }
+
+    const framedPath = path.join(context.tmpDir, `export_${preset.name}_${Date.now()}.mp4`);
+    const { duration } = await reframer.reframe(
+      source.assembledPath,
+      framedPath,
+      { width: preset.width, height: preset.height, mode: preset.reframe, maxSeconds },
+      { segments, startTimes: timeline.startTimes, crossfadeDuration: timeline.crossfadeDuration }
+    );
+
+    const cues = source.captionCues
+      .filter(cue => cue.start < duration)
+      .map(cue => ({ ...cue, end: Math.min(cue.end, duration) }));
+    const captions = cues.length > 0
+      ? await captionGenerator.writeCaptionFiles(cues, preset.path)
+      : undefined;
+
+    await applyBranding(framedPath, segments, timeline, config, context, {
+      outputPath: preset.path,
+      captionsPath: preset.burnCaptions ? captions?.srtPath : undefined,
+      preset,
+      duration
+    });
+    await fs.promises.rm(framedPath, { force: true });
+
+    const result: ExportResult = {
+      preset: preset.name,
+      outputPath: preset.path,
+      width: preset.width,
+      height: preset.height,
+      duration: duration + endSlateDuration,
+      ...(captions && { captions })
+    };
+    manifest.recordExport(result);
+    results.push(result);
+    console.log(`✓ Exported ${preset.name} (${preset.width}x${preset.height}, ${result.duration.toFixed(1)}s)`);
+  }
+
+  context.onProgress?.('exports', 100, `Rendered ${presets.length} exports`);
+  return results;
+}
+
+function createVideoGenerator(context: PipelineContext): VideoGenerator {
+  switch (context.config.veo.backend) {
+    case 'local':
+      return new LocalVideoGenerator(context, { fps: context.config.output.fps });
+    case 'vertex':
     default:
-      return { width: 1920, height: 1080 };
+      return new VeoClient(context);
   }
 }
 
+function getResolutionDimensions(
+  resolution: '720p' | '1080p',
+  aspect: '16:9' | '9:16'
+): { width: number; height: number } {
+  const landscape = resolution === '720p'
+    ? { width: 1280, height: 720 }
+    : { width: 1920, height: 1080 };
+
+  return aspect === '9:16'
+    ? { width: landscape.height, height: landscape.width }
+    : landscape;
+}
+
+function getCrossfadeDuration(config: HomeTourConfig): number {
+  return config.output.crossfadeDuration ?? 0.75;
+}
+
 function calculateEstimatedCost(veoSegments: number): number {
   // Rough cost estimation based on Veo pricing
   // This would need to be updated based on actual pricing
@@ -419,13 +918,12 @@ function calculateEstimatedCost(veoSegments: number): number {
   return veoSegments * costPerSegment;
 }
 
-async function cleanupTempDirectory(tmpDir: string): Promise<void> {
+// A failed cleanup leaves files behind but doesn't fail a finished run
+async function removeIntermediates(manifest: RunManifest): Promise<void> {
   try {
-    if (fs.existsSync(tmpDir)) {
-      await fs.promises.rm(tmpDir, { recursive: true, force: true });
-    }
+    await manifest.removeIntermediates();
   } catch (error) {
-    console.warn('Failed to cleanup temporary directory:', error);
+    console.warn('Failed to remove intermediate files:', error);
   }
 }
 
@@ -438,11 +936,35 @@ export { BrandingProcessor } from './pipeline/branding.js';
 
 // Export individual pipeline components for advanced usage
 export { ImageIngestor } from './pipeline/ingest.js';
+export { HeuristicRoomClassifier } from './pipeline/room-classifier.js';
+export { ImageQualityAnalyzer } from './pipeline/image-quality.js';
+export { PerceptualHasher } from './pipeline/perceptual-hash.js';
+export { ImagePreprocessor } from './pipeline/preprocess.js';
 export { ScenePlanner } from './pipeline/scene-plan.js';
+export type { ScenePlannerOptions } from './pipeline/scene-plan.js';
+export { FloorPlanGraph } from './pipeline/floor-plan.js';
+export {
+  SCENE_PLAN_SCHEMA,
+  fromScenePlanFile,
+  readScenePlanFile,
+  toScenePlanFile,
+  validateScenePlanFile,
+  writeScenePlanFile
+} from './pipeline/plan-file.js';
+export { ROOM_TYPES, getRoomType, normalizeRoom, parseRoom, roomLabel } from './pipeline/room-types.js';
+export type { ParsedRoom, RoomTypeDefinition } from './pipeline/room-types.js';
 export { VeoClient } from './pipeline/veo.js';
+export { LocalVideoGenerator } from './pipeline/local-video.js';
+export { FakeVertexServer } from './pipeline/fake-vertex.js';
+export { RenderCache } from './pipeline/cache.js';
+export { RunManifest } from './pipeline/manifest.js';
 export { KenBurnsGenerator } from './pipeline/kenburns.js';
 export { TTSGenerator } from './pipeline/tts.js';
+export { CaptionGenerator } from './pipeline/captions.js';
 export { VideoAssembler } from './pipeline/assemble.js';
+export { VideoReframer } from './pipeline/reframe.js';
+export { EXPORT_PRESETS, resolveExportPresets } from './pipeline/presets.js';
+export { checkMlsCompliance, scrubAgentContact } from './pipeline/compliance.js';
 
 // API Functions for direct integration
 export async function validateHomeTourConfig(
@@ -480,10 +1002,11 @@ export async function validateHomeTourConfig(
   if (images.length > 40) {
     warnings.push('More than 40 images provided. Consider reducing for optimal processing time.');
   }
-  if (!roomCounts.exterior) {
+  const hasRoomType = (type: string) => images.some(img => img.room && parseRoom(img.room).type === type);
+  if (!hasRoomType('exterior')) {
     warnings.push('No exterior images detected. Consider adding exterior shots.');
   }
-  if (!roomCounts.kitchen) {
+  if (!hasRoomType('kitchen')) {
     warnings.push('No kitchen images detected. Kitchen photos are important for home tours.');
   }
 
@@ -2,7 +2,7 @@ import ffmpeg from 'fluent-ffmpeg';
 import ffmpegPath from 'ffmpeg-static';
 import fs from 'fs';
 import path from 'path';
-import { VideoSegment, AudioTrack, AssemblyParams, PipelineContext } from '../types.js';
+import { VideoSegment, AudioTrack, AssemblyParams, AudioMixParams, PipelineContext, TransitionType } from '../types.js';
 
 // Set ffmpeg path - disabled to use system FFmpeg due to concat filter bug in ffmpeg-static
 // ffmpeg.setFfmpegPath(ffmpegPath!);
@@ -16,6 +16,25 @@ export interface AssemblyOptions {
   pixelFormat?: string;
 }
 
+export interface Timeline {
+  // Effective crossfade after clamping to the shortest segment
+  crossfadeDuration: number;
+  // Start time of each segment in the assembled video
+  startTimes: number[];
+  // xfade offset for the transition into segment i + 1
+  offsets: number[];
+  totalDuration: number;
+}
+
+// Map the transition catalogue onto ffmpeg xfade transitions
+const XFADE_TRANSITIONS: Record<TransitionType, string> = {
+  'fade': 'fade',
+  'dissolve': 'dissolve',
+  'wipe': 'wipeleft',
+  'slide': 'slideleft',
+  'dip-to-white': 'fadewhite'
+};
+
 export class VideoAssembler {
   private context: PipelineContext;
   private options: Required<AssemblyOptions>;
@@ -52,7 +71,7 @@ export class VideoAssembler {
       this.context.onProgress?.('assembly', 60, 'Processing audio tracks');
 
       // Step 2: Create and mix audio
-      const audioPath = await this.createAudioMix(params.audioTracks, tempDir);
+      const audioPath = await this.createAudioMix(params.audioTracks, tempDir, params);
 
       this.context.onProgress?.('assembly', 85, 'Combining video and audio');
 
@@ -69,6 +88,42 @@ export class VideoAssembler {
     }
   }
 
+  // Put a different soundtrack under an already assembled video; the picture
+  // is copied, only params.audioTracks are mixed
+  async replaceAudio(videoPath: string, params: AssemblyParams): Promise<string> {
+    this.context.onProgress?.('assembly', 0, 'Preparing soundtrack');
+    await this.validateInputs(params);
+
+    const audioPath = await this.createAudioMix(params.audioTracks, path.dirname(params.outputPath), params);
+
+    try {
+      await new Promise<void>((resolve, reject) => {
+        const command = ffmpeg()
+          .input(videoPath)
+          .outputOptions(['-map 0:v', '-c:v copy']);
+
+        if (audioPath) {
+          command
+            .input(audioPath)
+            .outputOptions(['-map 1:a', `-c:a ${this.options.audioCodec}`, `-b:a ${this.options.audioBitrate}`]);
+        }
+
+        command
+          .outputOptions(['-movflags +faststart'])
+          .on('end', () => resolve())
+          .on('error', (error) => reject(error))
+          .save(params.outputPath);
+      });
+    } finally {
+      if (audioPath) {
+        await this.cleanup([audioPath]);
+      }
+    }
+
+    this.context.onProgress?.('assembly', 100, 'Soundtrack replaced');
+    return params.outputPath;
+  }
+
   private async validateInputs(params: AssemblyParams): Promise<void> {
     // Check output directory exists
     await fs.promises.mkdir(path.dirname(params.outputPath), { recursive: true });
@@ -112,16 +167,16 @@ export class VideoAssembler {
   ): Promise<void> {
     
     return new Promise<void>((resolve, reject) => {
-      const { width, height } = this.getResolutionDimensions(params.resolution);
+      const { width, height } = this.getResolutionDimensions(params.resolution, params.aspect);
       
       ffmpeg(segment.path)
         .outputOptions([
+          `-vf ${this.buildSegmentScaleFilter(width, height, params.fps)}`,
           `-c:v ${this.options.codec}`,
           `-crf ${this.options.crf}`,
           `-preset ${this.options.preset}`,
           `-pix_fmt ${this.options.pixelFormat}`,
           `-r ${params.fps}`,
-          `-s ${width}x${height}`,
           '-movflags +faststart'
         ])
         .on('progress', (progress) => {
@@ -140,11 +195,73 @@ export class VideoAssembler {
     params: AssemblyParams
   ): Promise<void> {
     
-    const { crossfadeDuration } = params;
-    const { width, height } = this.getResolutionDimensions(params.resolution);
+    const timeline = VideoAssembler.calculateTimeline(
+      segments.map(s => s.duration),
+      params.crossfadeDuration
+    );
+
+    // No room for an overlap, fall back to hard cuts
+    if (timeline.crossfadeDuration <= 0) {
+      return this.createConcatFileApproach(segments, outputPath, params);
+    }
 
-    // Use manual file list approach to avoid fluent-ffmpeg concat filter bug
-    return this.createConcatFileApproach(segments, outputPath, params);
+    const filters = this.buildCrossfadeFilter(segments, timeline, params);
+
+    return new Promise<void>((resolve, reject) => {
+      const command = ffmpeg();
+
+      segments.forEach(segment => {
+        command.input(segment.path);
+      });
+
+      command
+        .complexFilter(filters, 'final_video')
+        .outputOptions([
+          `-c:v ${this.options.codec}`,
+          `-crf ${this.options.crf}`,
+          `-preset ${this.options.preset}`,
+          `-pix_fmt ${this.options.pixelFormat}`,
+          `-r ${params.fps}`,
+          '-an',
+          '-movflags +faststart'
+        ])
+        .on('progress', (progress) => {
+          const percent = Math.min(50, (progress.percent || 0) * 0.5);
+          this.context.onProgress?.('assembly', 10 + percent, 'Crossfading video segments');
+        })
+        .on('end', () => resolve())
+        .on('error', (error) => reject(error))
+        .save(outputPath);
+    });
+  }
+
+  // Crossfades overlap neighbouring segments, so the assembled length is the
+  // sum of the segment durations minus one crossfade per transition
+  static calculateTimeline(durations: number[], crossfadeDuration: number): Timeline {
+    const shortest = durations.length > 0 ? Math.min(...durations) : 0;
+    const crossfade = durations.length > 1
+      ? Math.max(0, Math.min(crossfadeDuration, shortest / 2))
+      : 0;
+
+    const startTimes: number[] = [];
+    const offsets: number[] = [];
+    let cursor = 0;
+
+    durations.forEach((duration, index) => {
+      startTimes.push(cursor);
+      cursor += duration;
+      if (index < durations.length - 1) {
+        cursor -= crossfade;
+        offsets.push(cursor);
+      }
+    });
+
+    return {
+      crossfadeDuration: crossfade,
+      startTimes,
+      offsets,
+      totalDuration: cursor
+    };
   }
 
   private async createConcatFileApproach(
@@ -197,62 +314,79 @@ export class VideoAssembler {
     });
   }
 
-  private buildCrossfadeFilter(segments: VideoSegment[], crossfadeDuration: number): string[] {
+  private buildCrossfadeFilter(
+    segments: VideoSegment[],
+    timeline: Timeline,
+    params: AssemblyParams
+  ): string[] {
     const filters: string[] = [];
-    let currentLabel = '0:v';
+    const { width, height } = this.getResolutionDimensions(params.resolution, params.aspect);
+    const transition = XFADE_TRANSITIONS[params.transition || 'fade'];
+    const scaleFilter = this.buildSegmentScaleFilter(width, height, params.fps);
 
-    // Scale all inputs to consistent size first
+    // Normalize every input to the output frame, rate and planned duration.
+    // Short clips are padded with their last frame so the offsets hold.
     segments.forEach((segment, index) => {
-      filters.push(`[${index}:v]scale=1920:1080,setsar=1[v${index}]`);
+      filters.push(
+        `[${index}:v]${scaleFilter},` +
+        `tpad=stop_mode=clone:stop_duration=${timeline.crossfadeDuration},` +
+        `trim=duration=${segment.duration},setpts=PTS-STARTPTS,settb=AVTB[v${index}]`
+      );
     });
 
-    // Create crossfades between consecutive segments
+    // Create transitions between consecutive segments
     for (let i = 0; i < segments.length - 1; i++) {
       const inputA = i === 0 ? `v${i}` : `xfade${i - 1}`;
       const inputB = `v${i + 1}`;
       const outputLabel = `xfade${i}`;
 
-      // Calculate offset - where the crossfade should start
-      const segmentDuration = segments[i].duration;
-      const offset = Math.max(0, segmentDuration - crossfadeDuration);
-
       filters.push(
-        `[${inputA}][${inputB}]xfade=transition=fade:duration=${crossfadeDuration}:offset=${offset}[${outputLabel}]`
+        `[${inputA}][${inputB}]xfade=transition=${transition}:` +
+        `duration=${timeline.crossfadeDuration}:offset=${timeline.offsets[i]}[${outputLabel}]`
       );
     }
 
     // Final output
     const finalLabel = segments.length > 1 ? `xfade${segments.length - 2}` : 'v0';
-    if (finalLabel !== 'final_video') {
-      filters.push(`[${finalLabel}]copy[final_video]`);
-    }
+    filters.push(`[${finalLabel}]copy[final_video]`);
 
     return filters;
   }
 
-  private async createAudioMix(audioTracks: AudioTrack[], tempDir: string): Promise<string> {
+  private buildSegmentScaleFilter(width: number, height: number, fps: number): string {
+    // Cover-crop so Veo and Ken Burns clips of any shape fill the frame
+    return `scale=${width}:${height}:force_original_aspect_ratio=increase,` +
+      `crop=${width}:${height},setsar=1,fps=${fps},format=${this.options.pixelFormat}`;
+  }
+
+  private async createAudioMix(
+    audioTracks: AudioTrack[],
+    tempDir: string,
+    params: AssemblyParams
+  ): Promise<string> {
     if (audioTracks.length === 0) {
       return ''; // No audio
     }
 
-    if (audioTracks.length === 1) {
-      return audioTracks[0].path; // Single track, no mixing needed
-    }
-
-    // Mix multiple audio tracks
-    const mixedAudioPath = path.join(tempDir, `mixed_audio_${Date.now()}.mp3`);
+    // Even a single track goes through the graph so it gets fades and loudness normalization
+    const mixedAudioPath = path.join(tempDir, `mixed_audio_${Date.now()}.m4a`);
+    const { totalDuration } = VideoAssembler.calculateTimeline(
+      params.segments.map(s => s.duration),
+      params.crossfadeDuration
+    );
+    const audioFilter = this.buildAudioMixFilter(audioTracks, totalDuration, params.audioMix);
     
     return new Promise<string>((resolve, reject) => {
       const command = ffmpeg();
 
-      // Add all audio inputs
+      // Music loops if it is shorter than the tour; the graph trims it to length
       audioTracks.forEach(track => {
         command.input(track.path);
+        if (track.type === 'music') {
+          command.inputOptions(['-stream_loop -1']);
+        }
       });
 
-      // Build audio filter for mixing
-      const audioFilter = this.buildAudioMixFilter(audioTracks);
-
       command
         .complexFilter(audioFilter, 'mixed_audio')
         .outputOptions([
@@ -270,35 +404,101 @@ export class VideoAssembler {
     });
   }
 
-  private buildAudioMixFilter(audioTracks: AudioTrack[]): string[] {
+  // Voiceover and music are mixed separately, the music is ducked by a
+  // sidechain compressor keyed on the voiceover, and the sum is normalized
+  private buildAudioMixFilter(
+    audioTracks: AudioTrack[],
+    totalDuration: number,
+    mix: AudioMixParams = {}
+  ): string[] {
     const filters: string[] = [];
+    const settings = {
+      duckUnderVOdB: mix.duckUnderVOdB ?? -6,
+      duckAttackMs: mix.duckAttackMs ?? 20,
+      duckReleaseMs: mix.duckReleaseMs ?? 400,
+      musicFadeIn: mix.musicFadeIn ?? 1.5,
+      musicFadeOut: mix.musicFadeOut ?? 3,
+      loudnessTarget: mix.loudnessTarget ?? -16
+    };
 
-    // Process each track (volume, timing)
+    // Process each track (volume, timing) at a common format so amix and the sidechain line up
+    const voiceLabels: string[] = [];
+    const musicLabels: string[] = [];
     audioTracks.forEach((track, index) => {
-      let filterChain = `[${index}:a]`;
+      const chain = ['aformat=sample_rates=48000:channel_layouts=stereo'];
 
-      // Apply volume adjustment
       if (track.volume !== 1.0) {
-        filterChain += `volume=${track.volume}`;
+        chain.push(`volume=${track.volume}`);
       }
 
-      // Apply start time delay if needed
       if (track.startTime > 0) {
-        if (track.volume !== 1.0) filterChain += ',';
-        filterChain += `adelay=${Math.round(track.startTime * 1000)}|${Math.round(track.startTime * 1000)}`;
+        const delayMs = Math.round(track.startTime * 1000);
+        chain.push(`adelay=${delayMs}|${delayMs}`);
       }
 
-      filterChain += `[a${index}]`;
-      filters.push(filterChain);
+      if (track.type === 'music') {
+        const fadeIn = Math.min(settings.musicFadeIn, totalDuration / 2);
+        const fadeOut = Math.min(settings.musicFadeOut, totalDuration / 2);
+        chain.push(`atrim=0:${totalDuration.toFixed(3)}`, 'asetpts=PTS-STARTPTS');
+        if (fadeIn > 0) {
+          chain.push(`afade=t=in:st=0:d=${fadeIn.toFixed(3)}`);
+        }
+        if (fadeOut > 0) {
+          chain.push(`afade=t=out:st=${(totalDuration - fadeOut).toFixed(3)}:d=${fadeOut.toFixed(3)}`);
+        }
+        musicLabels.push(`[m${index}]`);
+        filters.push(`[${index}:a]${chain.join(',')}[m${index}]`);
+      } else {
+        voiceLabels.push(`[v${index}]`);
+        filters.push(`[${index}:a]${chain.join(',')}[v${index}]`);
+      }
     });
 
-    // Mix all processed tracks
-    const inputLabels = audioTracks.map((_, index) => `[a${index}]`).join('');
-    filters.push(`${inputLabels}amix=inputs=${audioTracks.length}:duration=longest[mixed_audio]`);
+    const combine = (labels: string[], output: string) => {
+      filters.push(labels.length === 1
+        ? `${labels[0]}anull[${output}]`
+        : `${labels.join('')}amix=inputs=${labels.length}:duration=longest:normalize=0[${output}]`);
+    };
+
+    if (voiceLabels.length > 0 && musicLabels.length > 0) {
+      combine(voiceLabels, 'voice');
+      combine(musicLabels, 'music');
+
+      // The voiceover feeds both the mix and the compressor's key input
+      filters.push('[voice]asplit=2[voice_mix][voice_key]');
+      filters.push(`[music][voice_key]${this.buildDuckingFilter(settings)}[ducked_music]`);
+      filters.push('[voice_mix][ducked_music]amix=inputs=2:duration=longest:normalize=0[premix]');
+    } else {
+      combine(voiceLabels.length > 0 ? voiceLabels : musicLabels, 'premix');
+    }
+
+    // Pad or trim to the video, then normalize integrated loudness (loudnorm
+    // upsamples internally, so resample back to 48 kHz)
+    filters.push(
+      `[premix]apad,atrim=0:${totalDuration.toFixed(3)},` +
+      `loudnorm=I=${settings.loudnessTarget}:TP=-1.5:LRA=11,aresample=48000[mixed_audio]`
+    );
 
     return filters;
   }
 
+  // sidechaincompress has no "reduce by N dB" knob. Speech sits roughly 24 dB
+  // above the threshold used here, and every dB over threshold is reduced by
+  // (1 - 1/ratio), so pick the ratio that yields the requested depth there.
+  private buildDuckingFilter(settings: {
+    duckUnderVOdB: number;
+    duckAttackMs: number;
+    duckReleaseMs: number;
+  }): string {
+    const threshold = 0.02; // about -34 dBFS
+    const speechOverThreshold = 24;
+    const depth = Math.min(Math.abs(settings.duckUnderVOdB), speechOverThreshold - 1);
+    const ratio = Math.min(20, Math.max(1, 1 / (1 - depth / speechOverThreshold)));
+
+    return `sidechaincompress=threshold=${threshold}:ratio=${ratio.toFixed(2)}` +
+      `:attack=${settings.duckAttackMs}:release=${settings.duckReleaseMs}:makeup=1`;
+  }
+
   private async combineVideoAndAudio(
     videoPath: string, 
     audioPath: string, 
@@ -332,15 +532,17 @@ export class VideoAssembler {
     });
   }
 
-  private getResolutionDimensions(resolution: '720p' | '1080p'): { width: number; height: number } {
-    switch (resolution) {
-      case '720p':
-        return { width: 1280, height: 720 };
-      case '1080p':
-        return { width: 1920, height: 1080 };
-      default:
-        return { width: 1920, height: 1080 };
-    }
+  private getResolutionDimensions(
+    resolution: '720p' | '1080p',
+    aspect: '16:9' | '9:16'
+  ): { width: number; height: number } {
+    const landscape = resolution === '720p'
+      ? { width: 1280, height: 720 }
+      : { width: 1920, height: 1080 };
+
+    return aspect === '9:16'
+      ? { width: landscape.height, height: landscape.width }
+      : landscape;
   }
 
   // Helper method for adding lower-thirds and branding overlays
@@ -3,6 +3,7 @@ import ffmpegPath from 'ffmpeg-static';
 import fs from 'fs';
 import path from 'path';
 import { BrandingParams, BrandConfig, PipelineContext } from '../types.js';
+import { roomLowerThird } from './room-types.js';
 
 // Set ffmpeg path
 ffmpeg.setFfmpegPath(ffmpegPath!);
@@ -12,6 +13,8 @@ export interface BrandingOptions {
   safeMarginPercent?: number;
   logoOpacity?: number;
   textBackgroundOpacity?: number;
+  // Keeps bottom lower thirds above platform UI, in percent of the frame height
+  bottomSafePercent?: number;
 }
 
 export interface LowerThird {
@@ -31,6 +34,9 @@ export interface EndSlate {
   logoPath?: string;
   backgroundColor?: string;
   textColor?: string;
+  // Must match the tour's frame size to be concatenated onto it
+  width?: number;
+  height?: number;
 }
 
 export class BrandingProcessor {
@@ -43,7 +49,8 @@ export class BrandingProcessor {
       defaultFont: options.defaultFont ?? 'Arial',
       safeMarginPercent: options.safeMarginPercent ?? 5,
       logoOpacity: options.logoOpacity ?? 0.9,
-      textBackgroundOpacity: options.textBackgroundOpacity ?? 0.8
+      textBackgroundOpacity: options.textBackgroundOpacity ?? 0.8,
+      bottomSafePercent: options.bottomSafePercent ?? 0
     };
   }
 
@@ -52,7 +59,8 @@ export class BrandingProcessor {
     outputVideoPath: string,
     brandConfig: BrandConfig,
     lowerThirds: LowerThird[],
-    endSlate?: EndSlate
+    endSlate?: EndSlate,
+    captionsPath?: string
   ): Promise<string> {
 
     this.context.onProgress?.('branding', 0, 'Preparing branding elements');
@@ -61,6 +69,7 @@ export class BrandingProcessor {
     const tempDir = path.dirname(outputVideoPath);
     const tempWithLowerThirds = path.join(tempDir, `temp_lowerthirds_${Date.now()}.mp4`);
     const tempWithLogo = path.join(tempDir, `temp_logo_${Date.now()}.mp4`);
+    const tempWithCaptions = path.join(tempDir, `temp_captions_${Date.now()}.mp4`);
 
     try {
       // Step 1: Add lower thirds
@@ -78,7 +87,14 @@ export class BrandingProcessor {
         currentVideo = tempWithLogo;
       }
 
-      // Step 3: Add end slate
+      // Step 3: Burn in captions, before the end slate so they stay on the tour itself
+      if (captionsPath) {
+        this.context.onProgress?.('branding', 65, 'Burning in captions');
+        await this.burnCaptions(currentVideo, tempWithCaptions, captionsPath, brandConfig);
+        currentVideo = tempWithCaptions;
+      }
+
+      // Step 4: Add end slate
       if (endSlate) {
         this.context.onProgress?.('branding', 75, 'Creating end slate');
         await this.addEndSlate(currentVideo, outputVideoPath, endSlate);
@@ -93,7 +109,7 @@ export class BrandingProcessor {
 
     } finally {
       // Cleanup temporary files
-      await this.cleanup([tempWithLowerThirds, tempWithLogo]);
+      await this.cleanup([tempWithLowerThirds, tempWithLogo, tempWithCaptions]);
     }
   }
 
@@ -151,7 +167,7 @@ export class BrandingProcessor {
   private buildLowerThirdFilter(
     inputLabel: string,
     lowerThird: LowerThird,
-    position: { x: number; y: number },
+    position: { x: number | string; y: number },
     brandConfig: BrandConfig,
     outputLabel: string
   ): string {
@@ -182,7 +198,7 @@ export class BrandingProcessor {
 
   private buildBarLowerThird(
     lowerThird: LowerThird,
-    position: { x: number; y: number },
+    position: { x: number | string; y: number },
     backgroundColor: string,
     textColor: string
   ): string {
@@ -205,7 +221,7 @@ export class BrandingProcessor {
 
   private buildMinimalLowerThird(
     lowerThird: LowerThird,
-    position: { x: number; y: number },
+    position: { x: number | string; y: number },
     textColor: string
   ): string {
 
@@ -226,7 +242,7 @@ export class BrandingProcessor {
 
   private buildBadgeLowerThird(
     lowerThird: LowerThird,
-    position: { x: number; y: number },
+    position: { x: number | string; y: number },
     backgroundColor: string,
     textColor: string
   ): string {
@@ -252,15 +268,21 @@ export class BrandingProcessor {
     videoWidth: number,
     videoHeight: number,
     safeMargin: number
-  ): { x: number; y: number } {
+  ): { x: number | string; y: number } {
+
+    // drawtext positions the left edge, so centered and right-aligned text
+    // is placed relative to its rendered width
+    const centerX = '(w-text_w)/2';
+    const rightX = `w-text_w-${safeMargin}`;
+    const bottomY = videoHeight - Math.max(120, Math.round((videoHeight * this.options.bottomSafePercent) / 100) + 60);
 
     const positions = {
-      'bottom-left': { x: safeMargin, y: videoHeight - 120 },
-      'bottom-center': { x: videoWidth / 2, y: videoHeight - 120 },
-      'bottom-right': { x: videoWidth - safeMargin, y: videoHeight - 120 },
+      'bottom-left': { x: safeMargin, y: bottomY },
+      'bottom-center': { x: centerX, y: bottomY },
+      'bottom-right': { x: rightX, y: bottomY },
       'top-left': { x: safeMargin, y: safeMargin + 60 },
-      'top-center': { x: videoWidth / 2, y: safeMargin + 60 },
-      'top-right': { x: videoWidth - safeMargin, y: safeMargin + 60 }
+      'top-center': { x: centerX, y: safeMargin + 60 },
+      'top-right': { x: rightX, y: safeMargin + 60 }
     };
 
     return positions[position as keyof typeof positions] || positions['bottom-left'];
@@ -331,8 +353,8 @@ export class BrandingProcessor {
 
     const backgroundColor = endSlate.backgroundColor || '#000000';
     const textColor = endSlate.textColor || '#FFFFFF';
-    const videoWidth = 1920;
-    const videoHeight = 1080;
+    const videoWidth = endSlate.width ?? 1920;
+    const videoHeight = endSlate.height ?? 1080;
 
     return new Promise<void>((resolve, reject) => {
       let filterComplex = `color=c=${backgroundColor}:s=${videoWidth}x${videoHeight}:d=${endSlate.duration}[bg];`;
@@ -432,6 +454,60 @@ export class BrandingProcessor {
   }
 
   // Utility methods
+  // Rendered by libass from the SRT: white text on a box in the brand color,
+  // bottom-center and raised above the lower thirds
+  private async burnCaptions(
+    inputPath: string,
+    outputPath: string,
+    captionsPath: string,
+    brandConfig: BrandConfig
+  ): Promise<void> {
+
+    const boxColor = this.hexToAssColor(brandConfig.primaryHex || '#000000', 0.6);
+    const style = [
+      `FontName=${brandConfig.fontFamily || this.options.defaultFont}`,
+      'FontSize=16',
+      'PrimaryColour=&H00FFFFFF',
+      `BackColour=${boxColor}`,
+      `OutlineColour=${boxColor}`,
+      'BorderStyle=3',
+      'Outline=4',
+      'Shadow=0',
+      'Alignment=2',
+      'MarginV=48'
+    ].join(',');
+
+    // Quoted for the filtergraph; colons still need escaping for the option parser
+    const escapedPath = path.resolve(captionsPath)
+      .replace(/\\/g, '/')
+      .replace(/:/g, '\\:')
+      .replace(/'/g, "'\\''");
+
+    return new Promise<void>((resolve, reject) => {
+      ffmpeg(inputPath)
+        .videoFilters(`subtitles=filename='${escapedPath}':force_style='${style}'`)
+        .outputOptions([
+          '-c:v libx264',
+          '-crf 18',
+          '-preset medium',
+          '-pix_fmt yuv420p',
+          '-c:a copy',
+          '-movflags +faststart'
+        ])
+        .on('end', () => resolve())
+        .on('error', (error) => reject(error))
+        .save(outputPath);
+    });
+  }
+
+  // ASS colors are &HAABBGGRR with alpha counting up from opaque (00)
+  private hexToAssColor(hex: string, opacity: number = 1): string {
+    const color = hex.replace('#', '').padEnd(6, '0');
+    const alpha = Math.round((1 - opacity) * 255).toString(16).padStart(2, '0');
+    const [r, g, b] = [color.substr(0, 2), color.substr(2, 2), color.substr(4, 2)];
+    return `&H${alpha}${b}${g}${r}`.toUpperCase();
+  }
+
   private hexToFFmpegColor(hex: string, opacity: number = 1): string {
     // Convert #RRGGBB to FFmpeg color format
     const color = hex.replace('#', '');
@@ -499,34 +575,32 @@ export class BrandingProcessor {
     }
   }
 
-  // Helper to generate room-specific lower thirds
+  // Helper to generate room-specific lower thirds. A label given for a
+  // segment replaces its room's text; null leaves the segment without one.
   static generateRoomLowerThirds(
     rooms: string[],
     segmentDurations: number[],
-    style: 'minimal' | 'bar' | 'badge' = 'bar'
+    style: 'minimal' | 'bar' | 'badge' = 'bar',
+    position: LowerThird['position'] = 'bottom-left',
+    labels: Array<string | null | undefined> = []
   ): LowerThird[] {
-    const roomLabels: Record<string, string> = {
-      exterior: 'Exterior',
-      entry: 'Entryway',
-      living: 'Living Room',
-      kitchen: 'Kitchen',
-      bedroom: 'Bedroom',
-      bathroom: 'Bathroom',
-      backyard: 'Backyard'
-    };
-
     let currentTime = 0;
     const lowerThirds: LowerThird[] = [];
 
     rooms.forEach((room, index) => {
       const duration = segmentDurations[index] || 6;
-      const label = roomLabels[room] || room.charAt(0).toUpperCase() + room.slice(1);
+      const label = labels[index] !== undefined ? labels[index] : roomLowerThird(room);
+      if (!label) {
+        // Hallways and stairs pass without a caption
+        currentTime += duration;
+        return;
+      }
 
       lowerThirds.push({
         text: label,
         startTime: currentTime + 1, // Start 1 second into the segment
         duration: 3, // Show for 3 seconds
-        position: 'bottom-left',
+        position,
         style
       });
 
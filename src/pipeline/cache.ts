@@ -0,0 +1,215 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { Cache, CacheEntry } from '../types.js';
+
+interface StoredEntry {
+  hash: string;
+  inputHash: string;
+  outputPath: string;
+  lastUsed: string;
+  metadata?: any;
+}
+
+// Disk-backed, content-addressed store for rendered artifacts (Veo clips,
+// TTS audio). Keys are hashes of everything that influences the output, so
+// a re-render with unchanged inputs is a file copy instead of an API call.
+export class RenderCache implements Cache {
+  private cacheDir: string;
+  private indexPath: string;
+  private entries: Map<string, StoredEntry>;
+  // Keys set, used or dropped since the last save. Only these override the
+  // on-disk index; anything else missing there was removed by another run.
+  private changed = new Set<string>();
+  private removed = new Set<string>();
+
+  constructor(cacheDir: string) {
+    this.cacheDir = cacheDir;
+    this.indexPath = path.join(cacheDir, 'index.json');
+    fs.mkdirSync(path.join(cacheDir, 'objects'), { recursive: true });
+    this.entries = this.loadIndex();
+  }
+
+  get(key: string): CacheEntry | null {
+    // Another run may have rendered it since this one last looked
+    if (!this.entries.has(key)) {
+      this.syncIndex();
+    }
+    const stored = this.entries.get(key);
+    if (!stored) {
+      return null;
+    }
+
+    // The index can outlive its files (manual cleanup, crashed write)
+    if (!fs.existsSync(stored.outputPath)) {
+      this.entries.delete(key);
+      this.removed.add(key);
+      this.saveIndex();
+      return null;
+    }
+
+    stored.lastUsed = new Date().toISOString();
+    this.changed.add(key);
+    this.saveIndex();
+
+    return this.toEntry(stored);
+  }
+
+  // Entries pointing outside the cache directory are copied in, so callers
+  // can hand over a freshly rendered file from tmpDir
+  set(key: string, entry: CacheEntry): void {
+    const objectsDir = path.resolve(this.cacheDir, 'objects');
+    let outputPath = path.resolve(entry.outputPath);
+
+    if (path.dirname(outputPath) !== objectsDir) {
+      const objectPath = path.join(objectsDir, `${key}${path.extname(outputPath)}`);
+      fs.copyFileSync(outputPath, objectPath);
+      outputPath = objectPath;
+    }
+
+    this.removed.delete(key);
+    this.changed.add(key);
+    this.entries.set(key, {
+      hash: entry.hash || RenderCache.hashFile(outputPath),
+      inputHash: entry.inputHash,
+      outputPath,
+      lastUsed: entry.lastUsed.toISOString(),
+      metadata: entry.metadata
+    });
+    this.saveIndex();
+  }
+
+  clear(): void {
+    this.syncIndex();
+    for (const [key, stored] of this.entries.entries()) {
+      this.removeFile(stored.outputPath);
+      this.removed.add(key);
+    }
+    this.entries.clear();
+    this.saveIndex();
+  }
+
+  cleanup(maxAge: number): void {
+    const cutoff = Date.now() - maxAge;
+
+    this.syncIndex();
+    for (const [key, stored] of this.entries.entries()) {
+      if (new Date(stored.lastUsed).getTime() < cutoff) {
+        this.removeFile(stored.outputPath);
+        this.entries.delete(key);
+        this.removed.add(key);
+      }
+    }
+
+    this.saveIndex();
+  }
+
+  static hashVeoInputs(inputs: {
+    imagePath: string;
+    prompt: string;
+    model: string;
+    duration: number;
+    aspect: string;
+    resolution?: string;
+    generateAudio?: boolean;
+    backend?: string;
+  }): string {
+    return RenderCache.hashParts([
+      'veo',
+      inputs.backend ?? 'vertex',
+      RenderCache.hashFile(inputs.imagePath),
+      inputs.prompt,
+      inputs.model,
+      String(inputs.duration),
+      inputs.aspect,
+      inputs.resolution ?? '',
+      String(inputs.generateAudio ?? false)
+    ]);
+  }
+
+  static hashTTSInputs(inputs: {
+    text: string;
+    voice: string;
+    speed: number;
+    audioConfig?: Record<string, unknown>;
+  }): string {
+    return RenderCache.hashParts([
+      'tts',
+      inputs.text,
+      inputs.voice,
+      String(inputs.speed),
+      JSON.stringify(inputs.audioConfig ?? {})
+    ]);
+  }
+
+  private static hashParts(parts: string[]): string {
+    const hash = crypto.createHash('sha256');
+    for (const part of parts) {
+      // Length-prefix each part so ("ab", "c") and ("a", "bc") differ
+      hash.update(`${part.length}:${part}`);
+    }
+    return hash.digest('hex');
+  }
+
+  private static hashFile(filePath: string): string {
+    return crypto.createHash('sha256').update(fs.readFileSync(filePath)).digest('hex');
+  }
+
+  private loadIndex(): Map<string, StoredEntry> {
+    try {
+      const content = fs.readFileSync(this.indexPath, 'utf8');
+      return new Map(Object.entries(JSON.parse(content) as Record<string, StoredEntry>));
+    } catch (error) {
+      // Missing or corrupt index: start empty, orphaned objects get overwritten
+      return new Map();
+    }
+  }
+
+  // Each run opens its own RenderCache over the shared directory, so entries
+  // other instances saved meanwhile are merged in rather than overwritten.
+  // For a key both changed, the more recent use wins.
+  private syncIndex(): void {
+    const merged = this.loadIndex();
+    for (const key of this.removed) {
+      merged.delete(key);
+    }
+    for (const key of this.changed) {
+      const stored = this.entries.get(key);
+      const other = merged.get(key);
+      if (stored && (!other || other.lastUsed <= stored.lastUsed)) {
+        merged.set(key, stored);
+      }
+    }
+    this.entries = merged;
+    this.changed.clear();
+    this.removed.clear();
+  }
+
+  private saveIndex(): void {
+    this.syncIndex();
+    // Write then rename so a crash never leaves a half-written index
+    const tempPath = `${this.indexPath}.${process.pid}.tmp`;
+    fs.writeFileSync(tempPath, JSON.stringify(Object.fromEntries(this.entries), null, 2));
+    fs.renameSync(tempPath, this.indexPath);
+  }
+
+  private toEntry(stored: StoredEntry): CacheEntry {
+    return {
+      hash: stored.hash,
+      inputHash: stored.inputHash,
+      outputPath: stored.outputPath,
+      lastUsed: new Date(stored.lastUsed),
+      metadata: stored.metadata
+    };
+  }
+
+  private removeFile(filePath: string): void {
+    try {
+      if (fs.existsSync(filePath)) {
+        fs.unlinkSync(filePath);
+      }
+    } catch (error) {
+      // Ignore cleanup errors
+    }
+  }
+}
@@ -0,0 +1,149 @@
+import fs from 'fs';
+import path from 'path';
+import { CaptionFiles, PipelineContext } from '../types.js';
+import { TimedVoiceoverSegment } from './tts.js';
+
+export interface CaptionOptions {
+  maxLineLength?: number;
+  maxLines?: number;
+  minCueDuration?: number;
+}
+
+export interface CaptionCue {
+  start: number;
+  end: number;
+  text: string;
+}
+
+// Turns the timed voiceover into caption cues and writes them as SRT and
+// WebVTT. Cues follow sentence timings from TTS, split so each fits on at
+// most maxLines lines of maxLineLength characters.
+export class CaptionGenerator {
+  private context: PipelineContext;
+  private options: Required<CaptionOptions>;
+
+  constructor(context: PipelineContext, options: CaptionOptions = {}) {
+    this.context = context;
+    this.options = {
+      maxLineLength: options.maxLineLength ?? 42,
+      maxLines: options.maxLines ?? 2,
+      minCueDuration: options.minCueDuration ?? 0.8
+    };
+  }
+
+  buildCues(segments: TimedVoiceoverSegment[], totalDuration: number): CaptionCue[] {
+    const cues: CaptionCue[] = [];
+
+    segments.forEach((segment, segmentIndex) => {
+      // A cue never runs into the next line or past the end of the video
+      const segmentEnd = Math.min(
+        segment.startTime + segment.duration,
+        segments[segmentIndex + 1]?.startTime ?? Infinity,
+        totalDuration
+      );
+
+      segment.sentences.forEach((sentence, sentenceIndex) => {
+        const next = segment.sentences[sentenceIndex + 1];
+        const end = Math.min(next ? next.start : segmentEnd, segmentEnd);
+        if (end <= sentence.start) {
+          return;
+        }
+        cues.push(...this.splitSentence(sentence.text, sentence.start, end));
+      });
+    });
+
+    return cues;
+  }
+
+  async writeCaptionFiles(cues: CaptionCue[], videoPath: string): Promise<CaptionFiles> {
+    const extension = path.extname(videoPath);
+    const basePath = extension ? videoPath.slice(0, -extension.length) : videoPath;
+    const files = {
+      srtPath: `${basePath}.srt`,
+      vttPath: `${basePath}.vtt`
+    };
+
+    await fs.promises.mkdir(path.dirname(videoPath), { recursive: true });
+    await fs.promises.writeFile(files.srtPath, this.toSrt(cues));
+    await fs.promises.writeFile(files.vttPath, this.toWebVtt(cues));
+
+    this.context.onProgress?.('captions', 100, `Wrote ${cues.length} captions`);
+
+    return files;
+  }
+
+  toSrt(cues: CaptionCue[]): string {
+    return cues.map((cue, index) =>
+      `${index + 1}\n` +
+      `${this.formatTimestamp(cue.start, ',')} --> ${this.formatTimestamp(cue.end, ',')}\n` +
+      `${cue.text}\n`
+    ).join('\n');
+  }
+
+  toWebVtt(cues: CaptionCue[]): string {
+    const body = cues.map(cue =>
+      `${this.formatTimestamp(cue.start, '.')} --> ${this.formatTimestamp(cue.end, '.')}\n` +
+      // "-->" would end the cue timing line early in some parsers
+      `${cue.text.replace(/-->/g, '->')}\n`
+    ).join('\n');
+    return `WEBVTT\n\n${body}`;
+  }
+
+  // Long sentences become several cues; each gets time in proportion to its length
+  private splitSentence(text: string, start: number, end: number): CaptionCue[] {
+    const lines = this.wrapLines(text);
+    const chunks: string[] = [];
+    for (let i = 0; i < lines.length; i += this.options.maxLines) {
+      chunks.push(lines.slice(i, i + this.options.maxLines).join('\n'));
+    }
+
+    // Don't flash chunks too short to read; fold them together instead
+    const duration = end - start;
+    while (chunks.length > 1 && duration / chunks.length < this.options.minCueDuration) {
+      const last = chunks.pop()!;
+      chunks[chunks.length - 1] += `\n${last}`;
+    }
+
+    const totalChars = chunks.reduce((sum, chunk) => sum + chunk.length, 0);
+    const cues: CaptionCue[] = [];
+    let cursor = start;
+    chunks.forEach((chunk, index) => {
+      const chunkEnd = index === chunks.length - 1
+        ? end
+        : cursor + (chunk.length / totalChars) * duration;
+      cues.push({ start: cursor, end: chunkEnd, text: chunk });
+      cursor = chunkEnd;
+    });
+
+    return cues;
+  }
+
+  private wrapLines(text: string): string[] {
+    const lines: string[] = [];
+    let current = '';
+
+    for (const word of text.split(/\s+/).filter(Boolean)) {
+      if (current && current.length + 1 + word.length > this.options.maxLineLength) {
+        lines.push(current);
+        current = word;
+      } else {
+        current = current ? `${current} ${word}` : word;
+      }
+    }
+    if (current) {
+      lines.push(current);
+    }
+
+    return lines;
+  }
+
+  private formatTimestamp(seconds: number, fractionSeparator: ',' | '.'): string {
+    const totalMs = Math.max(0, Math.round(seconds * 1000));
+    const hours = Math.floor(totalMs / 3600000);
+    const minutes = Math.floor((totalMs % 3600000) / 60000);
+    const secs = Math.floor((totalMs % 60000) / 1000);
+    const ms = totalMs % 1000;
+    const pad = (value: number, width = 2) => String(value).padStart(width, '0');
+    return `${pad(hours)}:${pad(minutes)}:${pad(secs)}${fractionSeparator}${pad(ms, 3)}`;
+  }
+}
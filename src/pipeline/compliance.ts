@@ -0,0 +1,122 @@
+import fs from 'fs';
+import path from 'path';
+import { ComplianceReport, ComplianceViolation, HomeTourConfig } from '../types.js';
+
+// Phrases and details that put an agent's contact information in front of
+// the viewer. MLS boards allow none of them in the virtual tour.
+const CONTACT_PATTERNS: RegExp[] = [
+  // Phone numbers: (555) 123-4567, 555.123.4567, +1 555 123 4567
+  /(?:\+?1[\s.-]?)?\(?\d{3}\)?[\s.-]?\d{3}[\s.-]?\d{4}\b/,
+  /\b[\w.+-]+@[\w-]+(?:\.[\w-]+)+\b/,
+  /\bhttps?:\/\/\S+|\bwww\.\S+|\b[\w-]+\.(?:com|net|realty|homes|io)\b/i,
+  /\b(?:contact|call|text|email|e-mail|message|dm|reach out to)\s+(?:us|me|our|my|the agent|today)\b/i,
+  /\bschedule (?:a|your) (?:private )?(?:showing|tour|viewing)\b/i,
+  /\b(?:visit|see) (?:our|my) (?:website|site|page|profile)\b/i,
+  /\blisted by\b|\bpresented by\b|\bbrokerage\b/i
+];
+
+export function containsAgentContact(text: string): boolean {
+  return CONTACT_PATTERNS.some(pattern => pattern.test(text));
+}
+
+// Drop every sentence that carries contact details or a call to contact the agent
+export function scrubAgentContact(text: string): string {
+  return text
+    .split(/(?<=[.!?])\s+/)
+    .filter(sentence => sentence.trim() && !containsAgentContact(sentence))
+    .join(' ')
+    .trim();
+}
+
+// Every MLS rule the config would break if its main output were used as the
+// virtual tour, and whether the compliant cut takes care of it
+export function checkMlsCompliance(config: HomeTourConfig): ComplianceReport {
+  const violations: ComplianceViolation[] = [];
+  const { brand, listing, voiceover, music } = config;
+
+  if (brand?.logoPath) {
+    violations.push({
+      rule: 'agent-branding',
+      field: 'brand.logoPath',
+      message: 'Logo watermark is not allowed; the MLS cut has no logo',
+      fixedInCut: true
+    });
+  }
+  if (brand && (brand.primaryHex || brand.fontFamily)) {
+    violations.push({
+      rule: 'agent-branding',
+      field: 'brand',
+      message: 'Branded lower thirds and end slate are not allowed; the MLS cut ends on an address-only slate',
+      fixedInCut: true
+    });
+  }
+
+  if (voiceover?.text && containsAgentContact(voiceover.text)) {
+    const scrubbed = scrubAgentContact(voiceover.text);
+    violations.push({
+      rule: 'agent-contact',
+      field: 'voiceover.text',
+      message: scrubbed
+        ? 'Voiceover mentions agent contact details; those sentences are left out of the MLS narration'
+        : 'Every sentence of the voiceover mentions agent contact details; the MLS cut would have no narration',
+      fixedInCut: !!scrubbed
+    });
+  } else if (!voiceover?.text && (voiceover || listing)) {
+    violations.push({
+      rule: 'agent-contact',
+      field: 'voiceover',
+      message: 'Generated narration ends by inviting viewers to contact the agent; the MLS narration leaves that out',
+      fixedInCut: true
+    });
+  }
+
+  if (listing?.headline && containsAgentContact(listing.headline)) {
+    violations.push({
+      rule: 'agent-contact',
+      field: 'listing.headline',
+      message: 'Headline contains agent contact details; it is left out of the MLS narration and end slate',
+      fixedInCut: true
+    });
+  }
+  listing?.bullets?.forEach((bullet, index) => {
+    if (containsAgentContact(bullet)) {
+      violations.push({
+        rule: 'agent-contact',
+        field: `listing.bullets[${index}]`,
+        message: `Feature "${bullet}" contains agent contact details; it is left out of the MLS narration`,
+        fixedInCut: true
+      });
+    }
+  });
+  // The address is shown as-is on the MLS end slate
+  if (listing?.address && containsAgentContact(listing.address)) {
+    violations.push({
+      rule: 'agent-contact',
+      field: 'listing.address',
+      message: 'Address contains contact details and is shown on the MLS end slate; remove them from the address',
+      fixedInCut: false
+    });
+  }
+
+  if (music && !music.instrumental) {
+    violations.push({
+      rule: 'music-lyrics',
+      field: 'music.instrumental',
+      message: 'Music is not marked instrumental, so it may have lyrics; the MLS cut has no music',
+      fixedInCut: true
+    });
+  }
+
+  return {
+    standard: 'mls',
+    compliant: violations.every(v => v.fixedInCut),
+    violations,
+    checkedAt: new Date().toISOString()
+  };
+}
+
+export async function writeComplianceReport(report: ComplianceReport, reportPath: string): Promise<string> {
+  await fs.promises.mkdir(path.dirname(reportPath), { recursive: true });
+  await fs.promises.writeFile(reportPath, JSON.stringify(report, null, 2));
+  return reportPath;
+}
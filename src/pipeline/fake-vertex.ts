@@ -0,0 +1,276 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import type { Server } from 'http';
+import type { Request, Response } from 'express';
+import { CRC32C } from '@google-cloud/storage';
+import { KenBurnsGenerator } from './kenburns.js';
+
+export interface FakeVertexOptions {
+  port?: number;
+  host?: string;
+  storageDir?: string;
+  outputBucket?: string;
+}
+
+// The predictLongRunning parameters the fake reads; the rest are accepted and ignored
+interface FakePredictParameters {
+  storageUri?: string;
+  resolution?: string;
+  aspectRatio?: string;
+  durationSeconds?: number | string;
+}
+
+interface FakeOperation {
+  name: string;
+  done: boolean;
+  videoGcsUri: string;
+  error?: string;
+}
+
+// Minimal HTTP stand-in for the parts of Vertex AI and the GCS JSON API that
+// VeoClient uses. Point VeoConfig.apiEndpoint at it to run the real client
+// code path without a Google project; clips are synthesized with ffmpeg.
+export class FakeVertexServer {
+  private options: Required<FakeVertexOptions>;
+  private operations = new Map<string, FakeOperation>();
+  private kenBurns: KenBurnsGenerator;
+  private server?: Server;
+
+  constructor(options: FakeVertexOptions = {}) {
+    this.options = {
+      port: options.port ?? 8089,
+      host: options.host ?? 'localhost',
+      storageDir: options.storageDir ?? './.cache/fake-vertex',
+      outputBucket: options.outputBucket ?? 'fake-veo-output'
+    };
+    this.kenBurns = new KenBurnsGenerator({}, { preset: 'veryfast' });
+  }
+
+  get url(): string {
+    const address = this.server?.address();
+    const port = address && typeof address === 'object' ? address.port : this.options.port;
+    return `http://${this.options.host}:${port}`;
+  }
+
+  async start(): Promise<string> {
+    const express = await import('express');
+    const app = express.default();
+
+    await fs.promises.mkdir(this.options.storageDir, { recursive: true });
+
+    // GCS simple upload: multipart/related with a JSON metadata part and a media part
+    app.post('/upload/storage/v1/b/:bucket/o',
+      express.default.raw({ type: '*/*', limit: '200mb' }),
+      (req: Request, res: Response) => this.handleUpload(req, res));
+
+    // GCS media download
+    app.get(/^\/storage\/v1\/b\/([^/]+)\/o\/(.+)$/, (req: Request, res: Response) => this.handleDownload(req, res));
+
+    // Vertex AI long-running prediction and polling: /v1/projects/.../models/<model>:<method>
+    app.post(/^\/v1\/(projects\/[^/]+\/locations\/[^/]+\/publishers\/google\/models\/[^/:]+):(\w+)$/,
+      express.default.json({ limit: '10mb' }),
+      (req: Request, res: Response) => this.handlePrediction(req, res));
+
+    await new Promise<void>((resolve, reject) => {
+      this.server = app.listen(this.options.port, this.options.host, () => resolve());
+      this.server.once('error', reject);
+    });
+
+    return this.url;
+  }
+
+  async stop(): Promise<void> {
+    if (!this.server) {
+      return;
+    }
+    await new Promise<void>((resolve, reject) => {
+      this.server!.close(error => error ? reject(error) : resolve());
+    });
+    this.server = undefined;
+  }
+
+  private async handleUpload(req: Request, res: Response): Promise<void> {
+    const bucket = req.params.bucket;
+    const name = String(req.query.name || '');
+    if (!name) {
+      res.status(400).json({ error: { code: 400, message: 'Missing object name' } });
+      return;
+    }
+
+    try {
+      const media = this.extractMultipartMedia(req.body as Buffer, String(req.headers['content-type'] || ''));
+      const objectPath = this.getObjectPath(bucket, name);
+      await fs.promises.mkdir(path.dirname(objectPath), { recursive: true });
+      await fs.promises.writeFile(objectPath, media);
+
+      res.json({
+        kind: 'storage#object',
+        bucket,
+        name,
+        size: String(media.length),
+        ...this.getHashes(media)
+      });
+    } catch (error) {
+      res.status(400).json({ error: { code: 400, message: error instanceof Error ? error.message : 'Upload failed' } });
+    }
+  }
+
+  private async handleDownload(req: Request, res: Response): Promise<void> {
+    const [bucket, name] = [req.params[0], req.params[1]];
+
+    let data: Buffer;
+    try {
+      data = await fs.promises.readFile(this.getObjectPath(bucket, name));
+    } catch (error) {
+      res.status(404).json({ error: { code: 404, message: `No such object: ${bucket}/${name}` } });
+      return;
+    }
+
+    const hashes = this.getHashes(data);
+
+    if (req.query.alt !== 'media') {
+      res.json({ kind: 'storage#object', bucket, name, size: String(data.length), ...hashes });
+      return;
+    }
+
+    res.setHeader('x-goog-hash', `crc32c=${hashes.crc32c},md5=${hashes.md5Hash}`);
+    res.setHeader('Content-Type', 'application/octet-stream');
+    res.send(data);
+  }
+
+  private handlePrediction(req: Request, res: Response): void {
+    const [modelPath, method] = [req.params[0], req.params[1]];
+
+    if (method === 'predictLongRunning') {
+      const instance = req.body?.instances?.[0];
+      const parameters: FakePredictParameters = req.body?.parameters || {};
+      const imageUri: string | undefined = instance?.image?.gcsUri || instance?.referenceImages?.[0]?.image?.gcsUri;
+      if (!imageUri) {
+        res.status(400).json({ error: { code: 400, message: 'An input image is required' } });
+        return;
+      }
+
+      const id = crypto.randomUUID();
+      const outputPrefix = String(parameters.storageUri || `gs://${this.options.outputBucket}/`).replace(/\/?$/, '/');
+      const operation: FakeOperation = {
+        name: `${modelPath}/operations/${id}`,
+        done: false,
+        videoGcsUri: `${outputPrefix}${id}/sample_0.mp4`
+      };
+      this.operations.set(operation.name, operation);
+
+      this.renderOperation(operation, imageUri, parameters).catch(error => {
+        operation.error = error instanceof Error ? error.message : String(error);
+        operation.done = true;
+      });
+
+      res.json({ name: operation.name });
+      return;
+    }
+
+    if (method === 'fetchPredictOperation') {
+      const operation = this.operations.get(req.body?.operationName);
+      if (!operation) {
+        res.status(404).json({ error: { code: 404, message: 'Operation not found' } });
+        return;
+      }
+
+      if (!operation.done) {
+        res.json({ name: operation.name, done: false });
+      } else if (operation.error) {
+        res.json({ name: operation.name, done: true, error: { code: 13, message: operation.error } });
+      } else {
+        res.json({
+          name: operation.name,
+          done: true,
+          response: {
+            '@type': 'type.googleapis.com/cloud.ai.large_models.vision.GenerateVideoResponse',
+            videos: [{ gcsUri: operation.videoGcsUri, mimeType: 'video/mp4' }]
+          }
+        });
+      }
+      return;
+    }
+
+    res.status(404).json({ error: { code: 404, message: `Unsupported method: ${method}` } });
+  }
+
+  private async renderOperation(operation: FakeOperation, imageUri: string, parameters: FakePredictParameters): Promise<void> {
+    const input = this.parseGcsUri(imageUri);
+    const output = this.parseGcsUri(operation.videoGcsUri);
+    const outputPath = this.getObjectPath(output.bucket, output.name);
+    const landscape = parameters.resolution === '1080p'
+      ? { width: 1920, height: 1080 }
+      : { width: 1280, height: 720 };
+    const { width, height } = parameters.aspectRatio === '9:16'
+      ? { width: landscape.height, height: landscape.width }
+      : landscape;
+
+    await this.kenBurns.generateKenBurns({
+      imagePath: this.getObjectPath(input.bucket, input.name),
+      outputPath,
+      duration: Number(parameters.durationSeconds) || 8,
+      width,
+      height,
+      zoomDirection: 'in',
+      panDirection: 'right'
+    });
+
+    operation.done = true;
+  }
+
+  private extractMultipartMedia(body: Buffer, contentType: string): Buffer {
+    const boundary = contentType.match(/boundary="?([^";]+)"?/)?.[1];
+    if (!boundary) {
+      // Plain media upload
+      return body;
+    }
+
+    // Parts are separated by --boundary; the media is the last part
+    const delimiter = Buffer.from(`--${boundary}`);
+    const parts: Buffer[] = [];
+    let start = body.indexOf(delimiter);
+    while (start !== -1) {
+      const next = body.indexOf(delimiter, start + delimiter.length);
+      if (next === -1) break;
+      parts.push(body.subarray(start + delimiter.length, next));
+      start = next;
+    }
+
+    const mediaPart = parts[parts.length - 1];
+    if (!mediaPart) {
+      throw new Error('Malformed multipart upload');
+    }
+
+    const headerEnd = mediaPart.indexOf('\r\n\r\n');
+    // Strip the part headers and the CRLF that precedes the next delimiter
+    return mediaPart.subarray(headerEnd + 4, mediaPart.length - 2);
+  }
+
+  private getHashes(data: Buffer): { crc32c: string; md5Hash: string } {
+    const crc32c = new CRC32C();
+    crc32c.update(data);
+
+    return {
+      crc32c: crc32c.toString(),
+      md5Hash: crypto.createHash('md5').update(data).digest('base64')
+    };
+  }
+
+  private parseGcsUri(gcsUri: string): { bucket: string; name: string } {
+    const match = gcsUri.match(/^gs:\/\/([^\/]+)\/(.+)$/);
+    if (!match) {
+      throw new Error(`Invalid GCS URI: ${gcsUri}`);
+    }
+    return { bucket: match[1], name: match[2] };
+  }
+
+  private getObjectPath(bucket: string, name: string): string {
+    const objectPath = path.resolve(this.options.storageDir, bucket, name);
+    if (!objectPath.startsWith(path.resolve(this.options.storageDir) + path.sep)) {
+      throw new Error(`Invalid object name: ${name}`);
+    }
+    return objectPath;
+  }
+}
@@ -0,0 +1,148 @@
+import { FloorPlan, FloorPlanRoom } from '../types.js';
+import { getRoomType, parseRoom } from './room-types.js';
+
+// The floor plan as a graph of rooms, for walking a tour through it in an
+// order a visitor could actually follow
+export class FloorPlanGraph {
+  private plan: FloorPlan;
+  private rooms = new Map<string, FloorPlanRoom>();
+  private neighbors = new Map<string, Set<string>>();
+
+  constructor(plan: FloorPlan) {
+    this.plan = plan;
+
+    for (const room of plan.rooms) {
+      if (this.rooms.has(room.id)) {
+        throw new Error(`Floor plan lists room "${room.id}" twice`);
+      }
+      this.rooms.set(room.id, room);
+      this.neighbors.set(room.id, new Set());
+    }
+
+    // Doors work both ways, whichever side the plan lists them on
+    for (const room of plan.rooms) {
+      for (const id of room.adjacent || []) {
+        if (!this.rooms.has(id)) {
+          throw new Error(`Floor plan room "${room.id}" is adjacent to unknown room "${id}"`);
+        }
+        this.neighbors.get(room.id)!.add(id);
+        this.neighbors.get(id)!.add(room.id);
+      }
+    }
+
+    if (plan.start && !this.rooms.has(plan.start)) {
+      throw new Error(`Floor plan starts at unknown room "${plan.start}"`);
+    }
+  }
+
+  // A room label from an image: a room id, or else a room type, which
+  // means the first room of that type in the plan
+  resolve(label: string): FloorPlanRoom | undefined {
+    return this.rooms.get(label) || this.plan.rooms.find(room => this.typeOf(room) === label);
+  }
+
+  // "kitchen-2" and "guest-bedroom" are a kitchen and a bedroom without saying so
+  typeOf(room: FloorPlanRoom): string {
+    return room.type || parseRoom(room.id).type;
+  }
+
+  floorOf(room: FloorPlanRoom): number {
+    return room.floor ?? 0;
+  }
+
+  // Orders room labels into a walk-through: start at the front, finish each
+  // floor before taking the stairs (up first, then down), always walk to the
+  // closest room not seen yet, and end outside. Labels that aren't in the
+  // plan are left out.
+  route(labels: string[]): string[] {
+    const labelsByRoom = new Map<string, string[]>();
+    for (const label of labels) {
+      const room = this.resolve(label);
+      if (room) {
+        labelsByRoom.set(room.id, [...(labelsByRoom.get(room.id) || []), label]);
+      }
+    }
+    if (labelsByRoom.size === 0) {
+      return [];
+    }
+
+    const toVisit = this.plan.rooms.filter(room => labelsByRoom.has(room.id));
+    // Outdoor spaces are saved for last, after every floor
+    const finale = toVisit.filter(room => getRoomType(this.typeOf(room)).finale);
+    const indoors = toVisit.filter(room => !finale.includes(room));
+
+    const start = this.findStart() || toVisit[0];
+    const startFloor = this.floorOf(start);
+    const floors = [...new Set(indoors.map(room => this.floorOf(room)))];
+    const floorOrder = [
+      ...floors.filter(floor => floor === startFloor),
+      ...floors.filter(floor => floor > startFloor).sort((a, b) => a - b),
+      ...floors.filter(floor => floor < startFloor).sort((a, b) => b - a)
+    ];
+
+    const order: FloorPlanRoom[] = [];
+    let current = start;
+    const walk = (rooms: FloorPlanRoom[]) => {
+      const remaining = [...rooms];
+      while (remaining.length > 0) {
+        // Nearest by number of doorways; unreachable rooms follow in plan order
+        const distances = remaining.map(room => this.shortestPath(current.id, room.id)?.length ?? Infinity);
+        const next = distances.indexOf(Math.min(...distances));
+        current = remaining.splice(next, 1)[0];
+        order.push(current);
+      }
+    };
+
+    floorOrder.forEach(floor => walk(indoors.filter(room => this.floorOf(room) === floor)));
+    walk(finale);
+
+    return order.flatMap(room => labelsByRoom.get(room.id)!);
+  }
+
+  // Hallways and stairs on the shortest way between two labeled rooms
+  connectorsBetween(fromLabel: string, toLabel: string): FloorPlanRoom[] {
+    const from = this.resolve(fromLabel);
+    const to = this.resolve(toLabel);
+    if (!from || !to) {
+      return [];
+    }
+
+    const pathIds = this.shortestPath(from.id, to.id) || [];
+    return pathIds.slice(1, -1)
+      .map(id => this.rooms.get(id)!)
+      .filter(room => room.kind === 'hallway' || room.kind === 'stairs');
+  }
+
+  private findStart(): FloorPlanRoom | undefined {
+    if (this.plan.start) {
+      return this.rooms.get(this.plan.start);
+    }
+    return this.plan.rooms.find(room => this.typeOf(room) === 'exterior') ||
+      this.plan.rooms.find(room => this.typeOf(room) === 'entry');
+  }
+
+  // Room ids from one room to the other, both included (breadth-first)
+  private shortestPath(fromId: string, toId: string): string[] | null {
+    const previous = new Map<string, string | null>([[fromId, null]]);
+    const queue = [fromId];
+
+    while (queue.length > 0) {
+      const id = queue.shift()!;
+      if (id === toId) {
+        const path = [id];
+        for (let step = previous.get(id); step; step = previous.get(step)) {
+          path.unshift(step);
+        }
+        return path;
+      }
+      for (const neighbor of this.neighbors.get(id) || []) {
+        if (!previous.has(neighbor)) {
+          previous.set(neighbor, id);
+          queue.push(neighbor);
+        }
+      }
+    }
+
+    return null;
+  }
+}
@@ -0,0 +1,214 @@
+import crypto from 'crypto';
+import ffmpeg from 'fluent-ffmpeg';
+import ffmpegPath from 'ffmpeg-static';
+import fs from 'fs';
+import path from 'path';
+import { Readable } from 'stream';
+import exifr from 'exifr';
+import decodeHeic from 'heic-decode';
+import { PipelineContext } from '../types.js';
+
+// Set ffmpeg path
+ffmpeg.setFfmpegPath(ffmpegPath!);
+
+// Formats Veo and the rest of the pipeline take directly
+export const NATIVE_IMAGE_EXTENSIONS = ['.jpg', '.jpeg', '.png', '.webp'];
+// Decoded (HEIC/HEIF with libheif, the rest with ffmpeg) and re-encoded as JPEG
+export const CONVERTED_IMAGE_EXTENSIONS = ['.heic', '.heif', '.avif', '.tif', '.tiff'];
+// Camera RAW files; only their embedded JPEG preview is used
+export const RAW_IMAGE_EXTENSIONS = ['.cr2', '.cr3', '.nef', '.nrw', '.arw', '.dng', '.orf', '.rw2', '.raf', '.pef', '.srw'];
+
+export const IMAGE_EXTENSIONS = [...NATIVE_IMAGE_EXTENSIONS, ...CONVERTED_IMAGE_EXTENSIONS, ...RAW_IMAGE_EXTENSIONS];
+
+export function isSupportedImage(imagePath: string): boolean {
+  return IMAGE_EXTENSIONS.includes(path.extname(imagePath).toLowerCase());
+}
+
+// Filters that undo each EXIF orientation (1 is upright)
+export const ORIENTATION_FILTERS: Record<number, string[]> = {
+  2: ['hflip'],
+  3: ['hflip', 'vflip'],
+  4: ['vflip'],
+  5: ['transpose=0'],
+  6: ['transpose=1'],
+  7: ['transpose=3'],
+  8: ['transpose=2']
+};
+
+// EXIF orientation (1-8); files without EXIF (PNG, stripped files) are upright
+export async function readExifOrientation(imagePath: string): Promise<number> {
+  try {
+    return (await exifr.orientation(imagePath)) || 1;
+  } catch (error) {
+    return 1;
+  }
+}
+
+// Upright RGBA pixels of a HEIC/HEIF file's primary image. The bundled
+// ffmpeg (6.0) can't read HEIF at all, and iPhones store photos as grids of
+// tiles, so libheif decodes them; it also applies the container's rotation.
+export async function readHeic(imagePath: string): Promise<{ width: number; height: number; data: Uint8ClampedArray }> {
+  return decodeHeic({ buffer: await fs.promises.readFile(imagePath) });
+}
+
+// Largest embedded preview in a RAW file. RAW containers hold several JPEGs
+// (thumbnail, preview, sometimes a full-size render) and, in DNG and some
+// others, lossless-JPEG sensor data, which is skipped because nothing
+// downstream can decode it as a photo.
+export function extractRawPreview(data: Buffer): Buffer | null {
+  let best: { start: number; end: number; pixels: number } | null = null;
+
+  for (let start = data.indexOf(JPEG_SOI); start !== -1; start = data.indexOf(JPEG_SOI, start + 2)) {
+    const jpeg = measureJpeg(data, start);
+    if (jpeg && (!best || jpeg.pixels > best.pixels || (jpeg.pixels === best.pixels && jpeg.end - start > best.end - best.start))) {
+      best = { start, ...jpeg };
+    }
+  }
+
+  return best ? data.subarray(best.start, best.end) : null;
+}
+
+const JPEG_SOI = Buffer.from([0xff, 0xd8, 0xff]);
+
+// Walk the JPEG's segments from its SOI: skip each marker segment by its
+// length (so EXIF thumbnails inside APP1 are passed over), find the end of
+// the scan data, and report the frame size from the SOF header
+function measureJpeg(data: Buffer, start: number): { end: number; pixels: number } | null {
+  let offset = start + 2;
+  let pixels = 0;
+
+  while (offset + 2 <= data.length) {
+    if (data[offset] !== 0xff) {
+      return null;
+    }
+    const marker = data[offset + 1];
+    if (marker === 0xff) {
+      offset++;
+      continue;
+    }
+    if (marker === 0xd9) {
+      return pixels > 0 ? { end: offset + 2, pixels } : null;
+    }
+
+    if (offset + 4 > data.length) {
+      return null;
+    }
+    const length = data.readUInt16BE(offset + 2);
+    if (length < 2) {
+      return null;
+    }
+
+    // Baseline, extended and progressive frames; everything else (lossless, arithmetic) is sensor data
+    if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+      if (marker > 0xc2 || offset + 9 > data.length) {
+        return null;
+      }
+      pixels = data.readUInt16BE(offset + 5) * data.readUInt16BE(offset + 7);
+    }
+
+    offset += 2 + length;
+
+    if (marker === 0xda) {
+      // Entropy-coded data runs until a marker other than stuffing or a restart
+      while (offset + 1 < data.length) {
+        if (data[offset] === 0xff) {
+          const next = data[offset + 1];
+          if (next !== 0x00 && !(next >= 0xd0 && next <= 0xd7)) {
+            break;
+          }
+          offset++;
+        }
+        offset++;
+      }
+    }
+  }
+
+  return null;
+}
+
+// Turns HEIC/HEIF, AVIF, TIFF and RAW files into JPEGs in tmpDir that every
+// later phase can read. Conversions are named after the source file, so an
+// unchanged source is converted once.
+export class ImageConverter {
+  private context: PipelineContext;
+
+  constructor(context: PipelineContext) {
+    this.context = context;
+  }
+
+  needsConversion(imagePath: string): boolean {
+    return !NATIVE_IMAGE_EXTENSIONS.includes(path.extname(imagePath).toLowerCase());
+  }
+
+  async convert(imagePath: string): Promise<string> {
+    const ext = path.extname(imagePath).toLowerCase();
+    const outputDir = path.join(this.context.tmpDir, 'converted');
+    const stats = await fs.promises.stat(imagePath);
+    const key = crypto.createHash('sha256')
+      .update([path.resolve(imagePath), stats.size, stats.mtimeMs].join('|'))
+      .digest('hex')
+      .slice(0, 16);
+    const outputPath = path.join(outputDir, `${path.parse(imagePath).name}_${key}.jpg`);
+    if (fs.existsSync(outputPath)) {
+      return outputPath;
+    }
+
+    await fs.promises.mkdir(outputDir, { recursive: true });
+    const partialPath = `${outputPath}.partial.jpg`;
+
+    if (RAW_IMAGE_EXTENSIONS.includes(ext)) {
+      const preview = extractRawPreview(await fs.promises.readFile(imagePath));
+      if (!preview) {
+        throw new Error('No embedded JPEG preview found in RAW file');
+      }
+      // Previews are stored as the sensor reads out; the RAW's EXIF says how to turn them
+      await fs.promises.writeFile(partialPath, preview);
+      const orientation = await readExifOrientation(imagePath);
+      if (ORIENTATION_FILTERS[orientation]) {
+        const previewPath = `${outputPath}.preview.jpg`;
+        await fs.promises.rename(partialPath, previewPath);
+        try {
+          await this.reencode(previewPath, partialPath, ORIENTATION_FILTERS[orientation], ['-noautorotate']);
+        } finally {
+          await fs.promises.rm(previewPath, { force: true });
+        }
+      }
+    } else if (ext === '.tif' || ext === '.tiff') {
+      // ffmpeg ignores TIFF orientation, so apply it here
+      const orientation = await readExifOrientation(imagePath);
+      await this.reencode(imagePath, partialPath, ORIENTATION_FILTERS[orientation] || [], ['-noautorotate']);
+    } else if (ext === '.heic' || ext === '.heif') {
+      const { width, height, data } = await readHeic(imagePath);
+      await this.reencode(Readable.from([Buffer.from(data.buffer, data.byteOffset, data.byteLength)]), partialPath, [], [
+        '-f rawvideo',
+        '-pix_fmt rgba',
+        `-video_size ${width}x${height}`
+      ]);
+    } else {
+      // AVIF rotation lives in the container, which ffmpeg applies itself
+      await this.reencode(imagePath, partialPath, [], []);
+    }
+
+    await fs.promises.rename(partialPath, outputPath);
+    return outputPath;
+  }
+
+  private reencode(input: string | Readable, outputPath: string, filters: string[], inputOptions: string[]): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const command = ffmpeg(input);
+      if (inputOptions.length > 0) {
+        command.inputOptions(inputOptions);
+      }
+      if (filters.length > 0) {
+        command.videoFilters(filters);
+      }
+
+      command
+        // 8-bit 4:2:0 JPEG; 16-bit TIFFs and 10-bit HEICs are reduced here
+        .outputOptions(['-frames:v 1', '-q:v 2', '-pix_fmt yuvj420p'])
+        .on('end', () => resolve())
+        .on('error', (error) => reject(error))
+        .save(outputPath);
+    });
+  }
+}
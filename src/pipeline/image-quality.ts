@@ -0,0 +1,279 @@
+import ffmpeg from 'fluent-ffmpeg';
+import ffmpegPath from 'ffmpeg-static';
+import fs from 'fs';
+import path from 'path';
+import { ImageQuality, ImageQualityIssue, OutputConfig, PipelineContext } from '../types.js';
+import { ORIENTATION_FILTERS, readExifOrientation } from './image-formats.js';
+import { getExportDimensions } from './presets.js';
+
+// Set ffmpeg path
+ffmpeg.setFfmpegPath(ffmpegPath!);
+
+export interface ImageQualityOptions {
+  // Width of the grayscale copy the pixel checks run on
+  analysisWidth?: number;
+  // Laplacian variance below which a photo reads as blurry, and above which it is fully sharp
+  blurVariance?: number;
+  sharpVariance?: number;
+  // Share of blown-out or crushed pixels worth flagging
+  maxClippedHighlights?: number;
+  maxClippedShadows?: number;
+  maxTiltDegrees?: number;
+  // Flag photos that have to be enlarged more than this to fill the frame
+  maxUpscale?: number;
+  // Flag photos that lose more than this share to the output aspect crop
+  maxCroppedFraction?: number;
+}
+
+// Lines within this many degrees of vertical count as verticals
+const VERTICAL_WINDOW_DEGREES = 15;
+
+// Per-image checks against what the tour will do with the photo: how far it
+// is enlarged and cropped for the output frame, and whether it is sharp,
+// well exposed and level. Pixel checks run on a small grayscale copy.
+export class ImageQualityAnalyzer {
+  private context: PipelineContext;
+  private options: Required<ImageQualityOptions>;
+
+  constructor(context: PipelineContext, options: ImageQualityOptions = {}) {
+    this.context = context;
+    this.options = {
+      analysisWidth: options.analysisWidth ?? 512,
+      blurVariance: options.blurVariance ?? 60,
+      sharpVariance: options.sharpVariance ?? 300,
+      maxClippedHighlights: options.maxClippedHighlights ?? 0.05,
+      maxClippedShadows: options.maxClippedShadows ?? 0.1,
+      maxTiltDegrees: options.maxTiltDegrees ?? 2,
+      maxUpscale: options.maxUpscale ?? 1.5,
+      maxCroppedFraction: options.maxCroppedFraction ?? 0.3
+    };
+  }
+
+  async analyze(imagePath: string, output: OutputConfig): Promise<ImageQuality> {
+    // Measure the photo upright, as preprocessing will turn it: ffprobe
+    // reports the stored frame, which EXIF may say is on its side
+    const orientation = await readExifOrientation(imagePath);
+    const stored = await this.probeDimensions(imagePath);
+    const sideways = orientation >= 5;
+    const width = sideways ? stored.height : stored.width;
+    const height = sideways ? stored.width : stored.height;
+    const pixels = await this.readGrayscale(imagePath, ORIENTATION_FILTERS[orientation] || []);
+    const analysisWidth = this.options.analysisWidth;
+    const analysisHeight = Math.floor(pixels.length / analysisWidth);
+    if (analysisHeight < 3) {
+      throw new Error('Image too small to analyze');
+    }
+
+    const framing = this.measureFraming(width, height, output);
+    const laplacianVariance = this.measureLaplacianVariance(pixels, analysisWidth, analysisHeight);
+    const exposure = this.measureExposure(pixels);
+    const verticals = this.measureVerticals(pixels, analysisWidth, analysisHeight);
+
+    const quality: Omit<ImageQuality, 'score' | 'issues'> = {
+      width,
+      height,
+      ...framing,
+      sharpness: Math.min(1, laplacianVariance / this.options.sharpVariance),
+      ...exposure,
+      ...verticals
+    };
+
+    return {
+      ...quality,
+      score: this.score(quality),
+      issues: this.findIssues(imagePath, quality, laplacianVariance, output)
+    };
+  }
+
+  // Enlargement and crop needed to cover the output frame
+  private measureFraming(
+    width: number,
+    height: number,
+    output: OutputConfig
+  ): { upscaleFactor: number; croppedFraction: number } {
+    const target = getExportDimensions(output.aspect, output.resolution);
+    const imageAspect = width / height;
+    const targetAspect = target.width / target.height;
+
+    const upscaleFactor = imageAspect > targetAspect
+      ? target.height / height
+      : target.width / width;
+    const croppedFraction = 1 - Math.min(imageAspect, targetAspect) / Math.max(imageAspect, targetAspect);
+
+    return { upscaleFactor, croppedFraction };
+  }
+
+  private measureLaplacianVariance(pixels: Buffer, width: number, height: number): number {
+    let sum = 0;
+    let sumSquares = 0;
+    let count = 0;
+
+    for (let y = 1; y < height - 1; y++) {
+      for (let x = 1; x < width - 1; x++) {
+        const i = y * width + x;
+        const laplacian = pixels[i - 1] + pixels[i + 1] + pixels[i - width] + pixels[i + width] - 4 * pixels[i];
+        sum += laplacian;
+        sumSquares += laplacian * laplacian;
+        count++;
+      }
+    }
+
+    const mean = sum / count;
+    return sumSquares / count - mean * mean;
+  }
+
+  private measureExposure(pixels: Buffer): { brightness: number; clippedHighlights: number; clippedShadows: number } {
+    let total = 0;
+    let highlights = 0;
+    let shadows = 0;
+
+    for (const value of pixels) {
+      total += value;
+      if (value >= 250) highlights++;
+      if (value <= 5) shadows++;
+    }
+
+    return {
+      brightness: total / pixels.length / 255,
+      clippedHighlights: highlights / pixels.length,
+      clippedShadows: shadows / pixels.length
+    };
+  }
+
+  // Lean of near-vertical edges on each half of the frame. Both halves leaning
+  // the same way is camera roll; leaning toward each other is keystoning.
+  // Positive leans are toward the right going up.
+  private measureVerticals(
+    pixels: Buffer,
+    width: number,
+    height: number
+  ): { tiltDegrees: number; convergingVerticalsDegrees: number } {
+    // Summed gradients per half: the total over an edge points along its normal
+    // even where the line is stair-stepped by the pixel grid
+    const halves = [{ across: 0, along: 0 }, { across: 0, along: 0 }];
+    const maxRatio = Math.tan((VERTICAL_WINDOW_DEGREES * Math.PI) / 180);
+
+    for (let y = 1; y < height - 1; y++) {
+      for (let x = 1; x < width - 1; x++) {
+        const i = y * width + x;
+        // Sobel
+        const gx = pixels[i - width + 1] + 2 * pixels[i + 1] + pixels[i + width + 1] -
+          pixels[i - width - 1] - 2 * pixels[i - 1] - pixels[i + width - 1];
+        const gy = pixels[i + width - 1] + 2 * pixels[i + width] + pixels[i + width + 1] -
+          pixels[i - width - 1] - 2 * pixels[i - width] - pixels[i - width + 1];
+
+        // A vertical line has a mostly horizontal gradient
+        if (Math.abs(gx) < 120 || Math.abs(gy) > Math.abs(gx) * maxRatio) {
+          continue;
+        }
+        const half = halves[x < width / 2 ? 0 : 1];
+        half.across += Math.abs(gx);
+        half.along += Math.sign(gx) * gy;
+      }
+    }
+
+    // Too few vertical edges means no evidence either way
+    const lean = ({ across, along }: { across: number; along: number }): number =>
+      across < 120 * height ? 0 : (Math.atan(along / across) * 180) / Math.PI;
+
+    const left = lean(halves[0]);
+    const right = lean(halves[1]);
+    return {
+      tiltDegrees: (left + right) / 2,
+      convergingVerticalsDegrees: (left - right) / 2
+    };
+  }
+
+  private score(quality: Omit<ImageQuality, 'score' | 'issues'>): number {
+    const sharpness = Math.max(0.1, quality.sharpness);
+    const exposure = Math.max(0, 1 - 2 * (quality.clippedHighlights + quality.clippedShadows));
+    const resolution = Math.min(1, 1 / quality.upscaleFactor);
+    const lean = Math.max(Math.abs(quality.tiltDegrees), Math.abs(quality.convergingVerticalsDegrees));
+    const level = Math.max(0.3, 1 - lean / 10);
+    const framing = 1 - quality.croppedFraction / 2;
+
+    return Math.round(sharpness * exposure * resolution * level * framing * 1000) / 1000;
+  }
+
+  private findIssues(
+    imagePath: string,
+    quality: Omit<ImageQuality, 'score' | 'issues'>,
+    laplacianVariance: number,
+    output: OutputConfig
+  ): ImageQualityIssue[] {
+    const issues: ImageQualityIssue[] = [];
+    const add = (check: ImageQualityIssue['check'], message: string) =>
+      issues.push({ path: imagePath, check, message });
+    const percent = (value: number) => `${Math.round(value * 100)}%`;
+
+    if (quality.upscaleFactor > this.options.maxUpscale) {
+      add('resolution',
+        `${quality.width}x${quality.height} has to be enlarged ${quality.upscaleFactor.toFixed(1)}x for ${output.resolution} output`);
+    }
+    if (quality.croppedFraction > this.options.maxCroppedFraction) {
+      const orientation = quality.width >= quality.height ? 'landscape' : 'portrait';
+      add('aspect',
+        `${orientation} photo loses ${percent(quality.croppedFraction)} of the frame to the ${output.aspect} crop`);
+    }
+    if (laplacianVariance < this.options.blurVariance) {
+      add('blur', `looks soft or blurry (sharpness ${percent(quality.sharpness)})`);
+    }
+    if (quality.clippedHighlights > this.options.maxClippedHighlights) {
+      add('exposure', `${percent(quality.clippedHighlights)} of the frame is blown out`);
+    }
+    if (quality.clippedShadows > this.options.maxClippedShadows) {
+      add('exposure', `${percent(quality.clippedShadows)} of the frame is crushed to black`);
+    }
+    if (Math.abs(quality.tiltDegrees) > this.options.maxTiltDegrees) {
+      add('tilt', `is tilted ${Math.abs(quality.tiltDegrees).toFixed(1)}° ${quality.tiltDegrees > 0 ? 'clockwise' : 'counterclockwise'}`);
+    }
+    if (Math.abs(quality.convergingVerticalsDegrees) > this.options.maxTiltDegrees) {
+      add('tilt', `has converging verticals (${Math.abs(quality.convergingVerticalsDegrees).toFixed(1)}°); ` +
+        `the camera was pointed ${quality.convergingVerticalsDegrees > 0 ? 'up' : 'down'}`);
+    }
+
+    return issues;
+  }
+
+  private probeDimensions(imagePath: string): Promise<{ width: number; height: number }> {
+    return new Promise((resolve, reject) => {
+      ffmpeg.ffprobe(imagePath, (error, metadata) => {
+        if (error) {
+          reject(error);
+          return;
+        }
+
+        const stream = metadata.streams.find(s => s.codec_type === 'video');
+        if (!stream?.width || !stream?.height) {
+          reject(new Error('No image dimensions found'));
+          return;
+        }
+        resolve({ width: stream.width, height: stream.height });
+      });
+    });
+  }
+
+  private async readGrayscale(imagePath: string, orientationFilters: string[]): Promise<Buffer> {
+    const rawPath = path.join(
+      this.context.tmpDir,
+      `quality_${Date.now()}_${Math.random().toString(36).slice(2, 8)}.gray`
+    );
+
+    try {
+      await fs.promises.mkdir(this.context.tmpDir, { recursive: true });
+      await new Promise<void>((resolve, reject) => {
+        ffmpeg(imagePath)
+          .inputOptions(['-noautorotate'])
+          .videoFilters([...orientationFilters, `scale=${this.options.analysisWidth}:-2`])
+          .outputOptions(['-frames:v 1', '-f rawvideo', '-pix_fmt gray'])
+          .on('end', () => resolve())
+          .on('error', (error) => reject(error))
+          .save(rawPath);
+      });
+
+      return await fs.promises.readFile(rawPath);
+    } finally {
+      await fs.promises.rm(rawPath, { force: true });
+    }
+  }
+}
@@ -1,20 +1,55 @@
 import fs from 'fs';
 import path from 'path';
 import exifr from 'exifr';
-import { ImageInput, PipelineContext } from '../types.js';
+import { DuplicateCluster, ImageInput, ImageQualityIssue, PipelineContext, RoomClassifier, RoomPrediction } from '../types.js';
+import { ImageConverter, IMAGE_EXTENSIONS, isSupportedImage } from './image-formats.js';
+import { ImageQualityAnalyzer } from './image-quality.js';
+import { orderImages } from './ordering.js';
+import { PerceptualHasher } from './perceptual-hash.js';
+import { matchRoomType, normalizeRoom, parseRoom } from './room-types.js';
+import { HeuristicRoomClassifier } from './room-classifier.js';
 
 export interface IngestResult {
   images: ImageInput[];
   totalImages: number;
   roomDistribution: Record<string, number>;
   warnings: string[];
+  // Every quality problem found, per image; each is also in warnings
+  qualityIssues: ImageQualityIssue[];
+  // Near-duplicate shots left out of the tour
+  duplicates: DuplicateCluster[];
+}
+
+export interface IngestOptions {
+  // Defaults to the built-in color/texture heuristics
+  classifier?: RoomClassifier;
+  // Predictions below this are only used when the filename says nothing
+  minRoomConfidence?: number;
+  // Resolution, sharpness, exposure, tilt and aspect checks per image
+  analyzeQuality?: boolean;
+  // Keep only the best shot of each group of near-identical photos
+  cullDuplicates?: boolean;
+  // Perceptual hashes at most this many bits apart (of 64) are near-duplicates
+  duplicateThreshold?: number;
 }
 
 export class ImageIngestor {
   private context: PipelineContext;
+  private classifier: RoomClassifier;
+  private minRoomConfidence: number;
+  private qualityAnalyzer?: ImageQualityAnalyzer;
+  private cullDuplicates: boolean;
+  private duplicateThreshold: number;
   
-  constructor(context: PipelineContext) {
+  constructor(context: PipelineContext, options: IngestOptions = {}) {
     this.context = context;
+    this.classifier = options.classifier ?? new HeuristicRoomClassifier(context);
+    this.minRoomConfidence = options.minRoomConfidence ?? 0.4;
+    if (options.analyzeQuality ?? true) {
+      this.qualityAnalyzer = new ImageQualityAnalyzer(context);
+    }
+    this.cullDuplicates = options.cullDuplicates ?? true;
+    this.duplicateThreshold = options.duplicateThreshold ?? 10;
   }
 
   async ingestImages(imagePaths: string[] | ImageInput[]): Promise<IngestResult> {
@@ -26,7 +61,8 @@ export class ImageIngestor {
     );
 
     const warnings: string[] = [];
-    const processedImages: ImageInput[] = [];
+    const qualityIssues: ImageQualityIssue[] = [];
+    let processedImages: ImageInput[] = [];
 
     for (let i = 0; i < imageInputs.length; i++) {
       const imageInput = imageInputs[i];
@@ -34,24 +70,30 @@ export class ImageIngestor {
         `Processing ${path.basename(imageInput.path)}`);
 
       try {
-        const processed = await this.processImage(imageInput);
+        const processed = await this.processImage(imageInput, warnings);
         if (processed) {
           processedImages.push(processed);
+          qualityIssues.push(...(processed.quality?.issues || []));
         }
       } catch (error) {
         warnings.push(`Failed to process ${imageInput.path}: ${error}`);
       }
     }
 
-    this.context.onProgress?.('ingest', 85, 'Sorting images by capture time');
+    processedImages = this.numberRoomInstances(processedImages);
 
-    // Sort by capture time
-    processedImages.sort((a, b) => {
-      if (!a.captureTime && !b.captureTime) return 0;
-      if (!a.captureTime) return 1;
-      if (!b.captureTime) return -1;
-      return a.captureTime.getTime() - b.captureTime.getTime();
-    });
+    // The tour order is decided here, once
+    const ordering = this.context.config.ordering ?? 'room-flow';
+    this.context.onProgress?.('ingest', 85, `Ordering images (${ordering})`);
+    processedImages = orderImages(processedImages, ordering, this.context.config.listing?.floorPlan);
+
+    let duplicates: DuplicateCluster[] = [];
+    if (this.cullDuplicates && processedImages.length > 1) {
+      this.context.onProgress?.('ingest', 90, 'Looking for near-duplicate shots');
+      // Keyed by the original file, since converted images carry a tmpDir path
+      const explicitRooms = new Set(imageInputs.filter(input => input.room).map(input => input.sourcePath || input.path));
+      ({ images: processedImages, duplicates } = await this.cullNearDuplicates(processedImages, explicitRooms, warnings));
+    }
 
     this.context.onProgress?.('ingest', 95, 'Validating image collection');
 
@@ -65,19 +107,118 @@ export class ImageIngestor {
       images: processedImages,
       totalImages: processedImages.length,
       roomDistribution: this.calculateRoomDistribution(processedImages),
-      warnings
+      warnings,
+      qualityIssues,
+      duplicates
+    };
+  }
+
+  // Groups shots whose perceptual hashes are within the threshold of each
+  // other (transitively, so a bracket of five collapses into one group) and
+  // keeps the best one. The others stay on it as reference images.
+  private async cullNearDuplicates(
+    images: ImageInput[],
+    explicitRooms: Set<string>,
+    warnings: string[]
+  ): Promise<{ images: ImageInput[]; duplicates: DuplicateCluster[] }> {
+    const hasher = new PerceptualHasher(this.context);
+    const hashes: Array<string | undefined> = [];
+    for (const image of images) {
+      try {
+        hashes.push(await hasher.hash(image.path));
+      } catch (error) {
+        // Unhashable images are kept and never culled
+        hashes.push(undefined);
+        warnings.push(`Could not check ${path.basename(image.path)} for duplicates: ${error}`);
+      }
+    }
+
+    // Union-find over every close pair
+    const parent = images.map((_, i) => i);
+    const find = (i: number): number => parent[i] === i ? i : (parent[i] = find(parent[i]));
+    // Rooms the user set on purpose, per group root. Groups holding different
+    // ones are never merged, even when an unlabeled shot is close to both.
+    const explicit = (image: ImageInput) => explicitRooms.has(image.sourcePath || image.path);
+    const rooms = images.map(image => new Set(explicit(image) && image.room ? [image.room] : []));
+    for (let i = 0; i < images.length; i++) {
+      for (let j = i + 1; j < images.length; j++) {
+        const [a, b] = [hashes[i], hashes[j]];
+        if (!a || !b || PerceptualHasher.distance(a, b) > this.duplicateThreshold) {
+          continue;
+        }
+        const [rootI, rootJ] = [find(i), find(j)];
+        const merged = new Set([...rooms[rootI], ...rooms[rootJ]]);
+        if (rootI === rootJ || merged.size > 1) {
+          continue;
+        }
+        parent[rootJ] = rootI;
+        rooms[rootI] = merged;
+      }
+    }
+
+    const groups = new Map<number, number[]>();
+    images.forEach((_, i) => {
+      const root = find(i);
+      groups.set(root, [...(groups.get(root) || []), i]);
+    });
+
+    const culledIndexes = new Set<number>();
+    const duplicates: DuplicateCluster[] = [];
+    const kept = new Map<number, ImageInput>();
+    for (const members of groups.values()) {
+      if (members.length === 1) {
+        continue;
+      }
+
+      const best = members.reduce((a, b) => this.isBetterShot(images[b], images[a]) ? b : a);
+      const others = members.filter(i => i !== best);
+      others.forEach(i => culledIndexes.add(i));
+      kept.set(best, {
+        ...images[best],
+        referenceImages: [...(images[best].referenceImages || []), ...others.map(i => images[i].path)]
+      });
+
+      const cluster = {
+        kept: images[best].path,
+        culled: others.map(i => images[i].path),
+        maxDistance: Math.max(...others.map(i => PerceptualHasher.distance(hashes[best]!, hashes[i]!)))
+      };
+      duplicates.push(cluster);
+      warnings.push(
+        `Kept ${path.basename(cluster.kept)} and culled ${cluster.culled.length} near-duplicate` +
+        `${cluster.culled.length === 1 ? '' : 's'}: ${cluster.culled.map(p => path.basename(p)).join(', ')}`
+      );
+    }
+
+    return {
+      images: images
+        .map((image, i) => kept.get(i) || image)
+        .filter((_, i) => !culledIndexes.has(i)),
+      duplicates
     };
   }
 
-  private async processImage(imageInput: ImageInput): Promise<ImageInput | null> {
+  // Higher quality score, then more pixels, then the larger file
+  private isBetterShot(a: ImageInput, b: ImageInput): boolean {
+    const score = (image: ImageInput) => image.quality?.score ?? 0;
+    if (score(a) !== score(b)) {
+      return score(a) > score(b);
+    }
+    const pixels = (image: ImageInput) => (image.quality?.width ?? 0) * (image.quality?.height ?? 0);
+    if (pixels(a) !== pixels(b)) {
+      return pixels(a) > pixels(b);
+    }
+    return fs.statSync(a.path).size > fs.statSync(b.path).size;
+  }
+
+  private async processImage(imageInput: ImageInput, warnings: string[]): Promise<ImageInput | null> {
     // Verify file exists
     if (!fs.existsSync(imageInput.path)) {
       throw new Error('File does not exist');
     }
 
     // Verify file type
-    const ext = path.extname(imageInput.path).toLowerCase();
-    if (!['.jpg', '.jpeg', '.png', '.webp'].includes(ext)) {
+    if (!isSupportedImage(imageInput.path)) {
       throw new Error('Unsupported file format');
     }
 
@@ -101,37 +242,79 @@ export class ImageIngestor {
       captureTime = stats.mtime;
     }
 
-    // Infer room if not provided
-    const room = imageInput.room || this.inferRoom(imageInput.path);
-
-    return {
+    const processed: ImageInput = {
       ...imageInput,
-      captureTime: captureTime || stats.mtime,
-      room
+      captureTime: captureTime || stats.mtime
     };
+
+    // HEIC, AVIF, TIFF and RAW become JPEGs; capture time above came from the original
+    const converter = new ImageConverter(this.context);
+    if (converter.needsConversion(imageInput.path)) {
+      processed.path = await converter.convert(imageInput.path);
+      processed.sourcePath = imageInput.path;
+    }
+    if (imageInput.room) {
+      processed.room = normalizeRoom(imageInput.room);
+    } else {
+      Object.assign(processed, await this.classifyRoom(processed.path, warnings));
+    }
+
+    if (this.qualityAnalyzer) {
+      try {
+        processed.quality = await this.qualityAnalyzer.analyze(processed.path, this.context.config.output);
+        processed.quality.issues.forEach(issue => warnings.push(`${path.basename(issue.path)} ${issue.message}`));
+      } catch (error) {
+        warnings.push(`Could not analyze quality of ${path.basename(imageInput.path)}: ${error}`);
+      }
+    }
+
+    return processed;
+  }
+
+  // Content first, then filename keywords, then photo numbering. Anything
+  // that isn't a confident prediction is flagged so the room can be set.
+  private async classifyRoom(
+    imagePath: string,
+    warnings: string[]
+  ): Promise<{ room: string; roomConfidence?: number }> {
+    const name = path.basename(imagePath);
+
+    let prediction: RoomPrediction | null = null;
+    try {
+      prediction = await this.classifier.classify(imagePath);
+    } catch (error) {
+      warnings.push(`Room classifier failed on ${name}: ${error}`);
+    }
+
+    if (prediction && prediction.confidence >= this.minRoomConfidence) {
+      return { room: prediction.room, roomConfidence: prediction.confidence };
+    }
+
+    const keywordRoom = this.matchRoomKeyword(imagePath);
+    const fallback = keywordRoom
+      ? { room: keywordRoom, source: 'filename' }
+      : prediction
+        ? { room: prediction.room, source: 'low-confidence prediction' }
+        : { room: this.inferRoomFromSequence(imagePath), source: 'photo order' };
+
+    const predicted = prediction
+      ? `looks like ${prediction.room} (${Math.round(prediction.confidence * 100)}% confident)`
+      : 'could not be classified';
+    warnings.push(`${name} ${predicted}; using "${fallback.room}" from ${fallback.source}. Set its room to be sure.`);
+
+    return { room: fallback.room, roomConfidence: prediction?.confidence };
   }
 
-  private inferRoom(imagePath: string): string {
+  private matchRoomKeyword(imagePath: string): string | undefined {
     const filename = path.basename(imagePath).toLowerCase();
     const dir = path.dirname(imagePath).toLowerCase();
     const fullPath = `${dir}/${filename}`;
 
-    // Room inference rules based on filename/path patterns
-    const roomPatterns = [
-      { pattern: /(exterior|front|facade|curb|outside)/, room: 'exterior' },
-      { pattern: /(entry|entryway|foyer|entrance|door)/, room: 'entry' },
-      { pattern: /(living|family|great.room|lounge)/, room: 'living' },
-      { pattern: /(kitchen|cook|dining)/, room: 'kitchen' },
-      { pattern: /(master|bedroom|bed)/, room: 'bedroom' },
-      { pattern: /(bathroom|bath|powder|ensuite)/, room: 'bathroom' },
-      { pattern: /(backyard|back.yard|patio|deck|garden|yard)/, room: 'backyard' }
-    ];
-
-    for (const { pattern, room } of roomPatterns) {
-      if (pattern.test(fullPath)) {
-        return room;
-      }
-    }
+    return matchRoomType(fullPath);
+  }
+
+  private inferRoomFromSequence(imagePath: string): string {
+    const filename = path.basename(imagePath).toLowerCase();
 
     // Enhanced sequence-based inference for numbered files like "7e5f5_1.jpg"
     const sequenceMatch = filename.match(/_(\d+)\.jpg$/);
@@ -162,6 +345,19 @@ export class ImageIngestor {
     return 'backyard';
   }
 
+  // Once any room of a kind is numbered ("bedroom-2"), the unnumbered
+  // photos of that kind are the first one
+  private numberRoomInstances(images: ImageInput[]): ImageInput[] {
+    const numbered = new Set(images.flatMap(image => {
+      const room = image.room ? parseRoom(image.room) : undefined;
+      return room?.instance !== undefined ? [room.name] : [];
+    }));
+
+    return images.map(image => image.room && numbered.has(image.room)
+      ? { ...image, room: `${image.room}-1` }
+      : image);
+  }
+
   private validateImageCollection(images: ImageInput[]): { warnings: string[] } {
     const warnings: string[] = [];
 
@@ -173,8 +369,12 @@ export class ImageIngestor {
       warnings.push(`${images.length} images provided. Maximum 40 recommended to avoid excessively long tours.`);
     }
 
-    // Check room distribution
-    const roomCounts = this.calculateRoomDistribution(images);
+    // Check room distribution; every bedroom counts toward 'bedroom'
+    const roomCounts: Record<string, number> = {};
+    for (const image of images) {
+      const type = image.room ? parseRoom(image.room).type : 'unknown';
+      roomCounts[type] = (roomCounts[type] || 0) + 1;
+    }
     
     if (!roomCounts.exterior || roomCounts.exterior === 0) {
       warnings.push('No exterior images found. Consider adding exterior shots for better tour flow.');
@@ -188,8 +388,11 @@ export class ImageIngestor {
       warnings.push('No kitchen images found. Kitchen photos are important for home tours.');
     }
 
-    // Check for image quality indicators
+    // Analyzed images were flagged one by one; file size is all there is for the rest
     const lowQualityImages = images.filter(img => {
+      if (img.quality) {
+        return false;
+      }
       const stats = fs.statSync(img.path);
       return stats.size < 100000; // Less than 100KB might be low quality
     });
@@ -219,7 +422,6 @@ export class ImageIngestor {
   }
 
   private async findImageFiles(directoryPath: string, recursive: boolean): Promise<string[]> {
-    const imageExtensions = ['.jpg', '.jpeg', '.png', '.webp'];
     const imageFiles: string[] = [];
 
     const processDirectory = async (dir: string): Promise<void> => {
@@ -232,7 +434,7 @@ export class ImageIngestor {
           await processDirectory(fullPath);
         } else if (entry.isFile()) {
           const ext = path.extname(entry.name).toLowerCase();
-          if (imageExtensions.includes(ext)) {
+          if (IMAGE_EXTENSIONS.includes(ext)) {
             imageFiles.push(fullPath);
           }
         }
@@ -2,7 +2,8 @@ import ffmpeg from 'fluent-ffmpeg';
 import ffmpegPath from 'ffmpeg-static';
 import path from 'path';
 import fs from 'fs';
-import { KenBurnsParams, PipelineContext } from '../types.js';
+import { KenBurnsMotion, KenBurnsParams, PipelineContext } from '../types.js';
+import { getRoomType, matchRoomType } from './room-types.js';
 
 // Set ffmpeg path - disabled to use system FFmpeg due to concat filter bug in ffmpeg-static
 // ffmpeg.setFfmpegPath(ffmpegPath!);
@@ -15,10 +16,13 @@ export interface KenBurnsOptions {
 }
 
 export class KenBurnsGenerator {
-  private context: PipelineContext;
+  private static readonly OVERSAMPLE = 2;
+
+  // Only progress reporting is needed, so it also runs outside a pipeline
+  private context: Pick<PipelineContext, 'onProgress'>;
   private options: Required<KenBurnsOptions>;
 
-  constructor(context: PipelineContext, options: KenBurnsOptions = {}) {
+  constructor(context: Pick<PipelineContext, 'onProgress'>, options: KenBurnsOptions = {}) {
     this.context = context;
     this.options = {
       fps: options.fps ?? 24,
@@ -48,6 +52,7 @@ export class KenBurnsGenerator {
       ffmpeg(params.imagePath)
         .inputOptions([
           '-loop 1',
+          `-framerate ${this.options.fps}`,
           `-t ${params.duration}`
         ])
         .outputOptions([
@@ -93,21 +98,33 @@ export class KenBurnsGenerator {
     }
 
     // Calculate zoom parameters
-    const { startZoom, endZoom } = this.calculateZoom(zoomDirection);
+    const { startZoom, endZoom } = this.calculateZoom(zoomDirection, panDirection !== 'none');
     
     // Calculate pan parameters
     const { startX, startY, endX, endY } = this.calculatePan(panDirection, width, height, startZoom, endZoom);
 
-    // Use the same approach as our working debug script
-    let filter = `scale=${width}:${height}:force_original_aspect_ratio=decrease,`;
-    filter += `pad=${width}:${height}:(ow-iw)/2:(oh-ih)/2`;
+    const totalFrames = Math.max(1, Math.round(duration * fps));
+    const zoomExpr = this.buildPositionExpression(String(startZoom), String(endZoom), totalFrames);
+    const xExpr = this.buildPositionExpression(startX, endX, totalFrames);
+    const yExpr = this.buildPositionExpression(startY, endY, totalFrames);
+
+    // Cover-crop to an oversampled canvas so zoompan's integer x/y rounding
+    // doesn't make the motion jitter, then render the move at output size
+    const canvasWidth = width * KenBurnsGenerator.OVERSAMPLE;
+    const canvasHeight = height * KenBurnsGenerator.OVERSAMPLE;
+
+    let filter = `scale=${canvasWidth}:${canvasHeight}:force_original_aspect_ratio=increase,`;
+    filter += `crop=${canvasWidth}:${canvasHeight},`;
+    filter += `zoompan=z='${zoomExpr}':x='${xExpr}':y='${yExpr}':d=1:s=${width}x${height}:fps=${fps},`;
+    filter += `setsar=1`;
 
     return filter;
   }
 
-  private calculateZoom(direction: 'in' | 'out'): { startZoom: number; endZoom: number } {
-    const minZoom = 1.0;
-    const maxZoom = 1.15; // Subtle zoom to avoid distortion
+  private calculateZoom(direction: 'in' | 'out', panning: boolean): { startZoom: number; endZoom: number } {
+    // Panning needs headroom at both ends: at zoom 1.0 there is nothing to pan across
+    const minZoom = panning ? 1.1 : 1.0;
+    const maxZoom = panning ? 1.25 : 1.15; // Subtle zoom to avoid distortion
 
     if (direction === 'in') {
       return { startZoom: minZoom, endZoom: maxZoom };
@@ -176,17 +193,18 @@ export class KenBurnsGenerator {
   private buildPositionExpression(
     start: string, 
     end: string, 
-    totalFrames: number, 
-    dimension: number,
-    zoomVar: string
+    totalFrames: number
   ): string {
-    // If start and end are the same (no pan), just return the expression
+    // If start and end are the same (no movement), just return the expression
     if (start === end) {
       return start;
     }
 
-    // Create smooth transition expression with easing
-    return `if(lte(on,${totalFrames/2}),(${start})+((${end})-(${start}))*pow(on/${totalFrames/2},1.2),(${end}))`;
+    // Smoothstep ease-in-out over the whole clip: p = on/(N-1), e = p*p*(3-2p)
+    const progress = `min(on/${Math.max(1, totalFrames - 1)},1)`;
+    const eased = `(${progress})*(${progress})*(3-2*(${progress}))`;
+
+    return `(${start})+((${end})-(${start}))*${eased}`;
   }
 
   // Batch generate multiple Ken Burns effects
@@ -257,20 +275,10 @@ export class KenBurnsGenerator {
     const filename = path.basename(imagePath).toLowerCase();
     
     // Heuristics based on room type and common photo compositions
-    if (filename.includes('exterior') || filename.includes('front')) {
-      return { recommendedZoom: 'in', recommendedPan: 'none', confidence: 0.8 };
-    }
-    
-    if (filename.includes('kitchen') || filename.includes('living')) {
-      return { recommendedZoom: 'out', recommendedPan: 'right', confidence: 0.7 };
-    }
-    
-    if (filename.includes('bedroom') || filename.includes('bathroom')) {
-      return { recommendedZoom: 'in', recommendedPan: 'up', confidence: 0.6 };
-    }
-    
-    if (filename.includes('backyard') || filename.includes('yard')) {
-      return { recommendedZoom: 'out', recommendedPan: 'left', confidence: 0.7 };
+    const room = matchRoomType(filename);
+    if (room) {
+      const { zoom, pan } = getRoomType(room).kenBurns;
+      return { recommendedZoom: zoom, recommendedPan: pan, confidence: 0.7 };
     }
 
     // Default fallback
@@ -284,19 +292,10 @@ export class KenBurnsGenerator {
     duration: number,
     width: number,
     height: number,
-    room: string
+    room: string,
+    motion?: KenBurnsMotion
   ): Promise<string> {
-    const roomSettings: Record<string, { zoom: 'in' | 'out'; pan: 'left' | 'right' | 'up' | 'down' | 'none' }> = {
-      exterior: { zoom: 'in', pan: 'none' },
-      entry: { zoom: 'in', pan: 'up' },
-      living: { zoom: 'out', pan: 'right' },
-      kitchen: { zoom: 'in', pan: 'left' },
-      bedroom: { zoom: 'out', pan: 'none' },
-      bathroom: { zoom: 'in', pan: 'right' },
-      backyard: { zoom: 'out', pan: 'left' }
-    };
-
-    const settings = roomSettings[room] || { zoom: 'in', pan: 'none' };
+    const settings = motion || getRoomType(room).kenBurns;
 
     return this.generateKenBurns({
       imagePath,
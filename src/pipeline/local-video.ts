@@ -0,0 +1,84 @@
+import path from 'path';
+import fs from 'fs';
+import { fileURLToPath, pathToFileURL } from 'url';
+import { VeoParams, VeoResult, PipelineContext, VideoGenerator } from '../types.js';
+import { KenBurnsGenerator } from './kenburns.js';
+
+export interface LocalVideoOptions {
+  fps?: number;
+}
+
+// Offline stand-in for Veo: renders a synthetic camera move over the still
+// with ffmpeg so the whole pipeline can run without a Google project
+export class LocalVideoGenerator implements VideoGenerator {
+  private context: PipelineContext;
+  private kenBurns: KenBurnsGenerator;
+  private clipCount = 0;
+
+  constructor(context: PipelineContext, options: LocalVideoOptions = {}) {
+    this.context = context;
+    this.kenBurns = new KenBurnsGenerator(context, { fps: options.fps ?? 24, preset: 'veryfast' });
+  }
+
+  async uploadImage(localPath: string, remotePath: string, bucketName?: string): Promise<string> {
+    // Nothing to upload, the "URI" is the local file itself
+    if (!fs.existsSync(localPath)) {
+      throw new Error(`Input image not found: ${localPath}`);
+    }
+    return pathToFileURL(path.resolve(localPath)).href;
+  }
+
+  async generateClip(params: VeoParams): Promise<VeoResult> {
+    this.context.onProgress?.('veo', 0, `Synthesizing local clip for ${params.imageGcsUri}`);
+
+    if (!params.imageGcsUri.startsWith('file://')) {
+      throw new Error(`Local video backend can only read file:// images, got ${params.imageGcsUri}`);
+    }
+
+    const imagePath = fileURLToPath(params.imageGcsUri);
+    const outputPath = path.join(
+      this.context.tmpDir,
+      `veo_local_${Date.now()}_${Math.random().toString(36).substr(2, 9)}.mp4`
+    );
+    const { width, height } = this.getDimensions(params.aspect, params.resolution);
+
+    // Cycle through camera moves so consecutive clips don't all look alike
+    const moves: Array<{ zoom: 'in' | 'out'; pan: 'left' | 'right' | 'up' | 'down' | 'none' }> = [
+      { zoom: 'in', pan: 'right' },
+      { zoom: 'in', pan: 'none' },
+      { zoom: 'out', pan: 'left' },
+      { zoom: 'in', pan: 'up' }
+    ];
+    const move = moves[(params.seed ?? this.clipCount++) % moves.length];
+
+    await this.kenBurns.generateKenBurns({
+      imagePath,
+      outputPath,
+      duration: params.duration,
+      width,
+      height,
+      zoomDirection: move.zoom,
+      panDirection: move.pan
+    });
+
+    this.context.onProgress?.('veo', 100, 'Local clip generation complete');
+
+    return {
+      videoPath: outputPath,
+      duration: params.duration
+    };
+  }
+
+  private getDimensions(
+    aspect: '16:9' | '9:16',
+    resolution: '720p' | '1080p' = '720p'
+  ): { width: number; height: number } {
+    const landscape = resolution === '1080p'
+      ? { width: 1920, height: 1080 }
+      : { width: 1280, height: 720 };
+
+    return aspect === '9:16'
+      ? { width: landscape.height, height: landscape.width }
+      : landscape;
+  }
+}
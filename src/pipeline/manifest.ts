@@ -0,0 +1,223 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { AudioTrack, ExportResult, HomeTourConfig, HomeTourResult, ImageInput, ScenePlan, VideoSegment } from '../types.js';
+import { IngestResult } from './ingest.js';
+import { CaptionCue } from './captions.js';
+
+export type PipelinePhase = 'ingest' | 'preprocess' | 'planning' | 'segments' | 'audio' | 'assembly' | 'branding' | 'exports';
+
+export interface SegmentRecord {
+  sceneId: string;
+  type: 'veo' | 'kenburns';
+  status: 'pending' | 'running' | 'completed' | 'failed';
+  // Veo long-running operation, kept so a resumed run can poll it instead of paying again
+  operationName?: string;
+  segment?: VideoSegment;
+  error?: string;
+  updatedAt: string;
+}
+
+export interface ManifestData {
+  version: number;
+  configHash: string;
+  status: 'running' | 'failed' | 'completed';
+  createdAt: string;
+  updatedAt: string;
+  completedPhases: PipelinePhase[];
+  ingest?: IngestResult;
+  // Ingested images with paths pointing at their preprocessed copies
+  preprocessed?: ImageInput[];
+  plan?: ScenePlan;
+  segments: SegmentRecord[];
+  audioTracks?: AudioTrack[];
+  captionCues?: CaptionCue[];
+  // Soundtrack and assembly of the MLS-compliant cut, when one is requested
+  mlsAudioTracks?: AudioTrack[];
+  mlsCaptionCues?: CaptionCue[];
+  assembledPath?: string;
+  mlsAssembledPath?: string;
+  outputPath?: string;
+  // Preset exports finished so far, so a resumed run only renders the rest
+  exports?: ExportResult[];
+  result?: HomeTourResult;
+  error?: string;
+}
+
+const MANIFEST_VERSION = 1;
+const MANIFEST_FILE = 'manifest.json';
+const RUNS_DIR = 'runs';
+
+// Persisted record of a pipeline run inside tmpDir. Every phase and every
+// segment is checkpointed so a failed run can be resumed where it stopped.
+export class RunManifest {
+  readonly data: ManifestData;
+  private manifestPath: string;
+
+  private constructor(manifestPath: string, data: ManifestData) {
+    this.manifestPath = manifestPath;
+    this.data = data;
+  }
+
+  static create(tmpDir: string, config: HomeTourConfig): RunManifest {
+    const now = new Date().toISOString();
+    const manifest = new RunManifest(path.join(tmpDir, MANIFEST_FILE), {
+      version: MANIFEST_VERSION,
+      configHash: RunManifest.hashConfig(config),
+      status: 'running',
+      createdAt: now,
+      updatedAt: now,
+      completedPhases: [],
+      segments: []
+    });
+    manifest.save();
+    return manifest;
+  }
+
+  static load(tmpDir: string): RunManifest | null {
+    const manifestPath = path.join(tmpDir, MANIFEST_FILE);
+    if (!fs.existsSync(manifestPath)) {
+      return null;
+    }
+
+    const content = fs.readFileSync(manifestPath, 'utf8');
+    const data = JSON.parse(content, (key, value) =>
+      key === 'captureTime' && typeof value === 'string' ? new Date(value) : value
+    ) as ManifestData;
+
+    if (data.version !== MANIFEST_VERSION) {
+      throw new Error(`Unsupported manifest version ${data.version} in ${manifestPath}`);
+    }
+
+    return new RunManifest(manifestPath, data);
+  }
+
+  // Each configuration gets its own run directory under tmpDir, so runs that
+  // share a tmpDir never overwrite each other's manifest or files
+  static runDirectory(tmpDir: string, config: HomeTourConfig): string {
+    return path.join(tmpDir, RUNS_DIR, RunManifest.hashConfig(config).slice(0, 16));
+  }
+
+  // The most recently updated run under tmpDir, for callers without its config
+  static loadLatest(tmpDir: string): RunManifest | null {
+    const runsDir = path.join(tmpDir, RUNS_DIR);
+    if (!fs.existsSync(runsDir)) {
+      return null;
+    }
+
+    const manifests = fs.readdirSync(runsDir)
+      .map(name => RunManifest.load(path.join(runsDir, name)))
+      .filter((manifest): manifest is RunManifest => manifest !== null);
+    manifests.sort((a, b) => b.data.updatedAt.localeCompare(a.data.updatedAt));
+    return manifests[0] ?? null;
+  }
+
+  // Resume the run recorded in tmpDir, or start a fresh one
+  static open(tmpDir: string, config: HomeTourConfig, resume: boolean): RunManifest {
+    const existing = resume ? RunManifest.load(tmpDir) : null;
+    if (!existing) {
+      return RunManifest.create(tmpDir, config);
+    }
+
+    if (existing.data.configHash !== RunManifest.hashConfig(config)) {
+      throw new Error(
+        `Cannot resume: the configuration changed since the run in ${tmpDir} started. ` +
+        'Start a fresh run (without resume) or use a different tmpDir.'
+      );
+    }
+
+    existing.data.status = 'running';
+    existing.data.error = undefined;
+    existing.save();
+    return existing;
+  }
+
+  isPhaseComplete(phase: PipelinePhase): boolean {
+    return this.data.completedPhases.includes(phase);
+  }
+
+  completePhase(phase: PipelinePhase, patch: Partial<ManifestData> = {}): void {
+    Object.assign(this.data, patch);
+    if (!this.data.completedPhases.includes(phase)) {
+      this.data.completedPhases.push(phase);
+    }
+    this.save();
+  }
+
+  getSegment(sceneId: string): SegmentRecord | undefined {
+    return this.data.segments.find(s => s.sceneId === sceneId);
+  }
+
+  // A completed segment is only reusable if its artifact survived
+  getCompletedSegment(sceneId: string): VideoSegment | undefined {
+    const record = this.getSegment(sceneId);
+    if (record?.status === 'completed' && record.segment && fs.existsSync(record.segment.path)) {
+      return record.segment;
+    }
+    return undefined;
+  }
+
+  updateSegment(sceneId: string, type: 'veo' | 'kenburns', patch: Partial<SegmentRecord>): void {
+    let record = this.getSegment(sceneId);
+    if (!record) {
+      record = { sceneId, type, status: 'pending', updatedAt: '' };
+      this.data.segments.push(record);
+    }
+    Object.assign(record, patch, { updatedAt: new Date().toISOString() });
+    this.save();
+  }
+
+  // An export is only reusable if its file survived
+  getCompletedExport(preset: string): ExportResult | undefined {
+    const record = this.data.exports?.find(e => e.preset === preset);
+    return record && fs.existsSync(record.outputPath) ? record : undefined;
+  }
+
+  recordExport(record: ExportResult): void {
+    this.data.exports = (this.data.exports || []).filter(e => e.preset !== record.preset);
+    this.data.exports.push(record);
+    this.save();
+  }
+
+  markFailed(error: unknown): void {
+    this.data.status = 'failed';
+    this.data.error = error instanceof Error ? error.message : String(error);
+    this.save();
+  }
+
+  markCompleted(result: HomeTourResult): void {
+    this.data.status = 'completed';
+    this.data.result = result;
+    this.save();
+  }
+
+  // Clears the run directory down to the manifest. Rendered clips and audio
+  // stay reusable through the render cache.
+  async removeIntermediates(): Promise<void> {
+    const runDir = path.dirname(this.manifestPath);
+    for (const entry of await fs.promises.readdir(runDir)) {
+      if (entry !== MANIFEST_FILE) {
+        await fs.promises.rm(path.join(runDir, entry), { recursive: true, force: true });
+      }
+    }
+  }
+
+  private save(): void {
+    this.data.updatedAt = new Date().toISOString();
+    fs.mkdirSync(path.dirname(this.manifestPath), { recursive: true });
+
+    // Write then rename so a crash never leaves a half-written manifest
+    const tempPath = `${this.manifestPath}.${process.pid}.tmp`;
+    fs.writeFileSync(tempPath, JSON.stringify(this.data, null, 2));
+    fs.renameSync(tempPath, this.manifestPath);
+  }
+
+  // Only the inputs that shape the output; resume flags and paths to scratch space don't count
+  private static hashConfig(config: HomeTourConfig): string {
+    const { resume, tmpDir, cacheDir, cacheMaxAge, keepIntermediates, ...relevant } = config;
+    // Concurrency changes how fast segments render, not what they look like
+    const { maxConcurrent, ...veo } = relevant.veo;
+    relevant.veo = veo;
+    return crypto.createHash('sha256').update(JSON.stringify(relevant)).digest('hex');
+  }
+}
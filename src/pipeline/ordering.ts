@@ -0,0 +1,62 @@
+import path from 'path';
+import { FloorPlan, ImageInput, ImageOrdering } from '../types.js';
+import { FloorPlanGraph } from './floor-plan.js';
+import { compareRoomFlow } from './room-types.js';
+
+export const IMAGE_ORDERINGS: ImageOrdering[] = ['as-given', 'capture-time', 'room-flow', 'filename-number'];
+
+export function isImageOrdering(value: string): value is ImageOrdering {
+  return (IMAGE_ORDERINGS as string[]).includes(value);
+}
+
+// Puts the images in tour order. This is the only place the order is
+// decided; every later phase keeps the sequence it is given. All sorts are
+// stable, so ties keep the order the images were given in.
+export function orderImages(images: ImageInput[], ordering: ImageOrdering, floorPlan?: FloorPlan): ImageInput[] {
+  switch (ordering) {
+    case 'as-given':
+      return [...images];
+    case 'capture-time':
+      return sortByCaptureTime(images);
+    case 'filename-number':
+      return sortByFilenameNumber(images);
+    case 'room-flow':
+      return sortByRoomFlow(sortByCaptureTime(images), floorPlan);
+  }
+}
+
+function sortByCaptureTime(images: ImageInput[]): ImageInput[] {
+  return [...images].sort((a, b) => {
+    if (!a.captureTime && !b.captureTime) return 0;
+    if (!a.captureTime) return 1;
+    if (!b.captureTime) return -1;
+    return a.captureTime.getTime() - b.captureTime.getTime();
+  });
+}
+
+// By the last number in the original file name ("house_12.jpg" → 12);
+// files without a number keep their places after the numbered ones
+function sortByFilenameNumber(images: ImageInput[]): ImageInput[] {
+  const numberOf = (image: ImageInput): number => {
+    const numbers = path.parse(image.sourcePath || image.path).name.match(/\d+/g);
+    return numbers ? parseInt(numbers[numbers.length - 1], 10) : Infinity;
+  };
+  return [...images].sort((a, b) => {
+    const [aNumber, bNumber] = [numberOf(a), numberOf(b)];
+    return aNumber === bNumber ? 0 : aNumber < bNumber ? -1 : 1;
+  });
+}
+
+// Rooms in the registry's walk-through order (see ROOM_TYPES), rooms of
+// other types just before going back outside. With a floor plan, its
+// walk-through comes first and rooms it doesn't have follow.
+function sortByRoomFlow(images: ImageInput[], floorPlan?: FloorPlan): ImageInput[] {
+  const rooms = [...new Set(images.map(image => image.room || 'other'))];
+  const routed = floorPlan ? new FloorPlanGraph(floorPlan).route(rooms) : [];
+  const flow = [
+    ...routed,
+    ...rooms.filter(room => !routed.includes(room)).sort(compareRoomFlow)
+  ];
+
+  return [...images].sort((a, b) => flow.indexOf(a.room || 'other') - flow.indexOf(b.room || 'other'));
+}
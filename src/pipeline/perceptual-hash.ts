@@ -0,0 +1,74 @@
+import ffmpeg from 'fluent-ffmpeg';
+import ffmpegPath from 'ffmpeg-static';
+import fs from 'fs';
+import path from 'path';
+import { PipelineContext } from '../types.js';
+
+// Set ffmpeg path
+ffmpeg.setFfmpegPath(ffmpegPath!);
+
+// 64-bit difference hash (dHash): one bit per horizontally adjacent pair of
+// a 9x8 grayscale thumbnail. It depends on the direction of brightness
+// changes rather than their level, so bracketed exposures of one shot hash
+// almost alike while different framings of the same room don't.
+export class PerceptualHasher {
+  private context: PipelineContext;
+
+  constructor(context: PipelineContext) {
+    this.context = context;
+  }
+
+  // 16 hex digits
+  async hash(imagePath: string): Promise<string> {
+    const rawPath = path.join(
+      this.context.tmpDir,
+      `dhash_${Date.now()}_${Math.random().toString(36).slice(2, 8)}.gray`
+    );
+
+    try {
+      await fs.promises.mkdir(this.context.tmpDir, { recursive: true });
+      await new Promise<void>((resolve, reject) => {
+        ffmpeg(imagePath)
+          .videoFilters('scale=9:8')
+          .outputOptions(['-frames:v 1', '-f rawvideo', '-pix_fmt gray'])
+          .on('end', () => resolve())
+          .on('error', (error) => reject(error))
+          .save(rawPath);
+      });
+
+      const pixels = await fs.promises.readFile(rawPath);
+      if (pixels.length < 72) {
+        throw new Error('Could not decode thumbnail');
+      }
+      return PerceptualHasher.fromPixels(pixels);
+    } finally {
+      await fs.promises.rm(rawPath, { force: true });
+    }
+  }
+
+  static fromPixels(pixels: Buffer): string {
+    let hex = '';
+    for (let row = 0; row < 8; row++) {
+      let byte = 0;
+      for (let col = 0; col < 8; col++) {
+        const i = row * 9 + col;
+        byte = (byte << 1) | (pixels[i] < pixels[i + 1] ? 1 : 0);
+      }
+      hex += byte.toString(16).padStart(2, '0');
+    }
+    return hex;
+  }
+
+  // Number of differing bits, 0-64
+  static distance(a: string, b: string): number {
+    let bits = 0;
+    for (let i = 0; i < a.length; i += 2) {
+      let xor = parseInt(a.slice(i, i + 2), 16) ^ parseInt(b.slice(i, i + 2), 16);
+      while (xor) {
+        bits += xor & 1;
+        xor >>= 1;
+      }
+    }
+    return bits;
+  }
+}
@@ -0,0 +1,279 @@
+import fs from 'fs';
+import path from 'path';
+import { ImageInput, ListingData, Scene, ScenePlan, ScenePlanFile, ScenePlanFileScene } from '../types.js';
+import { generateSegmentPrompt, narrateScene } from '../prompts/segmentPrompt.js';
+import { getRoomType, roomLowerThird } from './room-types.js';
+import { toVeoDuration } from './veo.js';
+
+// The subset of JSON Schema the plan schema uses
+interface JsonSchema {
+  type?: Array<'object' | 'array' | 'string' | 'number' | 'integer' | 'null'>;
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean;
+  items?: JsonSchema;
+  minItems?: number;
+  minLength?: number;
+  enum?: Array<string | number>;
+  exclusiveMinimum?: number;
+  maximum?: number;
+}
+
+const MOTION_SCHEMA: JsonSchema = {
+  type: ['object'],
+  description: 'Ken Burns zoom and pan',
+  properties: {
+    zoom: { type: ['string'], enum: ['in', 'out'] },
+    pan: { type: ['string'], enum: ['left', 'right', 'up', 'down', 'none'] }
+  },
+  required: ['zoom', 'pan'],
+  additionalProperties: false
+};
+
+// Plan files are checked against this before anything is rendered. It is
+// plain JSON Schema, so editors can use it for completion too.
+export const SCENE_PLAN_SCHEMA: JsonSchema = {
+  type: ['object'],
+  properties: {
+    version: { type: ['integer'], enum: [1] },
+    scenes: {
+      type: ['array'],
+      minItems: 1,
+      items: {
+        type: ['object'],
+        properties: {
+          id: { type: ['string'], minLength: 1 },
+          room: { type: ['string'], minLength: 1 },
+          type: { type: ['string'], enum: ['veo', 'kenburns'] },
+          duration: { type: ['number'], description: 'Seconds; 4, 6 or 8 for Veo', exclusiveMinimum: 0, maximum: 30 },
+          images: {
+            type: ['array'],
+            description: 'The first image is the one rendered; paths are relative to the plan file',
+            minItems: 1,
+            items: { type: ['string'], minLength: 1 }
+          },
+          description: { type: ['string'] },
+          transition: { type: ['string'], enum: ['hallway', 'stairs'] },
+          prompt: { type: ['string'], description: 'Veo prompt', minLength: 1 },
+          motion: MOTION_SCHEMA,
+          lowerThird: { type: ['string', 'null'], description: 'null for no lower third' },
+          narration: { type: ['string'], description: 'The scene\'s voiceover line; empty for silence' }
+        },
+        required: ['id', 'room', 'type', 'duration', 'images'],
+        additionalProperties: false
+      }
+    }
+  },
+  required: ['version', 'scenes'],
+  additionalProperties: false
+};
+
+// Writes out every per-scene choice the renderer would otherwise make, so
+// the file shows what will be rendered and an edit changes only what it
+// touches. A custom voiceover script replaces the per-scene lines, so with
+// one there are no narration lines to write.
+export function toScenePlanFile(plan: ScenePlan, listing?: ListingData, customScript = false): ScenePlanFile {
+  const { scenes } = plan;
+  return {
+    version: 1,
+    scenes: scenes.map((scene, index): ScenePlanFileScene => ({
+      id: scene.id,
+      room: scene.room,
+      type: scene.type,
+      duration: scene.type === 'veo' ? toVeoDuration(scene.duration) : Math.round(scene.duration * 10) / 10,
+      images: scene.images.map(image => path.resolve(image.sourcePath || image.path)),
+      description: scene.description,
+      transition: scene.transition,
+      prompt: scene.type === 'veo'
+        ? scene.prompt ?? generateSegmentPrompt({
+            scene,
+            listing,
+            previousRoom: scenes[index - 1]?.room,
+            nextRoom: scenes[index + 1]?.room,
+            segmentIndex: index,
+            totalSegments: scenes.length
+          })
+        : undefined,
+      motion: scene.type === 'kenburns' ? scene.motion ?? getRoomType(scene.room).kenBurns : undefined,
+      lowerThird: scene.lowerThird !== undefined ? scene.lowerThird : roomLowerThird(scene.room),
+      narration: customScript ? undefined : narrateScene(scene, listing)
+    }))
+  };
+}
+
+// Checks a parsed plan file and throws one error listing every problem
+export function validateScenePlanFile(data: unknown, baseDir: string = process.cwd()): ScenePlanFile {
+  const errors: string[] = [];
+  checkSchema(data, SCENE_PLAN_SCHEMA, 'plan', errors);
+
+  if (errors.length === 0) {
+    const plan = data as ScenePlanFile;
+    const ids = new Set<string>();
+    plan.scenes.forEach((scene, index) => {
+      const at = `plan.scenes[${index}]`;
+      if (ids.has(scene.id)) {
+        errors.push(`${at}.id: "${scene.id}" is used by an earlier scene`);
+      }
+      ids.add(scene.id);
+      if (scene.type === 'veo' && ![4, 6, 8].includes(scene.duration)) {
+        errors.push(`${at}.duration: Veo scenes are 4, 6 or 8 seconds, not ${scene.duration}`);
+      }
+      if (scene.type === 'veo' && scene.motion) {
+        errors.push(`${at}.motion: only Ken Burns scenes have a motion; Veo scenes take a prompt`);
+      }
+      if (scene.type === 'kenburns' && scene.prompt) {
+        errors.push(`${at}.prompt: only Veo scenes have a prompt; Ken Burns scenes take a motion`);
+      }
+      scene.images.forEach((image, imageIndex) => {
+        if (!fs.existsSync(path.resolve(baseDir, image))) {
+          errors.push(`${at}.images[${imageIndex}]: ${image} not found`);
+        }
+      });
+    });
+  }
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid scene plan:\n  ${errors.join('\n  ')}`);
+  }
+  return data as ScenePlanFile;
+}
+
+// Image paths come back absolute, resolved against the plan file's folder
+export async function readScenePlanFile(filePath: string): Promise<ScenePlanFile> {
+  if (!fs.existsSync(filePath)) {
+    throw new Error(`Scene plan not found: ${filePath}`);
+  }
+
+  let data: unknown;
+  try {
+    data = JSON.parse(await fs.promises.readFile(filePath, 'utf8'));
+  } catch (error) {
+    throw new Error(`Scene plan ${filePath} is not valid JSON: ${error instanceof Error ? error.message : error}`);
+  }
+
+  const baseDir = path.dirname(path.resolve(filePath));
+  const plan = validateScenePlanFile(data, baseDir);
+  return {
+    ...plan,
+    scenes: plan.scenes.map(scene => ({ ...scene, images: scene.images.map(image => path.resolve(baseDir, image)) }))
+  };
+}
+
+// Image paths are written relative to the plan file so the folder can move
+export async function writeScenePlanFile(filePath: string, plan: ScenePlanFile): Promise<void> {
+  const baseDir = path.dirname(path.resolve(filePath));
+  const portable: ScenePlanFile = {
+    ...plan,
+    scenes: plan.scenes.map(scene => ({
+      ...scene,
+      images: scene.images.map(image => path.relative(baseDir, path.resolve(image)).split(path.sep).join('/'))
+    }))
+  };
+  await fs.promises.mkdir(baseDir, { recursive: true });
+  await fs.promises.writeFile(filePath, JSON.stringify(portable, null, 2) + '\n');
+}
+
+// What to ingest for a plan: each image once, with the room of the first
+// room scene that shows it (hallway and stair moves borrow their photos)
+export function planImageInputs(plan: ScenePlanFile): ImageInput[] {
+  const inputs = new Map<string, ImageInput>();
+  const rooms = plan.scenes.filter(scene => !scene.transition);
+  const transitions = plan.scenes.filter(scene => scene.transition);
+  for (const scene of [...rooms, ...transitions]) {
+    for (const image of scene.images) {
+      const resolved = path.resolve(image);
+      if (!inputs.has(resolved)) {
+        inputs.set(resolved, { path: resolved, room: scene.room });
+      }
+    }
+  }
+  return [...inputs.values()];
+}
+
+// Scenes exactly as the file has them, pointing at the ingested (and
+// preprocessed) copies of its images
+export function fromScenePlanFile(plan: ScenePlanFile, images: ImageInput[]): ScenePlan {
+  const byOriginal = new Map(images.map(image => [path.resolve(image.sourcePath || image.path), image]));
+
+  const scenes = plan.scenes.map((scene): Scene => ({
+    id: scene.id,
+    room: scene.room,
+    type: scene.type,
+    duration: scene.duration,
+    description: scene.description,
+    transition: scene.transition,
+    prompt: scene.prompt,
+    motion: scene.motion,
+    lowerThird: scene.lowerThird,
+    narration: scene.narration,
+    images: scene.images.map(imagePath => {
+      const image = byOriginal.get(path.resolve(imagePath));
+      if (!image) {
+        throw new Error(`Scene "${scene.id}" uses ${imagePath}, which could not be ingested`);
+      }
+      return image;
+    })
+  }));
+
+  return {
+    scenes,
+    totalDuration: scenes.reduce((sum, scene) => sum + scene.duration, 0),
+    veoSegments: scenes.filter(scene => scene.type === 'veo').length,
+    kenBurnsSegments: scenes.filter(scene => scene.type === 'kenburns').length
+  };
+}
+
+function checkSchema(value: unknown, schema: JsonSchema, at: string, errors: string[]): void {
+  const actual = value === null ? 'null'
+    : Array.isArray(value) ? 'array'
+    : typeof value === 'number' && Number.isInteger(value) ? 'integer'
+    : typeof value;
+  const allowed = schema.type || [];
+  if (allowed.length > 0 && !(allowed as string[]).includes(actual) && !(actual === 'integer' && allowed.includes('number'))) {
+    errors.push(`${at}: expected ${allowed.join(' or ')}, got ${actual}`);
+    return;
+  }
+
+  if (schema.enum && !schema.enum.includes(value as string | number)) {
+    errors.push(`${at}: must be one of ${schema.enum.map(option => JSON.stringify(option)).join(', ')}`);
+  }
+  if (typeof value === 'string' && schema.minLength !== undefined && value.length < schema.minLength) {
+    errors.push(`${at}: must not be empty`);
+  }
+  if (typeof value === 'number') {
+    if (!Number.isFinite(value)) {
+      errors.push(`${at}: must be a finite number`);
+    }
+    if (schema.exclusiveMinimum !== undefined && value <= schema.exclusiveMinimum) {
+      errors.push(`${at}: must be greater than ${schema.exclusiveMinimum}`);
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      errors.push(`${at}: must be at most ${schema.maximum}`);
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      errors.push(`${at}: needs at least ${schema.minItems} item${schema.minItems === 1 ? '' : 's'}`);
+    }
+    if (schema.items) {
+      value.forEach((item, index) => checkSchema(item, schema.items!, `${at}[${index}]`, errors));
+    }
+  } else if (actual === 'object') {
+    const object = value as Record<string, unknown>;
+    for (const key of schema.required || []) {
+      if (object[key] === undefined) {
+        errors.push(`${at}.${key}: is required`);
+      }
+    }
+    for (const [key, child] of Object.entries(object)) {
+      const property = schema.properties?.[key];
+      if (property) {
+        checkSchema(child, property, `${at}.${key}`, errors);
+      } else if (schema.additionalProperties === false) {
+        errors.push(`${at}.${key}: is not a plan field`);
+      }
+    }
+  }
+}
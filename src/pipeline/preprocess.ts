@@ -0,0 +1,182 @@
+import crypto from 'crypto';
+import ffmpeg from 'fluent-ffmpeg';
+import ffmpegPath from 'ffmpeg-static';
+import fs from 'fs';
+import path from 'path';
+import { ImageInput, PipelineContext, PreprocessConfig } from '../types.js';
+import { VideoAssembler } from './assemble.js';
+import { ORIENTATION_FILTERS, readExifOrientation } from './image-formats.js';
+import { getExportDimensions } from './presets.js';
+
+// Set ffmpeg path
+ffmpeg.setFfmpegPath(ffmpegPath!);
+
+export interface PreprocessResult {
+  images: ImageInput[];
+  warnings: string[];
+}
+
+// Leans smaller than this are left alone; larger ones are probably the subject
+const MAX_CORRECTION_DEGREES = 8;
+
+// Writes the copy of each image that every later phase works from: upright,
+// in the output aspect, no larger than the tour can use, and optionally
+// leveled and color-normalized. Derived files are named after their inputs
+// and settings, so unchanged images are reused across runs.
+export class ImagePreprocessor {
+  private context: PipelineContext;
+  private options: Required<Omit<PreprocessConfig, 'enabled'>>;
+
+  constructor(context: PipelineContext, options: PreprocessConfig = {}) {
+    this.context = context;
+    this.options = {
+      fit: options.fit ?? 'crop',
+      headroom: options.headroom ?? 1.25,
+      straightenVerticals: options.straightenVerticals ?? false,
+      normalizeExposure: options.normalizeExposure ?? true
+    };
+  }
+
+  async preprocessImages(images: ImageInput[]): Promise<PreprocessResult> {
+    this.context.onProgress?.('preprocess', 0, 'Preparing images');
+
+    const warnings: string[] = [];
+    const processed: ImageInput[] = [];
+    const outputDir = path.join(this.context.tmpDir, 'preprocessed');
+    await fs.promises.mkdir(outputDir, { recursive: true });
+
+    for (let i = 0; i < images.length; i++) {
+      const image = images[i];
+      this.context.onProgress?.('preprocess', (i / images.length) * 100, `Preparing ${path.basename(image.path)}`);
+
+      try {
+        processed.push(await this.preprocessImage(image, outputDir));
+      } catch (error) {
+        // The original still works, it just goes through unprepared
+        warnings.push(`Could not preprocess ${path.basename(image.path)}, using the original: ${error}`);
+        processed.push(image);
+      }
+    }
+
+    this.context.onProgress?.('preprocess', 100, 'Images prepared');
+    return { images: processed, warnings };
+  }
+
+  private async preprocessImage(image: ImageInput, outputDir: string): Promise<ImageInput> {
+    const { output } = this.context.config;
+    const orientation = await readExifOrientation(image.path);
+    const info = await new VideoAssembler(this.context).getVideoInfo(image.path);
+    const sideways = orientation >= 5;
+    const sourceWidth = sideways ? info.height : info.width;
+    const sourceHeight = sideways ? info.width : info.height;
+
+    // Never larger than the output frame plus zoom headroom, never upscaled
+    const frame = getExportDimensions(output.aspect, output.resolution);
+    const targetAspect = frame.width / frame.height;
+    const fitted = this.options.fit === 'crop'
+      ? Math.min(sourceWidth, sourceHeight * targetAspect)
+      : Math.max(sourceWidth, sourceHeight * targetAspect);
+    const even = (value: number) => Math.max(2, Math.round(value / 2) * 2);
+    const width = even(Math.min(fitted, frame.width * this.options.headroom));
+    const height = even(width / targetAspect);
+
+    const filters = [
+      ...(ORIENTATION_FILTERS[orientation] || []),
+      ...this.buildStraightenFilters(image, sourceWidth, sourceHeight),
+      ...this.buildExposureFilters(image)
+    ];
+
+    const outputPath = path.join(outputDir, `${this.hashInputs(image, filters, width, height)}.jpg`);
+    if (!fs.existsSync(outputPath)) {
+      await this.render(image.path, outputPath, filters, width, height);
+    }
+
+    return {
+      ...image,
+      path: outputPath,
+      sourcePath: image.sourcePath || image.path
+    };
+  }
+
+  // Rotate out camera roll, pull converging verticals back to parallel, then
+  // crop away the corners the rotation uncovered
+  private buildStraightenFilters(image: ImageInput, width: number, height: number): string[] {
+    const quality = image.quality;
+    if (!this.options.straightenVerticals || !quality) {
+      return [];
+    }
+
+    const filters: string[] = [];
+    const roll = quality.tiltDegrees;
+    if (Math.abs(roll) >= 0.5 && Math.abs(roll) <= MAX_CORRECTION_DEGREES) {
+      const radians = (Math.abs(roll) * Math.PI) / 180;
+      // Positive tilt leans right going up, so rotate counterclockwise
+      filters.push(`rotate=${((-roll * Math.PI) / 180).toFixed(5)}`);
+      const zoom = Math.cos(radians) + Math.sin(radians) * Math.max(width / height, height / width);
+      filters.push(`crop=iw/${zoom.toFixed(5)}:ih/${zoom.toFixed(5)}`);
+    }
+
+    const convergence = quality.convergingVerticalsDegrees;
+    if (Math.abs(convergence) >= 0.5 && Math.abs(convergence) <= MAX_CORRECTION_DEGREES) {
+      // Take the top corners from where the verticals actually end up
+      const inset = Math.tan((convergence * Math.PI) / 180) * height;
+      const x0 = inset.toFixed(1);
+      const x1 = `W-${inset.toFixed(1)}`;
+      filters.push(`perspective=x0=${x0}:y0=0:x1=${x1}:y1=0:x2=0:y2=H:x3=W:y3=H:interpolation=cubic`);
+    }
+
+    return filters;
+  }
+
+  private buildExposureFilters(image: ImageInput): string[] {
+    if (!this.options.normalizeExposure) {
+      return [];
+    }
+
+    // Stretch each channel part-way to full range, which also pulls out color casts
+    const filters = ['normalize=independence=0.6:strength=0.5'];
+
+    // Lift dark photos and tame bright ones toward a mid-gray mean
+    const brightness = image.quality?.brightness;
+    if (brightness !== undefined && (brightness < 0.35 || brightness > 0.6)) {
+      const gamma = Math.min(1.6, Math.max(0.7, Math.log(brightness) / Math.log(0.45)));
+      filters.push(`eq=gamma=${gamma.toFixed(3)}`);
+    }
+
+    return filters;
+  }
+
+  private render(inputPath: string, outputPath: string, filters: string[], width: number, height: number): Promise<void> {
+    const chain = filters.length > 0 ? `${filters.join(',')},` : '';
+    const graph = this.options.fit === 'crop'
+      ? `[0:v]${chain}scale=${width}:${height}:force_original_aspect_ratio=increase,crop=${width}:${height},setsar=1[out]`
+      : `[0:v]${chain}split[bg_src][fg_src];` +
+        `[bg_src]scale=${width}:${height}:force_original_aspect_ratio=increase,crop=${width}:${height},boxblur=20:2[bg];` +
+        `[fg_src]scale=${width}:${height}:force_original_aspect_ratio=decrease[fg];` +
+        `[bg][fg]overlay=(W-w)/2:(H-h)/2,setsar=1[out]`;
+
+    // Partial files must never be mistaken for finished ones
+    const partialPath = `${outputPath}.partial.jpg`;
+
+    return new Promise((resolve, reject) => {
+      ffmpeg(inputPath)
+        // Orientation is applied by the filters above, from EXIF
+        .inputOptions(['-noautorotate'])
+        .complexFilter(graph, 'out')
+        .outputOptions(['-frames:v 1', '-q:v 2'])
+        .on('end', () => {
+          fs.promises.rename(partialPath, outputPath).then(resolve, reject);
+        })
+        .on('error', (error) => reject(error))
+        .save(partialPath);
+    });
+  }
+
+  private hashInputs(image: ImageInput, filters: string[], width: number, height: number): string {
+    const stats = fs.statSync(image.path);
+    return crypto.createHash('sha256')
+      .update([image.path, stats.size, stats.mtimeMs, this.options.fit, width, height, ...filters].join('|'))
+      .digest('hex')
+      .slice(0, 16);
+  }
+}
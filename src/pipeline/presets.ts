@@ -0,0 +1,147 @@
+import path from 'path';
+import { ComplianceConfig, ExportAspect, ExportPreset, ExportPresetName, OutputConfig } from '../types.js';
+
+export type ResolvedExportPreset = Required<Omit<ExportPreset, 'maxSeconds'>> & {
+  maxSeconds?: number;
+  width: number;
+  height: number;
+};
+
+// Platform defaults. Vertical feeds cover the bottom of the frame with their
+// own UI, so lower thirds move to the top there.
+export const EXPORT_PRESETS: Record<ExportPresetName, ExportPreset> = {
+  youtube: {
+    name: 'youtube',
+    aspect: '16:9',
+    resolution: '1080p',
+    reframe: 'smart',
+    lowerThirdPosition: 'bottom-left',
+    lowerThirdStyle: 'bar'
+  },
+  reels: {
+    name: 'reels',
+    aspect: '9:16',
+    resolution: '1080p',
+    maxSeconds: 90,
+    reframe: 'smart',
+    lowerThirdPosition: 'top-center',
+    lowerThirdStyle: 'badge',
+    bottomSafePercent: 20
+  },
+  tiktok: {
+    name: 'tiktok',
+    aspect: '9:16',
+    resolution: '1080p',
+    maxSeconds: 180,
+    reframe: 'smart',
+    lowerThirdPosition: 'top-center',
+    lowerThirdStyle: 'badge',
+    bottomSafePercent: 20
+  },
+  'instagram-square': {
+    name: 'instagram-square',
+    aspect: '1:1',
+    resolution: '1080p',
+    maxSeconds: 60,
+    reframe: 'smart',
+    lowerThirdPosition: 'bottom-center',
+    lowerThirdStyle: 'badge'
+  },
+  'instagram-portrait': {
+    name: 'instagram-portrait',
+    aspect: '4:5',
+    resolution: '1080p',
+    maxSeconds: 60,
+    reframe: 'smart',
+    lowerThirdPosition: 'bottom-center',
+    lowerThirdStyle: 'badge',
+    bottomSafePercent: 10
+  },
+  // MLS listings don't allow agent branding, contact details or burned-in text
+  mls: {
+    name: 'mls',
+    aspect: '16:9',
+    resolution: '1080p',
+    branded: false,
+    burnCaptions: false,
+    reframe: 'pad',
+    mlsCompliant: true
+  }
+};
+
+export function isExportPresetName(name: string): name is ExportPresetName {
+  return Object.prototype.hasOwnProperty.call(EXPORT_PRESETS, name);
+}
+
+// Fill in each requested preset from its built-in defaults and the main output.
+// Compliance mode adds the 'mls' preset unless an MLS-compliant one is listed.
+export function resolveExportPresets(output: OutputConfig, compliance?: ComplianceConfig): ResolvedExportPreset[] {
+  const extension = path.extname(output.path) || '.mp4';
+  const basePath = output.path.slice(0, output.path.length - path.extname(output.path).length);
+  const seen = new Set<string>();
+
+  const entries = [...(output.presets || [])];
+  const hasMlsPreset = entries.some(entry => {
+    const name = typeof entry === 'string' ? entry : entry.name;
+    return (typeof entry !== 'string' && entry.mlsCompliant) || (isExportPresetName(name) && EXPORT_PRESETS[name].mlsCompliant);
+  });
+  if (compliance?.mls && !hasMlsPreset) {
+    entries.push('mls');
+  }
+
+  return entries.map(entry => {
+    const requested = typeof entry === 'string' ? { name: entry } : entry;
+    const builtin = isExportPresetName(requested.name) ? EXPORT_PRESETS[requested.name] : undefined;
+    if (!builtin && !requested.aspect) {
+      throw new Error(
+        `Unknown export preset "${requested.name}" (expected one of ${Object.keys(EXPORT_PRESETS).join(', ')}, ` +
+        'or give a custom preset an aspect)'
+      );
+    }
+    if (seen.has(requested.name)) {
+      throw new Error(`Export preset "${requested.name}" is listed twice`);
+    }
+    seen.add(requested.name);
+
+    const preset = { ...builtin, ...requested };
+    const aspect = preset.aspect || output.aspect;
+    const resolution = preset.resolution || output.resolution;
+    if (preset.maxSeconds !== undefined && !(preset.maxSeconds > 0)) {
+      throw new Error(`Export preset "${preset.name}" has an invalid maxSeconds (${preset.maxSeconds})`);
+    }
+
+    // Branding is never allowed in an MLS cut
+    const mlsCompliant = preset.mlsCompliant ?? false;
+
+    return {
+      name: preset.name,
+      aspect,
+      resolution,
+      path: preset.path || `${basePath}_${preset.name}${extension}`,
+      maxSeconds: preset.maxSeconds,
+      branded: mlsCompliant ? false : preset.branded ?? true,
+      reframe: preset.reframe || 'smart',
+      lowerThirdPosition: preset.lowerThirdPosition || 'bottom-left',
+      lowerThirdStyle: preset.lowerThirdStyle || 'bar',
+      bottomSafePercent: preset.bottomSafePercent ?? 0,
+      burnCaptions: preset.burnCaptions ?? output.burnCaptions ?? false,
+      mlsCompliant,
+      ...getExportDimensions(aspect, resolution)
+    };
+  });
+}
+
+// The resolution names the short side, as with the main output
+export function getExportDimensions(
+  aspect: ExportAspect,
+  resolution: '720p' | '1080p'
+): { width: number; height: number } {
+  const shortSide = resolution === '720p' ? 720 : 1080;
+  const [w, h] = aspect.split(':').map(Number);
+  // Round the long side to an even number for yuv420p
+  const longSide = (ratio: number) => Math.round((shortSide * ratio) / 2) * 2;
+
+  return w >= h
+    ? { width: longSide(w / h), height: shortSide }
+    : { width: shortSide, height: longSide(h / w) };
+}
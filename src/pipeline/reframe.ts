@@ -0,0 +1,267 @@
+import ffmpeg from 'fluent-ffmpeg';
+import ffmpegPath from 'ffmpeg-static';
+import fs from 'fs';
+import path from 'path';
+import { PipelineContext, VideoSegment } from '../types.js';
+import { VideoAssembler } from './assemble.js';
+
+// Set ffmpeg path
+ffmpeg.setFfmpegPath(ffmpegPath!);
+
+export interface ReframeOptions {
+  // Side of the (squashed) grayscale frames used to find where the detail is
+  analysisSize?: number;
+  analysisFrames?: number;
+  // Pulls the crop toward the middle when both sides are about as busy
+  centerBias?: number;
+  fadeOutSeconds?: number;
+  crf?: number;
+}
+
+export interface ReframeTarget {
+  width: number;
+  height: number;
+  mode: 'smart' | 'center' | 'pad';
+  maxSeconds?: number;
+}
+
+export interface ReframeSchedule {
+  segments: VideoSegment[];
+  // Where each segment starts in the assembled video
+  startTimes: number[];
+  crossfadeDuration: number;
+}
+
+// Piecewise offset over time: hold each segment's offset and ease into the
+// next one while the two are crossfading. The caller quotes the expression,
+// so its commas need no escaping.
+export function cropOffsetExpression(offsets: number[], startTimes: number[], crossfade: number): string {
+  if (offsets.length === 0) {
+    return '0';
+  }
+
+  let expression = String(offsets[offsets.length - 1]);
+  for (let i = offsets.length - 1; i > 0; i--) {
+    const start = startTimes[i];
+    const easeEnd = start + Math.max(crossfade, 0.001);
+    const blend = `${offsets[i - 1]}+(${offsets[i] - offsets[i - 1]})*(t-${start.toFixed(3)})/${(easeEnd - start).toFixed(3)}`;
+    expression = `if(lt(t,${start.toFixed(3)}),${offsets[i - 1]},if(lt(t,${easeEnd.toFixed(3)}),${blend},${expression}))`;
+  }
+
+  return expression;
+}
+
+// Center of the window, as a fraction along the axis, with the most gradient
+// energy in a stack of size x size grayscale frames. centerBias discounts
+// windows by how far off-center they sit.
+export function pickDetailWindow(
+  pixels: Buffer,
+  size: number,
+  axis: 'x' | 'y',
+  windowFraction: number,
+  centerBias: number
+): number {
+  const frames = Math.floor(pixels.length / (size * size));
+  if (frames === 0) {
+    return 0.5;
+  }
+
+  // Gradient energy summed per column (x crops) or per row (y crops) over all sampled frames
+  const profile = new Array(size).fill(0);
+  for (let frame = 0; frame < frames; frame++) {
+    const base = frame * size * size;
+    for (let row = 0; row < size - 1; row++) {
+      for (let col = 0; col < size - 1; col++) {
+        const index = base + row * size + col;
+        const energy = Math.abs(pixels[index] - pixels[index + 1]) +
+          Math.abs(pixels[index] - pixels[index + size]);
+        profile[axis === 'x' ? col : row] += energy;
+      }
+    }
+  }
+
+  // Blank or flat frames give nothing to go on
+  if (profile.every(value => value === 0)) {
+    return 0.5;
+  }
+
+  const windowLength = Math.max(1, Math.min(size, Math.round(windowFraction * size)));
+  const maxStart = size - windowLength;
+  let windowSum = profile.slice(0, windowLength).reduce((sum, value) => sum + value, 0);
+  let bestStart = 0;
+  let bestScore = -Infinity;
+
+  for (let start = 0; start <= maxStart; start++) {
+    if (start > 0) {
+      windowSum += profile[start + windowLength - 1] - profile[start - 1];
+    }
+    const distanceFromCenter = maxStart > 0 ? Math.abs(start / maxStart - 0.5) * 2 : 0;
+    const score = windowSum * (1 - centerBias * distanceFromCenter);
+    if (score > bestScore) {
+      bestScore = score;
+      bestStart = start;
+    }
+  }
+
+  return (bestStart + windowLength / 2) / size;
+}
+
+// Renders the assembled tour at another aspect ratio. Smart crops follow the
+// most detailed part of each scene and glide between scenes during the
+// crossfade; pad mode fits the whole frame over a blurred copy of itself.
+export class VideoReframer {
+  private context: PipelineContext;
+  private options: Required<ReframeOptions>;
+
+  constructor(context: PipelineContext, options: ReframeOptions = {}) {
+    this.context = context;
+    this.options = {
+      analysisSize: options.analysisSize ?? 64,
+      analysisFrames: options.analysisFrames ?? 3,
+      centerBias: options.centerBias ?? 0.25,
+      fadeOutSeconds: options.fadeOutSeconds ?? 1,
+      crf: options.crf ?? 20
+    };
+  }
+
+  async reframe(
+    inputPath: string,
+    outputPath: string,
+    target: ReframeTarget,
+    schedule: ReframeSchedule
+  ): Promise<{ duration: number }> {
+
+    const info = await new VideoAssembler(this.context).getVideoInfo(inputPath);
+    const duration = target.maxSeconds ? Math.min(info.duration, target.maxSeconds) : info.duration;
+    const trimmed = duration < info.duration;
+
+    const filters = [await this.buildFrameFilter(info, target, schedule)];
+    const audioFilters: string[] = [];
+    if (trimmed) {
+      // Fade out rather than cutting off mid-sentence
+      const fadeStart = Math.max(0, duration - this.options.fadeOutSeconds);
+      filters.push(`fade=t=out:st=${fadeStart.toFixed(3)}:d=${this.options.fadeOutSeconds}`);
+      audioFilters.push(`afade=t=out:st=${fadeStart.toFixed(3)}:d=${this.options.fadeOutSeconds}`);
+    }
+
+    await fs.promises.mkdir(path.dirname(outputPath), { recursive: true });
+
+    return new Promise((resolve, reject) => {
+      const command = ffmpeg(inputPath)
+        .complexFilter(`[0:v]${filters.join(',')}[framed]`, 'framed')
+        .outputOptions([
+          '-c:v libx264',
+          `-crf ${this.options.crf}`,
+          '-preset medium',
+          '-pix_fmt yuv420p',
+          '-movflags +faststart'
+        ]);
+
+      if (info.hasAudio) {
+        command.outputOptions(['-map 0:a', '-c:a aac', '-b:a 192k']);
+        if (audioFilters.length > 0) {
+          command.audioFilters(audioFilters);
+        }
+      }
+      if (trimmed) {
+        command.outputOptions([`-t ${duration.toFixed(3)}`]);
+      }
+
+      command
+        .on('progress', (progress) => {
+          this.context.onProgress?.('reframe', Math.min(100, progress.percent || 0), `Reframing to ${target.width}x${target.height}`);
+        })
+        .on('end', () => resolve({ duration }))
+        .on('error', (error) => reject(error))
+        .save(outputPath);
+    });
+  }
+
+  private async buildFrameFilter(
+    info: { width: number; height: number },
+    target: ReframeTarget,
+    schedule: ReframeSchedule
+  ): Promise<string> {
+
+    const { width, height } = target;
+    const sourceAspect = info.width / info.height;
+    const targetAspect = width / height;
+
+    // Same shape: nothing to crop, just scale
+    if (Math.abs(sourceAspect - targetAspect) < 0.01) {
+      return `scale=${width}:${height},setsar=1`;
+    }
+
+    if (target.mode === 'pad') {
+      return `split[bg_src][fg_src];` +
+        `[bg_src]scale=${width}:${height}:force_original_aspect_ratio=increase,` +
+        `crop=${width}:${height},boxblur=20:2[bg];` +
+        `[fg_src]scale=${width}:${height}:force_original_aspect_ratio=decrease[fg];` +
+        `[bg][fg]overlay=(W-w)/2:(H-h)/2,setsar=1`;
+    }
+
+    // Scale to cover the target, then slide a crop window along the long axis
+    const cropAxis = sourceAspect > targetAspect ? 'x' : 'y';
+    const scaled = cropAxis === 'x'
+      ? `scale=-2:${height}`
+      : `scale=${width}:-2`;
+    const scaledLength = cropAxis === 'x'
+      ? Math.round((info.width * height) / info.height / 2) * 2
+      : Math.round((info.height * width) / info.width / 2) * 2;
+    const windowLength = cropAxis === 'x' ? width : height;
+    const travel = Math.max(0, scaledLength - windowLength);
+
+    let focus: number[];
+    if (target.mode === 'smart') {
+      focus = [];
+      for (const segment of schedule.segments) {
+        focus.push(await this.findFocus(segment, cropAxis, windowLength / scaledLength));
+      }
+    } else {
+      focus = schedule.segments.map(() => 0.5);
+    }
+
+    const offsets = focus.map(f => Math.round(Math.min(travel, Math.max(0, f * scaledLength - windowLength / 2))));
+    const position = cropOffsetExpression(offsets, schedule.startTimes, schedule.crossfadeDuration);
+    const crop = cropAxis === 'x'
+      ? `crop=${width}:${height}:x='${position}':y=0`
+      : `crop=${width}:${height}:x=0:y='${position}'`;
+
+    return `${scaled},${crop},setsar=1`;
+  }
+
+  // Center of the crop window, as a fraction along the cropped axis, where a
+  // few sampled frames have the most edge detail
+  private async findFocus(segment: VideoSegment, axis: 'x' | 'y', windowFraction: number): Promise<number> {
+    const framePath = path.join(this.context.tmpDir, `focus_${Date.now()}_${Math.random().toString(36).slice(2, 8)}.gray`);
+    const size = this.options.analysisSize;
+
+    try {
+      await new Promise<void>((resolve, reject) => {
+        ffmpeg(segment.path)
+          .videoFilters([
+            `fps=${this.options.analysisFrames}/${Math.max(segment.duration, 0.1).toFixed(3)}`,
+            // Squashing to a square keeps positions proportional along both axes
+            `scale=${size}:${size}`
+          ])
+          .outputOptions([
+            `-frames:v ${this.options.analysisFrames}`,
+            '-f rawvideo',
+            '-pix_fmt gray'
+          ])
+          .on('end', () => resolve())
+          .on('error', (error) => reject(error))
+          .save(framePath);
+      });
+
+      const pixels = await fs.promises.readFile(framePath);
+      return pickDetailWindow(pixels, size, axis, windowFraction, this.options.centerBias);
+    } catch (error) {
+      // A crop from the middle is still a usable frame
+      this.context.onWarning?.(`Could not analyze ${path.basename(segment.path)} for reframing, centering instead`);
+      return 0.5;
+    } finally {
+      await fs.promises.rm(framePath, { force: true });
+    }
+  }
+}
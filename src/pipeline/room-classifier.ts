@@ -0,0 +1,180 @@
+import ffmpeg from 'fluent-ffmpeg';
+import ffmpegPath from 'ffmpeg-static';
+import fs from 'fs';
+import path from 'path';
+import { PipelineContext, RoomClassifier, RoomPrediction } from '../types.js';
+
+// Set ffmpeg path
+ffmpeg.setFfmpegPath(ffmpegPath!);
+
+export interface HeuristicClassifierOptions {
+  // Side of the RGB thumbnail the features are computed on
+  thumbnailSize?: number;
+  // Higher values make the confidence of the top room more extreme
+  sharpness?: number;
+}
+
+export interface ImageFeatures {
+  // Blue sky in the top third of the frame
+  sky: number;
+  // Vegetation anywhere, and in the bottom half (lawns)
+  green: number;
+  greenBottom: number;
+  // Bright, unsaturated surfaces: tile, white cabinets, porcelain
+  white: number;
+  // Wood, upholstery and warm lamp light
+  warm: number;
+  // Fine detail, e.g. cabinet doors and appliances
+  edges: number;
+  brightness: number;
+}
+
+type FeatureWeights = Partial<Record<keyof ImageFeatures | 'bias', number>>;
+
+// Per-room weights over the features above. Indoors vs outdoors is what
+// these separate well; the indoor rooms overlap, which shows up as low
+// confidence rather than a confident wrong answer.
+const ROOM_WEIGHTS: Record<string, FeatureWeights> = {
+  exterior: { sky: 4, green: 1.5, edges: 1.5, white: -1.5 },
+  backyard: { sky: 2.5, greenBottom: 3.5, edges: -1 },
+  kitchen: { white: 2, edges: 2, brightness: 0.5, sky: -2, green: -2 },
+  bathroom: { white: 3, brightness: 1, warm: -1.5, edges: -0.5, sky: -2, green: -2 },
+  bedroom: { warm: 2.5, edges: -1.5, white: -1, sky: -2, green: -2, bias: 1.5 },
+  living: { warm: 2, brightness: 1, edges: 0.5, sky: -2, green: -2 },
+  entry: { warm: 1, edges: 0.5, sky: -2, green: -2, bias: 0.6 }
+};
+
+// CPU-only room classifier built on color and texture statistics of a small
+// thumbnail decoded with ffmpeg. No model download, no GPU; plug in a real
+// image model through the RoomClassifier interface when accuracy matters.
+export class HeuristicRoomClassifier implements RoomClassifier {
+  private context: PipelineContext;
+  private options: Required<HeuristicClassifierOptions>;
+
+  constructor(context: PipelineContext, options: HeuristicClassifierOptions = {}) {
+    this.context = context;
+    this.options = {
+      thumbnailSize: options.thumbnailSize ?? 32,
+      sharpness: options.sharpness ?? 3
+    };
+  }
+
+  async classify(imagePath: string): Promise<RoomPrediction | null> {
+    const pixels = await this.readThumbnail(imagePath);
+    if (!pixels) {
+      return null;
+    }
+
+    const features = this.extractFeatures(pixels);
+    const scores = Object.entries(ROOM_WEIGHTS).map(([room, weights]) => ({
+      room,
+      score: Object.entries(weights).reduce((sum, [feature, weight]) =>
+        sum + weight! * (feature === 'bias' ? 1 : features[feature as keyof ImageFeatures]), 0)
+    }));
+
+    // Softmax over the room scores; the winner's share is the confidence
+    const max = Math.max(...scores.map(s => s.score));
+    const exps = scores.map(s => Math.exp((s.score - max) * this.options.sharpness));
+    const total = exps.reduce((sum, value) => sum + value, 0);
+    const best = exps.indexOf(Math.max(...exps));
+
+    return {
+      room: scores[best].room,
+      confidence: exps[best] / total
+    };
+  }
+
+  extractFeatures(pixels: Buffer): ImageFeatures {
+    const size = this.options.thumbnailSize;
+    const counts = { sky: 0, green: 0, greenBottom: 0, white: 0, warm: 0 };
+    let brightness = 0;
+    let edges = 0;
+
+    for (let y = 0; y < size; y++) {
+      for (let x = 0; x < size; x++) {
+        const index = (y * size + x) * 3;
+        const { hue, saturation, value } = this.toHsv(pixels[index], pixels[index + 1], pixels[index + 2]);
+        brightness += value;
+
+        if (y < size / 3 && hue >= 190 && hue <= 250 && saturation > 0.15 && value > 0.45) {
+          counts.sky++;
+        }
+        if (hue >= 70 && hue <= 160 && saturation > 0.2 && value > 0.15) {
+          counts.green++;
+          if (y >= size / 2) counts.greenBottom++;
+        }
+        if (value > 0.75 && saturation < 0.12) {
+          counts.white++;
+        }
+        if (hue >= 15 && hue <= 50 && saturation > 0.25 && value > 0.2) {
+          counts.warm++;
+        }
+
+        // Luma gradient to the right and below
+        if (x < size - 1 && y < size - 1) {
+          const luma = (i: number) => 0.299 * pixels[i] + 0.587 * pixels[i + 1] + 0.114 * pixels[i + 2];
+          edges += Math.abs(luma(index) - luma(index + 3)) + Math.abs(luma(index) - luma(index + size * 3));
+        }
+      }
+    }
+
+    const total = size * size;
+    return {
+      sky: counts.sky / (total / 3),
+      green: counts.green / total,
+      greenBottom: counts.greenBottom / (total / 2),
+      white: counts.white / total,
+      warm: counts.warm / total,
+      // Typical photos average 5-30 levels of gradient per pixel
+      edges: Math.min(1, edges / ((size - 1) * (size - 1)) / 60),
+      brightness: brightness / total
+    };
+  }
+
+  private async readThumbnail(imagePath: string): Promise<Buffer | null> {
+    const size = this.options.thumbnailSize;
+    const rawPath = path.join(
+      this.context.tmpDir,
+      `classify_${Date.now()}_${Math.random().toString(36).slice(2, 8)}.rgb`
+    );
+
+    try {
+      await fs.promises.mkdir(this.context.tmpDir, { recursive: true });
+      await new Promise<void>((resolve, reject) => {
+        ffmpeg(imagePath)
+          .videoFilters(`scale=${size}:${size}`)
+          .outputOptions(['-frames:v 1', '-f rawvideo', '-pix_fmt rgb24'])
+          .on('end', () => resolve())
+          .on('error', (error) => reject(error))
+          .save(rawPath);
+      });
+
+      const pixels = await fs.promises.readFile(rawPath);
+      return pixels.length >= size * size * 3 ? pixels : null;
+    } catch (error) {
+      // Undecodable here; the ingestor falls back to filename keywords
+      return null;
+    } finally {
+      await fs.promises.rm(rawPath, { force: true });
+    }
+  }
+
+  private toHsv(r: number, g: number, b: number): { hue: number; saturation: number; value: number } {
+    const max = Math.max(r, g, b);
+    const min = Math.min(r, g, b);
+    const delta = max - min;
+
+    let hue = 0;
+    if (delta > 0) {
+      if (max === r) hue = 60 * (((g - b) / delta) % 6);
+      else if (max === g) hue = 60 * ((b - r) / delta + 2);
+      else hue = 60 * ((r - g) / delta + 4);
+    }
+
+    return {
+      hue: hue < 0 ? hue + 360 : hue,
+      saturation: max === 0 ? 0 : delta / max,
+      value: max / 255
+    };
+  }
+}
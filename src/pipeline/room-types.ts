@@ -0,0 +1,416 @@
+import { KenBurnsMotion } from '../types.js';
+
+// Everything the pipeline knows about a kind of room. Rooms themselves stay
+// plain strings on images and scenes ('kitchen', 'bedroom-2', 'guest-bedroom');
+// the helpers below map them onto these types.
+export interface RoomTypeDefinition {
+  label: string;
+  // Text for the room's lower third; null for rooms that shouldn't get one
+  lowerThird?: string | null;
+  // Matched against file names and free-form room names
+  keywords: RegExp;
+  // Voiceover lines; {room} becomes e.g. "bedroom" or "second bedroom"
+  narration: {
+    scene: string;
+    professional: string;
+    warm: string;
+    luxury: string;
+  };
+  descriptions: string[];
+  focusPoints: string[][];
+  // Words that tie a listing feature bullet to this room
+  featureKeywords: string[];
+  // Camera direction for generated video
+  motion: string;
+  kenBurns: KenBurnsMotion;
+  // Lower goes to Veo first
+  veoPriority: number;
+  // Saved for the end of a room-flow tour, after the rooms of unknown type
+  finale?: boolean;
+}
+
+// In room-flow order: the walk-through a buyer would take
+export const ROOM_TYPES: Record<string, RoomTypeDefinition> = {
+  exterior: {
+    label: 'Exterior',
+    keywords: /(exterior|front|facade|curb|outside)/,
+    narration: {
+      scene: "Here's your first look at this stunning home with its impressive curb appeal.",
+      professional: 'The impressive exterior showcases excellent curb appeal and quality construction.',
+      warm: 'What a beautiful first impression this home makes with its charming exterior.',
+      luxury: 'An impressive facade that commands attention with its architectural sophistication.'
+    },
+    descriptions: ['Stunning curb appeal and architectural details'],
+    focusPoints: [['architectural facade', 'landscaping', 'entrance appeal']],
+    featureKeywords: ['exterior', 'curb', 'facade', 'landscape', 'parking', 'entrance'],
+    motion: 'gentle approach revealing the facade and entrance',
+    kenBurns: { zoom: 'in', pan: 'none' },
+    veoPriority: 0
+  },
+  entry: {
+    label: 'Entryway',
+    keywords: /(entry|entryway|foyer|entrance|door)/,
+    narration: {
+      scene: 'Step inside to this welcoming entryway that sets the tone for the entire home.',
+      professional: 'Step into the welcoming entryway that sets the tone for the entire home.',
+      warm: 'Come on in! This lovely entryway feels so welcoming and bright.',
+      luxury: 'Enter through this grand foyer that epitomizes elegance and refined taste.'
+    },
+    descriptions: ['Welcoming entrance with elegant details'],
+    focusPoints: [['entryway details', 'lighting fixtures', 'flooring transition']],
+    featureKeywords: ['entry', 'foyer', 'entrance'],
+    motion: 'welcoming entrance movement with gentle height reveal',
+    kenBurns: { zoom: 'in', pan: 'up' },
+    veoPriority: 6
+  },
+  living: {
+    label: 'Living Room',
+    keywords: /(living|family|great.room|lounge)/,
+    narration: {
+      scene: 'The heart of the home features this spacious {room} with abundant natural light.',
+      professional: 'The spacious {room} features abundant natural light and open flow.',
+      warm: 'This is where you\'ll spend most of your time - such a cozy and bright {room}.',
+      luxury: 'This magnificent {room} exemplifies luxury with its soaring ceilings and premium finishes.'
+    },
+    descriptions: ['Spacious living area with natural light', 'Comfortable living space with great flow'],
+    focusPoints: [
+      ['seating arrangement', 'natural light', 'room flow'],
+      ['fireplace area', 'built-ins', 'ceiling details']
+    ],
+    featureKeywords: ['living', 'fireplace', 'window', 'light', 'open', 'spacious', 'hardwood'],
+    motion: 'arc around seating revealing windows and flow',
+    kenBurns: { zoom: 'out', pan: 'right' },
+    veoPriority: 1
+  },
+  dining: {
+    label: 'Dining Room',
+    keywords: /(dining|breakfast.nook)/,
+    narration: {
+      scene: 'The {room} is ready for everything from weeknight dinners to holiday gatherings.',
+      professional: 'The {room} offers generous space for formal and everyday dining.',
+      warm: 'Picture family dinners and celebrations around the table in this lovely {room}.',
+      luxury: 'An elegant {room} sets the stage for memorable entertaining.'
+    },
+    descriptions: ['Dining space made for gathering'],
+    focusPoints: [['table setting', 'lighting fixture', 'connection to kitchen']],
+    featureKeywords: ['dining', 'chandelier', 'entertain', 'breakfast'],
+    motion: 'slow arc around the table toward the light fixture and adjoining rooms',
+    kenBurns: { zoom: 'in', pan: 'right' },
+    veoPriority: 4
+  },
+  kitchen: {
+    label: 'Kitchen',
+    keywords: /(kitchen|cook)/,
+    narration: {
+      scene: "The {room} is a chef's dream with premium finishes and thoughtful design.",
+      professional: 'The well-appointed {room} offers modern amenities and efficient layout.',
+      warm: 'The heart of the home! This {room} is perfect for cooking and gathering.',
+      luxury: 'A culinary masterpiece featuring top-of-the-line appliances and exquisite craftsmanship.'
+    },
+    descriptions: ['Chef\'s kitchen with premium finishes', 'Kitchen island and cooking area'],
+    focusPoints: [
+      ['island centerpiece', 'appliance suite', 'countertop materials'],
+      ['cabinet details', 'backsplash design', 'lighting features']
+    ],
+    featureKeywords: ['kitchen', 'cook', 'chef', 'appliance', 'island', 'granite', 'marble', 'cabinet', 'pantry'],
+    motion: 'island approach then arc to reveal appliances and details',
+    kenBurns: { zoom: 'in', pan: 'left' },
+    veoPriority: 2
+  },
+  office: {
+    label: 'Office',
+    keywords: /(office|study|library|(^|[^a-z])den([^a-z]|$))/,
+    narration: {
+      scene: 'This {room} makes working from home a pleasure.',
+      professional: 'A dedicated {room} provides a quiet, productive workspace.',
+      warm: 'Working from home is easy in this bright and quiet {room}.',
+      luxury: 'A refined {room} offers a distinguished setting for work and reflection.'
+    },
+    descriptions: ['Quiet workspace with natural light'],
+    focusPoints: [['desk area', 'built-in shelving', 'natural light']],
+    featureKeywords: ['office', 'study', 'den', 'library', 'work from home'],
+    motion: 'gentle push-in toward the desk and windows',
+    kenBurns: { zoom: 'in', pan: 'right' },
+    veoPriority: 8
+  },
+  'primary-bedroom': {
+    label: 'Primary Bedroom',
+    keywords: /(primary|master|owner.?s.suite)/,
+    narration: {
+      scene: 'The {room} is a true retreat with room to relax and unwind.',
+      professional: 'The {room} offers generous space and a private retreat.',
+      warm: 'You\'ll love ending the day in this peaceful {room}.',
+      luxury: 'The {room} is a sumptuous sanctuary of comfort and tranquility.'
+    },
+    descriptions: ['Primary suite with ample space', 'Private retreat with natural light'],
+    focusPoints: [
+      ['bed placement', 'sitting area', 'window views'],
+      ['walk-in closet', 'ensuite access', 'ceiling details']
+    ],
+    featureKeywords: ['primary', 'master', 'suite', 'walk-in', 'closet'],
+    motion: 'gentle reveal from doorway with arc toward windows',
+    kenBurns: { zoom: 'out', pan: 'none' },
+    veoPriority: 3
+  },
+  bedroom: {
+    label: 'Bedroom',
+    keywords: /(bedroom|bed)/,
+    narration: {
+      scene: 'This peaceful {room} offers comfort and tranquility with plenty of space.',
+      professional: 'This comfortable {room} provides peaceful retreat space.',
+      warm: 'This peaceful {room} is your personal sanctuary for rest and relaxation.',
+      luxury: 'This sumptuous {room} offers the ultimate in comfort and tranquility.'
+    },
+    descriptions: ['Peaceful bedroom retreat', 'Bedroom with ample space'],
+    focusPoints: [
+      ['bed placement', 'window views', 'closet access'],
+      ['sitting area', 'built-in features', 'natural light']
+    ],
+    featureKeywords: ['bedroom', 'closet', 'private', 'quiet'],
+    motion: 'gentle reveal from doorway with arc toward windows',
+    kenBurns: { zoom: 'out', pan: 'none' },
+    veoPriority: 5
+  },
+  bathroom: {
+    label: 'Bathroom',
+    keywords: /(bathroom|bath|powder|ensuite)/,
+    narration: {
+      scene: 'The {room} showcases beautiful finishes and spa-like amenities.',
+      professional: 'The {room} features quality fixtures and thoughtful design.',
+      warm: 'A spa-like {room} where you can unwind after a long day.',
+      luxury: 'An opulent spa-inspired {room} with luxury appointments throughout.'
+    },
+    descriptions: ['Spa-like bathroom with luxury finishes'],
+    focusPoints: [['vanity details', 'shower/tub area', 'fixture quality']],
+    featureKeywords: ['bathroom', 'bath', 'shower', 'tub', 'vanity', 'marble', 'tile', 'spa'],
+    motion: 'careful reveal of fixtures with emphasis on finishes',
+    kenBurns: { zoom: 'in', pan: 'right' },
+    veoPriority: 7
+  },
+  laundry: {
+    label: 'Laundry Room',
+    keywords: /(laundry|utility|mudroom)/,
+    narration: {
+      scene: 'A practical {room} keeps everyday chores simple.',
+      professional: 'The {room} adds convenient storage and utility space.',
+      warm: 'Laundry day is a breeze in this handy {room}.',
+      luxury: 'A thoughtfully appointed {room} completes the home\'s everyday conveniences.'
+    },
+    descriptions: ['Convenient laundry and storage'],
+    focusPoints: [['washer and dryer', 'storage', 'folding space']],
+    featureKeywords: ['laundry', 'washer', 'dryer', 'mudroom', 'utility'],
+    motion: 'short steady push-in across the appliances and storage',
+    kenBurns: { zoom: 'in', pan: 'none' },
+    veoPriority: 11
+  },
+  garage: {
+    label: 'Garage',
+    keywords: /(garage|carport)/,
+    narration: {
+      scene: 'The {room} offers parking and plenty of room for storage.',
+      professional: 'The {room} provides secure parking and additional storage.',
+      warm: 'There\'s space for the cars and all your gear in this roomy {room}.',
+      luxury: 'A generous {room} accommodates your collection with ease.'
+    },
+    descriptions: ['Garage with parking and storage'],
+    focusPoints: [['parking space', 'storage', 'workbench']],
+    featureKeywords: ['garage', 'parking', 'car', 'workshop', 'storage'],
+    motion: 'slow wide pan across the parking bays',
+    kenBurns: { zoom: 'out', pan: 'right' },
+    veoPriority: 12
+  },
+  hallway: {
+    label: 'Hallway',
+    lowerThird: null,
+    keywords: /(hallway|hall|corridor|landing)/,
+    narration: {
+      scene: 'A hallway leads through the home.',
+      professional: 'The hallway connects the living spaces.',
+      warm: 'Let\'s head down the hall.',
+      luxury: 'A gracious gallery connects the residence.'
+    },
+    descriptions: ['Hallway connecting the rooms'],
+    focusPoints: [['the way ahead']],
+    featureKeywords: ['hallway', 'gallery'],
+    motion: 'steady forward glide down the hall',
+    kenBurns: { zoom: 'in', pan: 'none' },
+    veoPriority: 14
+  },
+  stairs: {
+    label: 'Staircase',
+    lowerThird: null,
+    keywords: /(stair|staircase)/,
+    narration: {
+      scene: 'The staircase leads to the next level.',
+      professional: 'The staircase connects the levels of the home.',
+      warm: 'Let\'s head up the stairs.',
+      luxury: 'A sweeping staircase connects the levels of the residence.'
+    },
+    descriptions: ['Staircase between floors'],
+    focusPoints: [['the way ahead']],
+    featureKeywords: ['stair', 'staircase', 'banister'],
+    motion: 'slow rise following the staircase',
+    kenBurns: { zoom: 'in', pan: 'up' },
+    veoPriority: 13
+  },
+  pool: {
+    label: 'Pool',
+    keywords: /(pool|hot.?tub|jacuzzi)/,
+    narration: {
+      scene: 'Cool off in the sparkling {room}, made for summer days.',
+      professional: 'The {room} area offers outstanding outdoor recreation.',
+      warm: 'Imagine summer afternoons spent lounging by this {room}.',
+      luxury: 'A resort-style {room} creates a private oasis for relaxation.'
+    },
+    descriptions: ['Resort-style pool and surroundings'],
+    focusPoints: [['pool', 'decking', 'lounging areas']],
+    featureKeywords: ['pool', 'spa', 'hot tub', 'swim'],
+    motion: 'wide establishing glide along the water toward the lounging areas',
+    kenBurns: { zoom: 'out', pan: 'left' },
+    veoPriority: 4,
+    finale: true
+  },
+  backyard: {
+    label: 'Backyard',
+    keywords: /(backyard|back.yard|patio|deck|garden|yard)/,
+    narration: {
+      scene: 'Finally, step outside to enjoy this private outdoor oasis.',
+      professional: 'The private outdoor space offers excellent potential for relaxation and entertainment.',
+      warm: 'Step outside to your own private oasis - perfect for morning coffee or evening relaxation.',
+      luxury: 'Your private estate grounds provide an exclusive retreat for sophisticated entertaining.'
+    },
+    descriptions: ['Private outdoor entertainment space'],
+    focusPoints: [['outdoor living space', 'landscaping features', 'privacy elements']],
+    featureKeywords: ['yard', 'garden', 'outdoor', 'patio', 'deck', 'entertaining', 'private'],
+    motion: 'establishing wide view then closer reveals of features',
+    kenBurns: { zoom: 'out', pan: 'left' },
+    veoPriority: 9,
+    finale: true
+  },
+  view: {
+    label: 'View',
+    keywords: /(view|vista|skyline|aerial|drone)/,
+    narration: {
+      scene: 'And take in the views that make this location so special.',
+      professional: 'The home enjoys impressive views of the surrounding area.',
+      warm: 'Just look at this view - you\'ll never get tired of it.',
+      luxury: 'Commanding views complete this exceptional offering.'
+    },
+    descriptions: ['Sweeping views of the surroundings'],
+    focusPoints: [['the horizon', 'surroundings', 'setting']],
+    featureKeywords: ['view', 'vista', 'skyline', 'ocean', 'mountain', 'lake', 'sunset'],
+    motion: 'slow lateral pan across the horizon',
+    kenBurns: { zoom: 'out', pan: 'right' },
+    veoPriority: 10,
+    finale: true
+  }
+};
+
+// For names like "master bath" the more specific types are tried first
+const KEYWORD_ORDER = [
+  'bathroom', 'primary-bedroom', 'laundry', 'garage', 'pool', 'exterior', 'backyard', 'dining',
+  'kitchen', 'office', 'living', 'stairs', 'entry', 'bedroom', 'hallway', 'view'
+];
+
+// Used for rooms of a type the registry doesn't have
+const FALLBACK_TYPE: Omit<RoomTypeDefinition, 'label' | 'keywords'> = {
+  narration: {
+    scene: 'This {room} offers wonderful features and attention to detail.',
+    professional: 'This {room} showcases exceptional attention to detail.',
+    warm: 'This {room} showcases exceptional attention to detail.',
+    luxury: 'This {room} showcases exceptional attention to detail.'
+  },
+  descriptions: ['Beautiful space with attention to detail'],
+  focusPoints: [['key features', 'design details', 'spatial flow']],
+  featureKeywords: [],
+  motion: 'gentle push-in revealing the space',
+  kenBurns: { zoom: 'in', pan: 'none' },
+  veoPriority: 999
+};
+
+export interface ParsedRoom {
+  // Canonical form, e.g. 'bedroom-2' for "Bedroom 2"
+  id: string;
+  // The id without its instance number
+  name: string;
+  // Registry key; the name itself when no type matches
+  type: string;
+  instance?: number;
+}
+
+// "Bedroom 2", "bedroom_2" and "bedroom2" are all the second bedroom; names
+// that aren't registry keys ("guest-bedroom", "family room") get the type
+// their words match, and rooms of unknown types are their own type
+export function parseRoom(room: string): ParsedRoom {
+  const slug = room.trim().toLowerCase().replace(/[\s_]+/g, '-');
+  const numbered = slug.match(/^(.*?[a-z])-?(\d+)$/);
+  const name = numbered ? numbered[1] : slug;
+  const instance = numbered ? parseInt(numbered[2], 10) : undefined;
+  const type = ROOM_TYPES[name] ? name : matchRoomType(name) || name;
+
+  return { id: instance !== undefined ? `${name}-${instance}` : name, name, type, instance };
+}
+
+export function normalizeRoom(room: string): string {
+  return parseRoom(room).id;
+}
+
+export function getRoomType(room: string): RoomTypeDefinition {
+  const { name, type } = parseRoom(room);
+  return ROOM_TYPES[type] || { ...FALLBACK_TYPE, label: titleCase(name), keywords: /(?!)/ };
+}
+
+// Room type whose keywords appear in a file name or path
+export function matchRoomType(text: string): string | undefined {
+  const lower = text.toLowerCase();
+  return KEYWORD_ORDER.find(type => ROOM_TYPES[type].keywords.test(lower));
+}
+
+// "Bedroom 2", "Guest Bedroom", "Primary Bedroom"
+export function roomLabel(room: string): string {
+  const { name, type, instance } = parseRoom(room);
+  const base = name === type && ROOM_TYPES[type] ? ROOM_TYPES[type].label : titleCase(name);
+  return instance !== undefined ? `${base} ${instance}` : base;
+}
+
+export function roomLowerThird(room: string): string | null {
+  const definition = getRoomType(room);
+  if (definition.lowerThird === null) {
+    return null;
+  }
+  return definition.lowerThird ?? roomLabel(room);
+}
+
+// The room as narration names it: "living room", "second bedroom"
+export function roomSpokenName(room: string): string {
+  const { name, instance } = parseRoom(room);
+  const base = roomLabel(name).toLowerCase();
+  return instance !== undefined ? `${ordinal(instance)} ${base}` : base;
+}
+
+export function renderRoomTemplate(template: string, room: string): string {
+  return template.replace(/\{room\}/g, roomSpokenName(room));
+}
+
+// Sorts rooms into room-flow order: registry order, unknown types just
+// before the outdoor finale, and instances of a type by number
+export function compareRoomFlow(a: string, b: string): number {
+  const [roomA, roomB] = [parseRoom(a), parseRoom(b)];
+  return flowRank(roomA.type) - flowRank(roomB.type) || (roomA.instance ?? 0) - (roomB.instance ?? 0);
+}
+
+function flowRank(type: string): number {
+  const types = Object.keys(ROOM_TYPES);
+  const index = types.indexOf(type);
+  return index !== -1 ? index : types.findIndex(key => ROOM_TYPES[key].finale) - 0.5;
+}
+
+const ORDINALS = ['first', 'second', 'third', 'fourth', 'fifth', 'sixth', 'seventh', 'eighth', 'ninth', 'tenth'];
+
+function ordinal(n: number): string {
+  return ORDINALS[n - 1] || `number ${n}`;
+}
+
+function titleCase(name: string): string {
+  return name.split('-').filter(Boolean).map(word => word.charAt(0).toUpperCase() + word.slice(1)).join(' ');
+}
@@ -1,4 +1,9 @@
-import { ImageInput, Scene, ScenePlan, OutputConfig, PipelineContext } from '../types.js';
+import { FloorPlan, ImageInput, ListingData, Scene, ScenePlan, OutputConfig, PipelineContext, PlanTiming } from '../types.js';
+import { generateSceneNarration } from '../prompts/segmentPrompt.js';
+import { VideoAssembler } from './assemble.js';
+import { FloorPlanGraph } from './floor-plan.js';
+import { getRoomType, parseRoom, roomSpokenName } from './room-types.js';
+import { TTSGenerator } from './tts.js';
 
 export interface ScenePlannerOptions {
   preferVeoOverKenBurns?: boolean;
@@ -6,11 +11,28 @@ export interface ScenePlannerOptions {
   minSegmentDuration?: number;
   maxSegmentDuration?: number;
   crossfadeDuration?: number;
+  // Scenes whose best photo scores below this go to the back of the Veo queue
+  minVeoQuality?: number;
+  // Adds hallway and stair moves between rooms it says aren't next to each other
+  floorPlan?: FloorPlan;
+  transitionDuration?: number;
+  // The lengths Veo can render
+  veoDurations?: number[];
+  kenBurnsMinDuration?: number;
+  kenBurnsMaxDuration?: number;
+  // Appended after the tour, and counted toward targetSeconds
+  endSlateDuration?: number;
+  // How far the rendered length may land from targetSeconds
+  tolerance?: number;
+  // A narrated tour keeps each scene up long enough for its voiceover line
+  narration?: { listing?: ListingData; script?: string; speed?: number };
 }
 
 export class ScenePlanner {
   private context: PipelineContext;
-  private options: Required<ScenePlannerOptions>;
+  private options: Required<Omit<ScenePlannerOptions, 'floorPlan' | 'narration'>>;
+  private floorPlan?: FloorPlanGraph;
+  private narration?: ScenePlannerOptions['narration'];
 
   constructor(context: PipelineContext, options: ScenePlannerOptions = {}) {
     this.context = context;
@@ -19,113 +41,81 @@ export class ScenePlanner {
       maxVeoSegments: options.maxVeoSegments ?? 15, // Rate limit consideration
       minSegmentDuration: options.minSegmentDuration ?? 4,
       maxSegmentDuration: options.maxSegmentDuration ?? 8,
-      crossfadeDuration: options.crossfadeDuration ?? 0.75
+      crossfadeDuration: options.crossfadeDuration ?? 0.75,
+      minVeoQuality: options.minVeoQuality ?? 0.35,
+      transitionDuration: options.transitionDuration ?? 3,
+      veoDurations: options.veoDurations ?? [4, 6, 8],
+      kenBurnsMinDuration: options.kenBurnsMinDuration ?? 3,
+      kenBurnsMaxDuration: options.kenBurnsMaxDuration ?? 10,
+      endSlateDuration: options.endSlateDuration ?? 0,
+      tolerance: options.tolerance ?? 0.5
     };
+    if (options.floorPlan) {
+      this.floorPlan = new FloorPlanGraph(options.floorPlan);
+    }
+    this.narration = options.narration;
   }
 
   async planScenes(images: ImageInput[], outputConfig: OutputConfig): Promise<ScenePlan> {
     this.context.onProgress?.('planning', 0, 'Analyzing images and grouping by room');
 
-    // Group images by room in logical flow order
+    // Group images by room, keeping the order they were put in at ingest
     const roomGroups = this.groupImagesByRoom(images);
     
     this.context.onProgress?.('planning', 25, 'Calculating segment timing');
 
     // Calculate timing constraints
-    const timing = this.calculateTiming(outputConfig, roomGroups.size);
+    const timing = this.calculateTiming(outputConfig, roomGroups.length);
     
     this.context.onProgress?.('planning', 50, 'Creating scene segments');
 
     // Create scenes based on room groups and timing
-    const scenes = this.createScenes(roomGroups, timing);
+    const scenes = this.insertTransitions(this.createScenes(roomGroups, timing));
 
     this.context.onProgress?.('planning', 75, 'Optimizing scene distribution');
 
     // Optimize scene distribution (Veo vs Ken Burns)
     const optimizedScenes = this.optimizeScenes(scenes, timing);
 
+    this.context.onProgress?.('planning', 90, 'Fitting scene lengths to the target');
+
+    const solved = this.solveTimeline(optimizedScenes, outputConfig.targetSeconds);
+
     this.context.onProgress?.('planning', 100, 'Scene planning complete');
 
-    return this.buildScenePlan(optimizedScenes);
+    return this.buildScenePlan(solved.scenes, solved.timing);
   }
 
-  private groupImagesByRoom(images: ImageInput[]): Map<string, ImageInput[]> {
-    // Define logical room flow order for home tours
-    const roomOrder = [
-      'exterior',
-      'entry', 
-      'living',
-      'kitchen',
-      'bedroom',
-      'bathroom',
-      'backyard'
-    ];
-
-    const roomGroups = new Map<string, ImageInput[]>();
+  // Consecutive images of the same room form one group. The images arrive
+  // in tour order, so a room that comes up twice gets two groups rather than
+  // being pulled together.
+  private groupImagesByRoom(images: ImageInput[]): RoomGroup[] {
+    const groups: RoomGroup[] = [];
 
-    // Initialize groups
-    roomOrder.forEach(room => roomGroups.set(room, []));
-    
-    // Add 'other' category for unrecognized rooms
-    roomGroups.set('other', []);
-
-    // Group images by room
     for (const image of images) {
-      const room = image.room || 'other';
-      const group = roomGroups.get(room) || roomGroups.get('other')!;
-      group.push(image);
-    }
-
-    // Remove empty groups except 'other'
-    for (const [room, group] of roomGroups.entries()) {
-      if (group.length === 0 && room !== 'other') {
-        roomGroups.delete(room);
-      }
-    }
-
-    // If 'other' has images, determine better room assignments
-    const otherImages = roomGroups.get('other') || [];
-    if (otherImages.length > 0) {
-      this.redistributeOtherImages(otherImages, roomGroups);
-      roomGroups.delete('other');
-    }
-
-    return roomGroups;
-  }
-
-  private redistributeOtherImages(otherImages: ImageInput[], roomGroups: Map<string, ImageInput[]>) {
-    // Distribute 'other' images based on sequence position and existing room sizes
-    const sortedRooms = Array.from(roomGroups.entries())
-      .filter(([room, images]) => room !== 'other' && images.length > 0)
-      .sort(([, a], [, b]) => a.length - b.length); // Smallest groups first
-
-    for (const image of otherImages) {
-      if (sortedRooms.length > 0) {
-        // Add to smallest existing room group
-        const [targetRoom] = sortedRooms[0];
-        roomGroups.get(targetRoom)!.push(image);
-        // Re-sort after adding
-        sortedRooms.sort(([, a], [, b]) => a.length - b.length);
+      const last = groups[groups.length - 1];
+      // Images without a room stay with the room they were shot next to
+      const room = image.room || last?.room;
+      if (last && room === last.room) {
+        last.images.push(image);
       } else {
-        // Fallback: create a 'living' group
-        if (!roomGroups.has('living')) {
-          roomGroups.set('living', []);
-        }
-        roomGroups.get('living')!.push(image);
+        groups.push({ room: room || 'living', images: [image] });
       }
     }
+
+    return groups;
   }
 
   private calculateTiming(outputConfig: OutputConfig, roomCount: number): TimingConstraints {
     const { targetSeconds } = outputConfig;
-    const { crossfadeDuration, maxVeoSegments, minSegmentDuration, maxSegmentDuration } = this.options;
+    const { crossfadeDuration, maxVeoSegments, minSegmentDuration, maxSegmentDuration, endSlateDuration } = this.options;
 
-    // Account for crossfades between segments
-    const estimatedSegments = Math.min(roomCount + 2, maxVeoSegments * 1.5); // Some buffer for Ken Burns
-    const crossfadeTime = Math.max(0, estimatedSegments - 1) * crossfadeDuration;
-    const availableContentTime = targetSeconds - crossfadeTime;
+    // Crossfades overlap neighbouring segments, so the scenes together run
+    // longer than the tour; the end slate comes out of the target
+    const crossfadeTime = Math.max(0, roomCount - 1) * crossfadeDuration;
+    const availableContentTime = targetSeconds - endSlateDuration + crossfadeTime;
 
-    // Determine optimal segment duration
+    // A starting length per scene; solveTimeline settles the real ones
     const idealSegmentDuration = Math.max(
       minSegmentDuration,
       Math.min(maxSegmentDuration, availableContentTime / roomCount)
@@ -141,15 +131,27 @@ export class ScenePlanner {
     };
   }
 
-  private createScenes(roomGroups: Map<string, ImageInput[]>, timing: TimingConstraints): Scene[] {
+  private createScenes(roomGroups: RoomGroup[], timing: TimingConstraints): Scene[] {
     const scenes: Scene[] = [];
     let sceneIndex = 0;
 
-    for (const [room, images] of roomGroups.entries()) {
+    for (const { room, images } of roomGroups) {
       if (images.length === 0) continue;
 
       // Determine if this room needs multiple scenes
       const roomScenes = this.createRoomScenes(room, images, timing, sceneIndex);
+      // A room visited again later gets its own scene ids
+      roomScenes.forEach(scene => {
+        let id = scene.id;
+        for (let visit = 2; scenes.some(existing => existing.id === id); visit++) {
+          id = `${scene.id}_visit${visit}`;
+        }
+        scene.id = id;
+      });
+      // The first image is the one a scene is rendered from, so lead with the best one
+      roomScenes.forEach(scene => {
+        scene.images = [...scene.images].sort((a, b) => this.qualityScore(b) - this.qualityScore(a));
+      });
       scenes.push(...roomScenes);
       sceneIndex += roomScenes.length;
     }
@@ -162,7 +164,7 @@ export class ScenePlanner {
     const { idealSegmentDuration } = timing;
 
     // For rooms with many images, consider splitting into multiple scenes
-    if (images.length > 4 && room !== 'exterior') {
+    if (images.length > 4 && parseRoom(room).type !== 'exterior') {
       // Split into multiple scenes for large rooms
       const scenesNeeded = Math.ceil(images.length / 3);
       const imagesPerScene = Math.ceil(images.length / scenesNeeded);
@@ -201,98 +203,336 @@ export class ScenePlanner {
     return scenes;
   }
 
+  // Between rooms the floor plan connects through a hallway or stairs, add a
+  // short Ken Burns move over the next room's photo so the tour doesn't jump
+  private insertTransitions(scenes: Scene[]): Scene[] {
+    const plan = this.floorPlan;
+    if (!plan) {
+      return scenes;
+    }
+
+    // Connectors with their own photos are already scenes
+    const photographed = new Set(scenes.map(scene => plan.resolve(scene.room)?.id));
+    const result: Scene[] = [];
+
+    scenes.forEach((scene, index) => {
+      const previous = scenes[index - 1];
+      const from = previous && plan.resolve(previous.room);
+      const to = plan.resolve(scene.room);
+      if (previous && from && to && from.id !== to.id) {
+        const connectors = plan.connectorsBetween(previous.room, scene.room)
+          .filter(room => !photographed.has(room.id));
+        const floorChange = plan.floorOf(to) - plan.floorOf(from);
+        const transition = floorChange !== 0 || connectors.some(room => room.kind === 'stairs')
+          ? 'stairs'
+          : connectors.length > 0 ? 'hallway' : undefined;
+
+        if (transition) {
+          const roomName = roomSpokenName(scene.room);
+          const description = transition === 'hallway'
+            ? `Down the hall to the ${roomName}`
+            : `${floorChange < 0 ? 'Down' : 'Up'} the stairs to the ${floorChange !== 0 ? this.floorName(plan.floorOf(to)) : roomName}`;
+
+          result.push({
+            id: `${transition}_to_${scene.id}`,
+            room: transition,
+            images: [scene.images[0]],
+            duration: this.options.transitionDuration,
+            type: 'kenburns',
+            description,
+            focusPoints: ['the way ahead'],
+            transition
+          });
+        }
+      }
+      result.push(scene);
+    });
+
+    return result;
+  }
+
+  private floorName(floor: number): string {
+    if (floor < 0) return floor === -1 ? 'lower level' : `level ${floor}`;
+    const names = ['main floor', 'second floor', 'third floor', 'fourth floor'];
+    return names[floor] || `floor ${floor + 1}`;
+  }
+
   private optimizeScenes(scenes: Scene[], timing: TimingConstraints): Scene[] {
-    const { maxVeoSegments, availableContentTime } = timing;
+    const { maxVeoSegments } = timing;
     
-    // Priority order for Veo segments (most important rooms first)
-    const veoPriority = ['exterior', 'living', 'kitchen', 'bedroom', 'entry', 'bathroom', 'backyard'];
-    
-    // Sort scenes by Veo priority
-    const sortedScenes = [...scenes].sort((a, b) => {
-      const aPriority = veoPriority.indexOf(a.room);
-      const bPriority = veoPriority.indexOf(b.room);
-      return (aPriority === -1 ? 999 : aPriority) - (bPriority === -1 ? 999 : bPriority);
-    });
+    // Sort scenes by Veo priority. Poor photos make poor Veo clips, so they
+    // wait until the good ones have Veo; within a room the better photo goes first.
+    const rank = (scene: Scene) => {
+      const poor = this.qualityScore(scene.images[0]) < this.options.minVeoQuality;
+      return (poor ? 1000 : 0) + getRoomType(scene.room).veoPriority;
+    };
+    const sortedScenes = [...scenes].sort((a, b) =>
+      rank(a) - rank(b) || this.qualityScore(b.images[0]) - this.qualityScore(a.images[0])
+    );
 
     let veoSegmentsUsed = 0;
-    let totalDuration = 0;
 
-    // First pass: assign Veo to highest priority scenes
+    // Assign Veo to the highest priority scenes. Hallway and stair moves
+    // stay Ken Burns.
     for (const scene of sortedScenes) {
-      if (veoSegmentsUsed < maxVeoSegments && this.options.preferVeoOverKenBurns) {
+      if (!scene.transition && veoSegmentsUsed < maxVeoSegments && this.options.preferVeoOverKenBurns) {
         scene.type = 'veo';
         veoSegmentsUsed++;
       } else {
         scene.type = 'kenburns';
-        // Ken Burns segments can be shorter if needed
-        scene.duration = Math.min(scene.duration, 6);
       }
-      totalDuration += scene.duration;
     }
 
-    // Second pass: adjust durations to fit target
-    if (totalDuration !== availableContentTime) {
-      this.adjustSceneDurations(sortedScenes, availableContentTime);
+    // The priority sort only decides which scenes get Veo; the tour keeps its order
+    return [...scenes];
+  }
+
+  // Images that weren't analyzed count as good
+  private qualityScore(image?: ImageInput): number {
+    return image?.quality?.score ?? 1;
+  }
+
+  // Settles every scene's length so the rendered tour (the scenes less their
+  // crossfade overlaps, plus the end slate) lands within tolerance of the
+  // target. When even the longest scenes fall short, spare photos become
+  // extra Ken Burns scenes, as long as each one brings the tour closer.
+  private solveTimeline(scenes: Scene[], targetSeconds: number): { scenes: Scene[]; timing: PlanTiming } {
+    const tourScenes = [...scenes];
+    const miss = (timing: PlanTiming) => Math.abs(timing.renderedSeconds - targetSeconds);
+    let timing = this.fitDurations(tourScenes, targetSeconds);
+    let fillerOvershoots = false;
+
+    while (timing.renderedSeconds < targetSeconds - this.options.tolerance) {
+      const filler = this.addFillerScene(tourScenes);
+      if (!filler) {
+        break;
+      }
+      const withFiller = this.fitDurations(tourScenes, targetSeconds);
+      if (miss(withFiller) >= miss(timing)) {
+        tourScenes.splice(tourScenes.indexOf(filler), 1);
+        fillerOvershoots = true;
+        break;
+      }
+      timing = withFiller;
+    }
+
+    // Fit again for the scenes kept, which also says why a short tour stopped growing
+    return { scenes: tourScenes, timing: this.fitDurations(tourScenes, targetSeconds, fillerOvershoots) };
+  }
+
+  // Veo clips take one of the allowed lengths and move in whole steps, so
+  // they are settled first; the Ken Burns scenes then share what is left
+  // evenly within their bounds.
+  private fitDurations(scenes: Scene[], targetSeconds: number, fillerOvershoots = false): PlanTiming {
+    const { crossfadeDuration, endSlateDuration } = this.options;
+    const bounds = this.sceneBounds(scenes);
+    const durations = scenes.map(() => 0);
+    const veo = scenes.map((_, index) => index).filter(index => bounds[index].lengths);
+    const kenBurns = scenes.map((_, index) => index).filter(index => !bounds[index].lengths);
+
+    // The assembler shortens crossfades to half the shortest segment
+    const shortest = Math.min(...bounds.map(bound => bound.min));
+    const crossfade = scenes.length > 1 ? Math.min(crossfadeDuration, shortest / 2) : 0;
+    const contentTarget = targetSeconds - endSlateDuration + (scenes.length - 1) * crossfade;
+
+    // Veo clips start at the allowed length nearest an even share
+    const flexible = scenes.filter(scene => !scene.transition).length;
+    const fixedTime = kenBurns.filter(index => scenes[index].transition).reduce((sum, index) => sum + bounds[index].min, 0);
+    const share = flexible > 0 ? (contentTarget - fixedTime) / flexible : 0;
+    for (const index of veo) {
+      durations[index] = bounds[index].lengths!.reduce((best, length) =>
+        Math.abs(length - share) < Math.abs(best - share) ? length : best
+      );
+    }
+
+    // Step Veo clips up or down while the Ken Burns scenes can't absorb the rest
+    const kenBurnsMin = kenBurns.reduce((sum, index) => sum + bounds[index].min, 0);
+    const kenBurnsMax = kenBurns.reduce((sum, index) => sum + bounds[index].max, 0);
+    const veoTime = () => veo.reduce((sum, index) => sum + durations[index], 0);
+    const overflow = () => {
+      const rest = contentTarget - veoTime();
+      return rest > kenBurnsMax ? rest - kenBurnsMax : rest < kenBurnsMin ? rest - kenBurnsMin : 0;
+    };
+    for (let miss = overflow(); miss !== 0; miss = overflow()) {
+      const step = miss > 0 ? 1 : -1;
+      const candidates = veo
+        .map(index => {
+          const lengths = bounds[index].lengths!;
+          return { index, next: lengths[lengths.indexOf(durations[index]) + step] };
+        })
+        .filter(candidate => candidate.next !== undefined)
+        // Lengthen the shortest clip, or shorten the longest
+        .sort((a, b) => step * (durations[a.index] - durations[b.index]));
+      if (candidates.length === 0) break;
+
+      const { index, next } = candidates[0];
+      const previous = durations[index];
+      durations[index] = next;
+      if (Math.abs(overflow()) >= Math.abs(miss)) {
+        durations[index] = previous;
+        break;
+      }
     }
 
-    // Third pass: add filler scenes if we're under target
-    if (totalDuration < availableContentTime * 0.95) {
-      this.addFillerScenes(sortedScenes, availableContentTime - totalDuration);
+    if (kenBurns.length > 0) {
+      const rest = Math.max(kenBurnsMin, Math.min(kenBurnsMax, contentTarget - veoTime()));
+      const fill = (level: number) => kenBurns.map(index => Math.max(bounds[index].min, Math.min(bounds[index].max, level)));
+      let low = Math.min(...kenBurns.map(index => bounds[index].min));
+      let high = Math.max(...kenBurns.map(index => bounds[index].max));
+      for (let i = 0; i < 40; i++) {
+        const level = (low + high) / 2;
+        if (fill(level).reduce((sum, duration) => sum + duration, 0) < rest) {
+          low = level;
+        } else {
+          high = level;
+        }
+      }
+      fill(high).forEach((duration, i) => { durations[kenBurns[i]] = roundTenth(duration); });
+
+      // Rounding to tenths leaves a sliver, which one scene with room takes
+      const sliver = roundTenth(rest - kenBurns.reduce((sum, index) => sum + durations[index], 0));
+      const taker = kenBurns.find(index =>
+        durations[index] + sliver >= bounds[index].min && durations[index] + sliver <= bounds[index].max
+      );
+      if (taker !== undefined) {
+        durations[taker] = roundTenth(durations[taker] + sliver);
+      }
     }
 
-    return sortedScenes;
+    scenes.forEach((scene, index) => { scene.duration = durations[index]; });
+    return this.measureTimeline(scenes, bounds, targetSeconds, fillerOvershoots);
   }
 
-  private adjustSceneDurations(scenes: Scene[], targetDuration: number): void {
-    const currentDuration = scenes.reduce((sum, scene) => sum + scene.duration, 0);
-    const adjustmentFactor = targetDuration / currentDuration;
+  // The length range each scene may take: Veo's allowed lengths, Ken Burns
+  // bounds, or a hallway or stair move's fixed length, raised where the
+  // scene's voiceover line needs longer
+  private sceneBounds(scenes: Scene[]): SceneBounds[] {
+    const { veoDurations, kenBurnsMinDuration, kenBurnsMaxDuration, transitionDuration, crossfadeDuration } = this.options;
+    const lengths = [...veoDurations].sort((a, b) => a - b);
+    const lines = this.narrationLines(scenes);
+
+    return scenes.map((scene, index) => {
+      // A line plays until the next scene starts fading in
+      const overlap = index < scenes.length - 1 ? crossfadeDuration : 0;
+      const needed = lines ? TTSGenerator.minimumSlot(lines[index], this.narration?.speed) + overlap : 0;
+      const line = { lineSeconds: needed };
 
-    for (const scene of scenes) {
-      const newDuration = scene.duration * adjustmentFactor;
-      
-      // Respect min/max bounds
       if (scene.type === 'veo') {
-        scene.duration = Math.max(4, Math.min(8, newDuration));
-      } else {
-        scene.duration = Math.max(3, Math.min(10, newDuration));
+        const fitting = lengths.filter(length => length >= needed);
+        const allowed = fitting.length > 0 ? fitting : lengths.slice(-1);
+        return { ...line, lengths: allowed, min: allowed[0], max: allowed[allowed.length - 1] };
       }
+      const min = Math.max(scene.transition ? transitionDuration : kenBurnsMinDuration, Math.min(needed, kenBurnsMaxDuration));
+      return { ...line, min, max: scene.transition ? min : Math.max(min, kenBurnsMaxDuration) };
+    });
+  }
+
+  // Generated narration has one line per scene; a custom script is split
+  // across the scenes at render time, so it doesn't hold any one scene up
+  private narrationLines(scenes: Scene[]): string[] | undefined {
+    if (!this.narration || this.narration.script) {
+      return undefined;
     }
+    return generateSceneNarration(scenes, this.narration.listing);
   }
 
-  private addFillerScenes(scenes: Scene[], additionalTime: number): void {
-    // Add Ken Burns scenes from existing images to fill time
-    const scenesWithMultipleImages = scenes.filter(s => s.images.length > 1);
-    
-    if (scenesWithMultipleImages.length > 0 && additionalTime > 3) {
-      const sourceScene = scenesWithMultipleImages[0];
-      const fillerImage = sourceScene.images[sourceScene.images.length - 1];
-      
-      const fillerScene: Scene = {
-        id: `${sourceScene.id}_filler`,
-        room: sourceScene.room,
-        images: [fillerImage],
-        duration: Math.min(additionalTime, 6),
-        type: 'kenburns',
-        description: `Additional view of ${sourceScene.room}`,
-        focusPoints: ['architectural details', 'ambiance']
-      };
-      
-      scenes.push(fillerScene);
+  private measureTimeline(scenes: Scene[], bounds: SceneBounds[], targetSeconds: number, fillerOvershoots: boolean): PlanTiming {
+    const { crossfadeDuration, endSlateDuration, tolerance, veoDurations, kenBurnsMinDuration, kenBurnsMaxDuration } = this.options;
+    const rendered = (durations: number[]) =>
+      VideoAssembler.calculateTimeline(durations, crossfadeDuration).totalDuration + endSlateDuration;
+    const timeline = VideoAssembler.calculateTimeline(scenes.map(scene => scene.duration), crossfadeDuration);
+    const renderedSeconds = roundTenth(timeline.totalDuration + endSlateDuration);
+    const miss = renderedSeconds - targetSeconds;
+
+    const reasons: string[] = [];
+    if (miss > tolerance) {
+      const shortest = rendered(bounds.map(bound => bound.min));
+      reasons.push(shortest > targetSeconds + tolerance
+        ? `${scenes.length} scenes run at least ${shortest.toFixed(1)}s even at their shortest ` +
+          `(Veo ${Math.min(...veoDurations)}s, Ken Burns ${kenBurnsMinDuration}s` +
+          `${this.narration ? ', or as long as their voiceover line' : ''}` +
+          `${endSlateDuration > 0 ? `, plus a ${endSlateDuration}s end slate` : ''}); raise targetSeconds or use fewer photos`
+        : `Veo clips only come in ${veoDurations.join('/')}s lengths and the Ken Burns scenes can't take up the remaining ${miss.toFixed(1)}s`);
+    } else if (miss < -tolerance) {
+      const longest = rendered(bounds.map(bound => bound.max));
+      reasons.push(longest < targetSeconds - tolerance
+        ? `${scenes.length} scenes run at most ${longest.toFixed(1)}s even at their longest ` +
+          `(Veo ${Math.max(...veoDurations)}s, Ken Burns ${kenBurnsMaxDuration}s) and ` +
+          (fillerOvershoots
+            ? 'another scene from a spare photo would miss the target by more; lower targetSeconds'
+            : 'no spare photos are left for more scenes; add photos or lower targetSeconds')
+        : `Veo clips only come in ${veoDurations.join('/')}s lengths and the Ken Burns scenes can't make up the missing ${(-miss).toFixed(1)}s`);
     }
+
+    const warnings: string[] = [];
+    scenes.forEach((scene, index) => {
+      if (bounds[index].lineSeconds > scene.duration) {
+        warnings.push(`The ${scene.id} voiceover line needs about ${bounds[index].lineSeconds.toFixed(1)}s, ` +
+          `longer than its ${scene.duration}s scene; the rest spills into the next scene`);
+      }
+    });
+    const script = this.narration?.script;
+    if (script && TTSGenerator.minimumSlot(script, this.narration?.speed) > timeline.totalDuration) {
+      warnings.push(`The voiceover script needs about ${TTSGenerator.minimumSlot(script, this.narration?.speed).toFixed(1)}s, ` +
+        `longer than the ${timeline.totalDuration.toFixed(1)}s tour; the end of it will be cut`);
+    }
+
+    return {
+      targetSeconds,
+      renderedSeconds,
+      tolerance,
+      withinTolerance: Math.abs(miss) <= tolerance,
+      crossfadeSeconds: timeline.crossfadeDuration,
+      endSlateSeconds: endSlateDuration,
+      reasons,
+      warnings
+    };
   }
 
-  private generateSceneDescription(room: string, sceneIndex: number, totalScenes: number): string {
-    const descriptions: Record<string, string[]> = {
-      exterior: ['Stunning curb appeal and architectural details'],
-      entry: ['Welcoming entrance with elegant details'],
-      living: ['Spacious living area with natural light', 'Comfortable living space with great flow'],
-      kitchen: ['Chef\'s kitchen with premium finishes', 'Kitchen island and cooking area'],
-      bedroom: ['Peaceful bedroom retreat', 'Master suite with ample space'],
-      bathroom: ['Spa-like bathroom with luxury finishes'],
-      backyard: ['Private outdoor entertainment space']
+  // Ken Burns over a room's next unshown photo, right after the room. Only a
+  // scene's first image is rendered, so the rest are spare. The room's line
+  // was just spoken, so the filler is silent rather than repeating it.
+  private addFillerScene(scenes: Scene[]): Scene | undefined {
+    const shown = new Set(scenes.map(scene => scene.images[0]));
+    let source: Scene | undefined;
+    let spare: ImageInput[] = [];
+    for (const scene of scenes) {
+      const unshown = scene.transition ? [] : scene.images.filter(image => !shown.has(image));
+      if (unshown.length > spare.length) {
+        source = scene;
+        spare = unshown;
+      }
+    }
+    if (!source) {
+      return undefined;
+    }
+
+    let id = `${source.id}_filler`;
+    for (let count = 2; scenes.some(scene => scene.id === id); count++) {
+      id = `${source.id}_filler${count}`;
+    }
+
+    // Keep fillers next to their source room so the tour flow is preserved
+    let position = scenes.indexOf(source) + 1;
+    while (scenes[position]?.id.startsWith(`${source.id}_filler`)) {
+      position++;
+    }
+    const filler: Scene = {
+      id,
+      room: source.room,
+      images: [spare[0]],
+      duration: this.options.kenBurnsMinDuration,
+      type: 'kenburns',
+      description: `Additional view of the ${roomSpokenName(source.room)}`,
+      focusPoints: ['architectural details', 'ambiance'],
+      narration: ''
     };
+    scenes.splice(position, 0, filler);
+    return filler;
+  }
 
-    const roomDescriptions = descriptions[room] || ['Beautiful space with attention to detail'];
+  private generateSceneDescription(room: string, sceneIndex: number, totalScenes: number): string {
+    const roomDescriptions = getRoomType(room).descriptions;
     
     if (totalScenes === 1) {
       return roomDescriptions[0];
@@ -302,38 +542,11 @@ export class ScenePlanner {
   }
 
   private generateFocusPoints(room: string, images: ImageInput[], sceneIndex: number): string[] {
-    const focusPointsByRoom: Record<string, string[][]> = {
-      exterior: [
-        ['architectural facade', 'landscaping', 'entrance appeal']
-      ],
-      entry: [
-        ['entryway details', 'lighting fixtures', 'flooring transition']
-      ],
-      living: [
-        ['seating arrangement', 'natural light', 'room flow'],
-        ['fireplace area', 'built-ins', 'ceiling details']
-      ],
-      kitchen: [
-        ['island centerpiece', 'appliance suite', 'countertop materials'],
-        ['cabinet details', 'backsplash design', 'lighting features']
-      ],
-      bedroom: [
-        ['bed placement', 'window views', 'closet access'],
-        ['sitting area', 'built-in features', 'natural light']
-      ],
-      bathroom: [
-        ['vanity details', 'shower/tub area', 'fixture quality']
-      ],
-      backyard: [
-        ['outdoor living space', 'landscaping features', 'privacy elements']
-      ]
-    };
-
-    const roomFocus = focusPointsByRoom[room] || [['key features', 'design details', 'spatial flow']];
+    const roomFocus = getRoomType(room).focusPoints;
     return roomFocus[sceneIndex % roomFocus.length];
   }
 
-  private buildScenePlan(scenes: Scene[]): ScenePlan {
+  private buildScenePlan(scenes: Scene[], timing?: PlanTiming): ScenePlan {
     const veoSegments = scenes.filter(s => s.type === 'veo').length;
     const kenBurnsSegments = scenes.filter(s => s.type === 'kenburns').length;
     const totalDuration = scenes.reduce((sum, scene) => sum + scene.duration, 0);
@@ -342,7 +555,8 @@ export class ScenePlanner {
       scenes,
       totalDuration,
       veoSegments,
-      kenBurnsSegments
+      kenBurnsSegments,
+      timing
     };
   }
 
@@ -353,11 +567,17 @@ export class ScenePlanner {
       `- Total Duration: ${plan.totalDuration.toFixed(1)}s`,
       `- Veo Segments: ${plan.veoSegments}`,
       `- Ken Burns Segments: ${plan.kenBurnsSegments}`,
-      `- Total Scenes: ${plan.scenes.length}`,
-      ``,
-      `Scene Breakdown:`
+      `- Total Scenes: ${plan.scenes.length}`
     ];
 
+    if (plan.timing) {
+      const { renderedSeconds, targetSeconds, tolerance, reasons } = plan.timing;
+      lines.push(`- Rendered Length: ${renderedSeconds.toFixed(1)}s (target ${targetSeconds}s ±${tolerance}s)`);
+      reasons.forEach(reason => lines.push(`  ${reason}`));
+    }
+
+    lines.push(``, `Scene Breakdown:`);
+
     for (const scene of plan.scenes) {
       lines.push(`  ${scene.id}: ${scene.duration.toFixed(1)}s (${scene.type}) - ${scene.images.length} images`);
       if (scene.description) {
@@ -369,6 +589,24 @@ export class ScenePlanner {
   }
 }
 
+interface RoomGroup {
+  room: string;
+  images: ImageInput[];
+}
+
+interface SceneBounds {
+  min: number;
+  max: number;
+  // Veo's allowed lengths; Ken Burns takes anything from min to max
+  lengths?: number[];
+  // What the scene's voiceover line needs, if it has one
+  lineSeconds: number;
+}
+
+function roundTenth(seconds: number): number {
+  return Math.round(seconds * 10) / 10;
+}
+
 interface TimingConstraints {
   targetDuration: number;
   availableContentTime: number;
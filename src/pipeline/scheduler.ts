@@ -0,0 +1,39 @@
+// Run `worker` over `items` with at most `limit` calls in flight and return
+// the results in input order. After the first failure no new items are
+// started; items already running are allowed to finish (their work is
+// usually paid for) and then the first error is rethrown.
+//
+// Pools that share a `failure` controller stop together: a failure in one
+// aborts it with the error, and the others stop starting items and rethrow it.
+export async function runWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  worker: (item: T, index: number) => Promise<R>,
+  failure: AbortController = new AbortController()
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  const maxInFlight = Math.max(1, Math.floor(limit));
+  let nextIndex = 0;
+
+  const runLane = async (): Promise<void> => {
+    while (!failure.signal.aborted && nextIndex < items.length) {
+      const index = nextIndex++;
+      try {
+        results[index] = await worker(items[index], index);
+      } catch (error) {
+        if (!failure.signal.aborted) {
+          failure.abort(error);
+        }
+      }
+    }
+  };
+
+  const lanes = Array.from({ length: Math.min(maxInFlight, items.length) }, () => runLane());
+  await Promise.all(lanes);
+
+  if (failure.signal.aborted) {
+    throw failure.signal.reason;
+  }
+
+  return results;
+}
@@ -1,7 +1,10 @@
-import { TextToSpeechClient, protos } from '@google-cloud/text-to-speech';
+import { TextToSpeechClient, protos, v1beta1 } from '@google-cloud/text-to-speech';
+import ffmpeg from 'fluent-ffmpeg';
 import fs from 'fs';
 import path from 'path';
 import { TTSParams, VoiceoverConfig, PipelineContext } from '../types.js';
+import { RenderCache } from './cache.js';
+import { getRoomType, renderRoomTemplate } from './room-types.js';
 
 export interface TTSOptions {
   languageCode?: string;
@@ -13,8 +16,42 @@ export interface TTSOptions {
   sampleRateHertz?: number;
 }
 
+export interface SentenceTiming {
+  text: string;
+  // Seconds from the start of the audio it belongs to
+  start: number;
+}
+
+export interface RoomTiming {
+  room: string;
+  startTime: number;
+  duration: number;
+  // Narration for this slot; when every timing has one the script isn't split
+  text?: string;
+}
+
+export interface TimedVoiceoverSegment {
+  room: string;
+  text: string;
+  audioPath: string;
+  // Where the line starts in the final track and how long it plays after fitting
+  startTime: number;
+  duration: number;
+  tempo: number;
+  // Sentence starts on the final track, for captions
+  sentences: SentenceTiming[];
+}
+
 export class TTSGenerator {
+  // Faster than this starts to sound rushed
+  private static readonly MAX_TEMPO = 1.25;
+  // Breathing room between consecutive lines, in seconds
+  private static readonly LINE_GAP = 0.3;
+  // Typical TTS pace (~150 WPM), for sizing lines before they are synthesized
+  private static readonly WORDS_PER_SECOND = 2.5;
+
   private client: TextToSpeechClient;
+  private betaClient?: v1beta1.TextToSpeechClient;
   private context: PipelineContext;
   private options: Required<TTSOptions>;
 
@@ -33,10 +70,77 @@ export class TTSGenerator {
   }
 
   async synthesizeVoiceover(params: TTSParams): Promise<string> {
+    const { outputPath } = await this.synthesize(params, false);
+    return outputPath;
+  }
+
+  // Same as synthesizeVoiceover, but also reports when each sentence starts,
+  // using SSML marks and TTS timepoints, for captions
+  async synthesizeWithSentenceTimings(params: TTSParams): Promise<{
+    outputPath: string;
+    sentences: SentenceTiming[];
+  }> {
+    const { outputPath, timepoints } = await this.synthesize(params, true);
+    const sentences = this.splitSentences(params.text);
+
+    // Timepoints can be missing (older cache entries, voices without mark
+    // support); fall back to spreading sentences by length over the audio
+    if (!timepoints || timepoints.length < sentences.length) {
+      const duration = await this.getAudioDuration(outputPath);
+      const totalChars = sentences.reduce((sum, sentence) => sum + sentence.length, 0) || 1;
+      let elapsed = 0;
+      return {
+        outputPath,
+        sentences: sentences.map(text => {
+          const start = elapsed;
+          elapsed += (text.length / totalChars) * duration;
+          return { text, start };
+        })
+      };
+    }
+
+    return {
+      outputPath,
+      sentences: sentences.map((text, index) => ({
+        text,
+        start: timepoints.find(t => t.markName === `s${index}`)?.timeSeconds ?? 0
+      }))
+    };
+  }
+
+  private async synthesize(
+    params: TTSParams,
+    markSentences: boolean
+  ): Promise<{ outputPath: string; timepoints?: Array<{ markName: string; timeSeconds: number }> }> {
     this.context.onProgress?.('tts', 0, 'Preparing text for synthesis');
 
+    const voice = params.voice || this.options.defaultVoice;
+    const speakingRate = params.speed || this.options.speakingRate;
+
+    // Reuse a previous synthesis of the same text, voice and audio settings
+    const cacheKey = RenderCache.hashTTSInputs({
+      text: params.text,
+      voice,
+      speed: speakingRate,
+      audioConfig: {
+        languageCode: this.options.languageCode,
+        audioEncoding: this.options.audioEncoding,
+        pitch: this.options.pitch,
+        volumeGainDb: this.options.volumeGainDb,
+        sampleRateHertz: this.options.sampleRateHertz,
+        ...(markSentences && { marks: 'sentences' })
+      }
+    });
+    const cached = this.context.cache?.get(cacheKey);
+    if (cached) {
+      await fs.promises.mkdir(path.dirname(params.outputPath), { recursive: true });
+      await fs.promises.copyFile(cached.outputPath, params.outputPath);
+      this.context.onProgress?.('tts', 100, 'Reused cached voice synthesis');
+      return { outputPath: params.outputPath, timepoints: cached.metadata?.timepoints };
+    }
+
     // Process text into SSML for better pacing
-    const ssml = this.convertToSSML(params.text, params.speed);
+    const ssml = this.convertToSSML(params.text, params.speed, markSentences);
 
     this.context.onProgress?.('tts', 25, 'Synthesizing speech');
 
@@ -45,11 +149,11 @@ export class TTSGenerator {
       input: { ssml },
       voice: {
         languageCode: this.options.languageCode,
-        name: params.voice || this.options.defaultVoice
+        name: voice
       },
       audioConfig: {
         audioEncoding: this.options.audioEncoding as any,
-        speakingRate: params.speed || this.options.speakingRate,
+        speakingRate,
         pitch: this.options.pitch,
         volumeGainDb: this.options.volumeGainDb,
         sampleRateHertz: this.options.sampleRateHertz
@@ -57,8 +161,24 @@ export class TTSGenerator {
     };
 
     try {
-      // Call TTS API
-      const [response] = await this.client.synthesizeSpeech(request);
+      // Call TTS API; timepoints are only offered by the v1beta1 surface
+      let audioContent: string | Uint8Array | null | undefined;
+      let timepoints: Array<{ markName: string; timeSeconds: number }> | undefined;
+      if (markSentences) {
+        this.betaClient ??= new v1beta1.TextToSpeechClient();
+        const [response] = await this.betaClient.synthesizeSpeech({
+          ...(request as protos.google.cloud.texttospeech.v1beta1.ISynthesizeSpeechRequest),
+          enableTimePointing: [protos.google.cloud.texttospeech.v1beta1.SynthesizeSpeechRequest.TimepointType.SSML_MARK]
+        });
+        audioContent = response.audioContent;
+        timepoints = (response.timepoints || []).map(t => ({
+          markName: t.markName || '',
+          timeSeconds: t.timeSeconds || 0
+        }));
+      } else {
+        const [response] = await this.client.synthesizeSpeech(request);
+        audioContent = response.audioContent;
+      }
 
       this.context.onProgress?.('tts', 75, 'Saving audio file');
 
@@ -66,27 +186,44 @@ export class TTSGenerator {
       await fs.promises.mkdir(path.dirname(params.outputPath), { recursive: true });
 
       // Save audio content
-      if (response.audioContent) {
-        await fs.promises.writeFile(params.outputPath, response.audioContent);
+      if (audioContent) {
+        await fs.promises.writeFile(params.outputPath, audioContent);
       } else {
         throw new Error('No audio content in TTS response');
       }
 
+      this.context.cache?.set(cacheKey, {
+        hash: '',
+        inputHash: cacheKey,
+        outputPath: params.outputPath,
+        lastUsed: new Date(),
+        metadata: { voice, timepoints }
+      });
+
       this.context.onProgress?.('tts', 100, 'Voice synthesis complete');
 
-      return params.outputPath;
+      return { outputPath: params.outputPath, timepoints };
     } catch (error) {
       throw new Error(`TTS synthesis failed: ${error}`);
     }
   }
 
-  private convertToSSML(text: string, speed: number = 1.0): string {
-    // Clean up text
-    let processedText = text.trim();
+  private convertToSSML(text: string, speed: number = 1.0, markSentences = false): string {
+    // Clean up text; listing copy such as "Smith & Sons" or "<2 acres" has
+    // to be escaped before any tags go in
+    let processedText = TTSGenerator.escapeXml(text.trim());
 
     // Add proper pauses for natural speech pacing
     processedText = this.addNaturalPauses(processedText);
 
+    // Sentence breaks are the 600ms pauses; a mark before each sentence
+    // lines up with splitSentences
+    if (markSentences) {
+      let index = 1;
+      processedText = '<mark name="s0"/>' +
+        processedText.replace(/<break time="600ms"\/>/g, match => `${match}<mark name="s${index++}"/>`);
+    }
+
     // Build SSML with speak tags and rate adjustment
     let ssml = `<speak>`;
     
@@ -115,56 +252,105 @@ export class TTSGenerator {
     text = text.replace(/,\s+/g, ',<break time="300ms"/>');
     
     // Add breaks before "Let's" or "Now" for tour transitions
-    text = text.replace(/\b(Let's|Now|Next|Here's)\b/g, '<break time="400ms"/>$1');
+    text = text.replace(/\b(Let&apos;s|Now|Next|Here&apos;s)\b/g, '<break time="400ms"/>$1');
     
     // Add emphasis on key real estate terms
-    text = text.replace(/\b(kitchen|bedroom|bathroom|living room|backyard|master suite|chef's|spacious|luxury|premium|exceptional)\b/gi, 
+    text = text.replace(/\b(kitchen|bedroom|bathroom|living room|backyard|master suite|chef&apos;s|spacious|luxury|premium|exceptional)\b/gi, 
       '<emphasis level="moderate">$1</emphasis>');
 
     return text;
   }
 
-  // Generate voiceover from script with room-specific timing
+  private static escapeXml(text: string): string {
+    return text
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      .replace(/'/g, '&apos;');
+  }
+
+  // Estimated shortest scene slot a line fits in, sped up as far as
+  // generateVoiceoverWithTiming will take it. Empty lines need no time.
+  static minimumSlot(text: string, speed: number = 1.0): number {
+    const words = text.split(/\s+/).filter(Boolean).length;
+    if (words === 0) {
+      return 0;
+    }
+    return words / (TTSGenerator.WORDS_PER_SECOND * speed) / TTSGenerator.MAX_TEMPO + TTSGenerator.LINE_GAP;
+  }
+
+  // Generate voiceover from script with room-specific timing. Each line is
+  // synthesized separately, squeezed (or left short) to fit its scene, and
+  // placed at the scene's start time in one track. Timings that carry their
+  // own text are used as-is; otherwise the script is split across them.
   async generateVoiceoverWithTiming(
     script: string,
-    roomTimings: Array<{ room: string; startTime: number; duration: number }>,
+    roomTimings: RoomTiming[],
     outputPath: string,
     voice?: string,
-    speed?: number
-  ): Promise<{ audioPath: string; segments: Array<{ room: string; audioPath: string; duration: number }> }> {
+    speed?: number,
+    totalDuration?: number
+  ): Promise<{ audioPath: string; segments: TimedVoiceoverSegment[] }> {
     
     this.context.onProgress?.('tts', 0, 'Splitting script by room timing');
 
-    // Split script into room segments
-    const scriptSegments = this.splitScriptByRooms(script, roomTimings);
-    const audioSegments: Array<{ room: string; audioPath: string; duration: number }> = [];
+    // Split script into room segments; scenes given an empty line stay silent
+    const scriptSegments = roomTimings.every(timing => timing.text !== undefined)
+      ? roomTimings.map(timing => ({
+          room: timing.room,
+          text: timing.text!,
+          startTime: timing.startTime,
+          targetDuration: timing.duration
+        })).filter(segment => segment.text.trim())
+      : this.splitScriptByRooms(script, roomTimings);
+    const audioSegments: TimedVoiceoverSegment[] = [];
+    const extension = path.extname(outputPath);
+    const basePath = extension ? outputPath.slice(0, -extension.length) : outputPath;
+    let previousEnd = 0;
 
     // Generate audio for each segment
     for (let i = 0; i < scriptSegments.length; i++) {
       const segment = scriptSegments[i];
-      const segmentPath = outputPath.replace('.mp3', `_${segment.room}_${i}.mp3`);
+      const segmentPath = `${basePath}_${segment.room}_${i}${extension}`;
       
       this.context.onProgress?.('tts', (i / scriptSegments.length) * 80, 
         `Synthesizing ${segment.room} segment`);
 
-      await this.synthesizeVoiceover({
+      const { sentences } = await this.synthesizeWithSentenceTimings({
         text: segment.text,
         voice: voice || this.options.defaultVoice,
         speed: speed || this.options.speakingRate,
         outputPath: segmentPath
       });
 
+      // Speed up lines that overrun their scene, within what still sounds natural;
+      // anything left over spills into the next scene rather than overlapping it
+      const spokenDuration = await this.getAudioDuration(segmentPath);
+      const slot = Math.max(0.5, segment.targetDuration - TTSGenerator.LINE_GAP);
+      const tempo = Math.min(TTSGenerator.MAX_TEMPO, Math.max(1, spokenDuration / slot));
+      const startTime = Math.max(segment.startTime, previousEnd > 0 ? previousEnd + TTSGenerator.LINE_GAP : 0);
+      const duration = spokenDuration / tempo;
+      previousEnd = startTime + duration;
+
       audioSegments.push({
         room: segment.room,
+        text: segment.text,
         audioPath: segmentPath,
-        duration: segment.targetDuration
+        startTime,
+        duration,
+        tempo,
+        sentences: sentences.map(sentence => ({
+          text: sentence.text,
+          start: startTime + sentence.start / tempo
+        }))
       });
     }
 
     this.context.onProgress?.('tts', 90, 'Combining audio segments');
 
     // Combine all segments into final audio file
-    await this.combineAudioSegments(audioSegments.map(s => s.audioPath), outputPath);
+    await this.combineAudioSegments(audioSegments, outputPath, totalDuration);
 
     this.context.onProgress?.('tts', 100, 'Voiceover generation complete');
 
@@ -174,68 +360,102 @@ export class TTSGenerator {
     };
   }
 
+  // The script is spread over every scene in proportion to its length, and
+  // each sentence goes to the scene its first word falls in. A scene is never
+  // skipped while sentences remain, so one long sentence can't leave the
+  // scenes after it silent or pile the rest of the script onto one scene.
   private splitScriptByRooms(
     script: string, 
-    roomTimings: Array<{ room: string; startTime: number; duration: number }>
-  ): Array<{ room: string; text: string; targetDuration: number }> {
+    roomTimings: RoomTiming[]
+  ): Array<{ room: string; text: string; startTime: number; targetDuration: number }> {
     
     // Split script into sentences
     const sentences = script.split(/(?<=[.!?])\s+/).filter(s => s.trim().length > 0);
-    
-    // Estimate words per minute (typical TTS: ~150-180 WPM)
-    const wordsPerSecond = 2.5;
-    
-    const segments: Array<{ room: string; text: string; targetDuration: number }> = [];
-    
-    for (const timing of roomTimings) {
-      const targetWords = Math.floor(timing.duration * wordsPerSecond);
-      
-      // Find sentences that fit this timing
-      let segmentText = '';
-      let wordCount = 0;
-      
-      while (sentences.length > 0 && wordCount < targetWords) {
-        const sentence = sentences.shift()!;
-        const sentenceWords = sentence.split(/\s+/).length;
-        
-        if (wordCount + sentenceWords <= targetWords * 1.2) { // Allow 20% overage
-          segmentText += (segmentText ? ' ' : '') + sentence;
-          wordCount += sentenceWords;
-        } else {
-          // Put sentence back and break
-          sentences.unshift(sentence);
-          break;
-        }
-      }
-      
-      if (segmentText.trim()) {
-        segments.push({
-          room: timing.room,
-          text: segmentText.trim(),
-          targetDuration: timing.duration
-        });
-      }
-    }
-    
-    // Handle any remaining sentences
-    if (sentences.length > 0) {
-      const lastSegment = segments[segments.length - 1];
-      if (lastSegment) {
-        lastSegment.text += ' ' + sentences.join(' ');
+    const countWords = (text: string) => text.split(/\s+/).filter(Boolean).length;
+
+    const budgets = roomTimings.map(timing => Math.max(1, timing.duration * TTSGenerator.WORDS_PER_SECOND));
+    const totalWords = sentences.reduce((sum, sentence) => sum + countWords(sentence), 0);
+    const scale = totalWords / budgets.reduce((sum, budget) => sum + budget, 0);
+    let budgetEnd = 0;
+    const slotEnds = budgets.map(budget => (budgetEnd += budget * scale));
+
+    const texts: string[][] = roomTimings.map(() => []);
+    let slot = 0;
+    let position = 0;
+    for (const sentence of sentences) {
+      let target = slot;
+      while (target < slotEnds.length - 1 && position >= slotEnds[target]) {
+        target++;
       }
+      // Advance at most one scene per sentence, and never past a scene that is still empty
+      slot = texts[slot].length === 0 ? slot : Math.min(target, slot + 1);
+      texts[slot].push(sentence.trim());
+      position += countWords(sentence);
     }
-    
-    return segments;
+
+    return roomTimings
+      .map((timing, index) => ({
+        room: timing.room,
+        text: texts[index].join(' '),
+        startTime: timing.startTime,
+        targetDuration: timing.duration
+      }))
+      .filter(segment => segment.text);
   }
 
-  private async combineAudioSegments(segmentPaths: string[], outputPath: string): Promise<void> {
-    // This would use ffmpeg to combine audio segments
-    // For now, we'll use the first segment as the combined output
-    // In a full implementation, you'd concatenate all segments with appropriate spacing
-    
-    if (segmentPaths.length > 0) {
-      await fs.promises.copyFile(segmentPaths[0], outputPath);
+  // Lay every line onto one track at its start time, silence in between
+  private async combineAudioSegments(
+    segments: TimedVoiceoverSegment[],
+    outputPath: string,
+    totalDuration?: number
+  ): Promise<void> {
+    if (segments.length === 0) {
+      throw new Error('No voiceover segments to combine');
     }
+
+    const filters = segments.map((segment, index) => {
+      const delayMs = Math.round(segment.startTime * 1000);
+      const chain = ['aformat=sample_rates=48000:channel_layouts=mono'];
+      if (segment.tempo > 1) {
+        chain.push(`atempo=${segment.tempo.toFixed(3)}`);
+      }
+      chain.push(`adelay=${delayMs}|${delayMs}`);
+      return `[${index}:a]${chain.join(',')}[line${index}]`;
+    });
+
+    const labels = segments.map((_, index) => `[line${index}]`).join('');
+    const padding = totalDuration ? `,apad=whole_dur=${totalDuration.toFixed(3)}` : '';
+    filters.push(segments.length === 1
+      ? `${labels}anull${padding}[voiceover]`
+      : `${labels}amix=inputs=${segments.length}:duration=longest:normalize=0${padding}[voiceover]`);
+
+    await new Promise<void>((resolve, reject) => {
+      const command = ffmpeg();
+      segments.forEach(segment => command.input(segment.audioPath));
+
+      command
+        .complexFilter(filters, 'voiceover')
+        .on('end', () => resolve())
+        .on('error', (error) => reject(error))
+        .save(outputPath);
+    });
+  }
+
+  // Must split exactly where addNaturalPauses inserts sentence breaks
+  private splitSentences(text: string): string[] {
+    return text.trim().split(/(?<=[.!?])\s+/).filter(s => s.trim().length > 0);
+  }
+
+  private getAudioDuration(audioPath: string): Promise<number> {
+    return new Promise((resolve, reject) => {
+      ffmpeg.ffprobe(audioPath, (error, metadata) => {
+        if (error) {
+          reject(error);
+          return;
+        }
+        resolve(metadata.format.duration || 0);
+      });
+    });
   }
 
   // Generate script from listing data and room information
@@ -350,38 +570,7 @@ export class TTSGenerator {
   }
 
   private getRoomNarration(room: string, style: 'professional' | 'warm' | 'luxury'): string {
-    const narrations = {
-      professional: {
-        exterior: 'The impressive exterior showcases excellent curb appeal and quality construction.',
-        entry: 'Step into the welcoming entryway that sets the tone for the entire home.',
-        living: 'The spacious living area features abundant natural light and open flow.',
-        kitchen: 'The well-appointed kitchen offers modern amenities and efficient layout.',
-        bedroom: 'This comfortable bedroom provides peaceful retreat space.',
-        bathroom: 'The bathroom features quality fixtures and thoughtful design.',
-        backyard: 'The private outdoor space offers excellent potential for relaxation and entertainment.'
-      },
-      warm: {
-        exterior: 'What a beautiful first impression this home makes with its charming exterior.',
-        entry: 'Come on in! This lovely entryway feels so welcoming and bright.',
-        living: 'This is where you\'ll spend most of your time - such a cozy and bright living space.',
-        kitchen: 'The heart of the home! This kitchen is perfect for cooking and gathering.',
-        bedroom: 'This peaceful bedroom is your personal sanctuary for rest and relaxation.',
-        bathroom: 'A spa-like bathroom where you can unwind after a long day.',
-        backyard: 'Step outside to your own private oasis - perfect for morning coffee or evening relaxation.'
-      },
-      luxury: {
-        exterior: 'An impressive facade that commands attention with its architectural sophistication.',
-        entry: 'Enter through this grand foyer that epitomizes elegance and refined taste.',
-        living: 'This magnificent living space exemplifies luxury with its soaring ceilings and premium finishes.',
-        kitchen: 'A culinary masterpiece featuring top-of-the-line appliances and exquisite craftsmanship.',
-        bedroom: 'This sumptuous bedroom suite offers the ultimate in comfort and tranquility.',
-        bathroom: 'An opulent spa-inspired bathroom with luxury appointments throughout.',
-        backyard: 'Your private estate grounds provide an exclusive retreat for sophisticated entertaining.'
-      }
-    };
-
-    return narrations[style][room as keyof typeof narrations.professional] || 
-           `This ${room} showcases exceptional attention to detail.`;
+    return renderRoomTemplate(getRoomType(room).narration[style], room);
   }
 
   // List available voices
@@ -5,11 +5,17 @@ import path from 'path';
 import fs from 'fs';
 import ffmpeg from 'fluent-ffmpeg';
 import ffmpegPath from 'ffmpeg-static';
-import { VeoParams, VeoResult, PipelineContext } from '../types.js';
+import { VeoParams, VeoResult, PipelineContext, VideoGenerator, GenerateClipOptions } from '../types.js';
 
 // Set ffmpeg path
 ffmpeg.setFfmpegPath(ffmpegPath!);
 
+// Quota is per project and region, not per client, so every VeoClient talking
+// to the same API base waits out the same backoff window
+const quotaBackoffUntil = new Map<string, number>();
+
+const MAX_QUOTA_RETRIES = 6;
+
 interface VeoOperation {
   name: string;
   done?: boolean;
@@ -35,28 +41,84 @@ interface VeoOperation {
   };
 }
 
-export class VeoClient {
+// Veo only accepts 4, 6 or 8 second clips; snap to the closest one
+export function toVeoDuration(seconds: number): 4 | 6 | 8 {
+  const allowed: Array<4 | 6 | 8> = [4, 6, 8];
+  return allowed.reduce((best, candidate) =>
+    Math.abs(candidate - seconds) < Math.abs(best - seconds) ? candidate : best
+  );
+}
+
+// Over quota: HTTP 429, or RESOURCE_EXHAUSTED in the error body
+export function isQuotaError(status: number, body: string): boolean {
+  return status === 429 || body.includes('RESOURCE_EXHAUSTED');
+}
+
+// Wait before the retry-th quota retry: doubling from 5s up to 2 minutes,
+// plus up to a second of jitter so parallel clients don't retry in step
+export function quotaBackoffDelay(retry: number): number {
+  return Math.min(5000 * Math.pow(2, retry), 120000) + Math.random() * 1000;
+}
+
+export class VeoClient implements VideoGenerator {
   private auth: GoogleAuth;
   private storage: Storage;
   private context: PipelineContext;
+  private apiEndpoint?: string;
 
   constructor(context: PipelineContext) {
     this.context = context;
+    this.apiEndpoint = context.config.veo?.apiEndpoint?.replace(/\/+$/, '');
     this.auth = new GoogleAuth({
       scopes: ['https://www.googleapis.com/auth/cloud-platform']
     });
-    this.storage = new Storage();
+    // A custom endpoint (e.g. FakeVertexServer) also serves the GCS JSON API
+    this.storage = this.apiEndpoint
+      ? new Storage({ apiEndpoint: this.apiEndpoint, projectId: context.config.veo.projectId })
+      : new Storage();
   }
 
-  async generateClip(params: VeoParams): Promise<VeoResult> {
+  async generateClip(params: VeoParams, options: GenerateClipOptions = {}): Promise<VeoResult> {
     this.context.onProgress?.('veo', 0, `Generating Veo clip for ${params.imageGcsUri}`);
 
     // Get auth token
-    const client = await this.auth.getClient();
-    const token = await (client as any).getAccessToken();
+    const token = await this.getAccessToken();
+
+    let result: VeoOperation | undefined;
+    if (options.resumeOperation) {
+      // The clip was already submitted (and paid for) by an earlier run
+      this.context.onProgress?.('veo', 10, `Resuming operation ${options.resumeOperation}`);
+      options.onOperationStarted?.(options.resumeOperation);
+      result = await this.pollOperation(options.resumeOperation, params.model, token);
+
+      if (result.error) {
+        // The earlier attempt itself failed, so submit a fresh one
+        this.context.onProgress?.('veo', 10, `Resumed operation failed (${result.error.message}), resubmitting`);
+        result = undefined;
+      }
+    }
+
+    if (!result) {
+      const operationName = await this.submitOperation(params, token);
+      options.onOperationStarted?.(operationName);
 
+      this.context.onProgress?.('veo', 20, 'Polling for completion');
+
+      // Poll operation until complete
+      result = await this.pollOperation(operationName, params.model, token);
+    }
+
+    if (result.error) {
+      throw new Error(`Veo generation failed: ${result.error.message}`);
+    }
+
+    // Download and process result
+    return await this.processResult(result, params);
+  }
+
+  private async submitOperation(params: VeoParams, token: string): Promise<string> {
     // Build request
-    const url = `https://${params.location}-aiplatform.googleapis.com/v1/projects/${params.projectId}/locations/${params.location}/publishers/google/models/${params.model}:predictLongRunning`;
+    const url = `${this.getApiBase(params.location)}/v1/projects/${params.projectId}/locations/${params.location}/publishers/google/models/${params.model}:predictLongRunning`;
 
     const instances: any = {
       prompt: params.prompt
@@ -116,47 +178,81 @@ export class VeoClient {
     console.log(`[VEO DEBUG] Request URL: ${url}`);
     console.log(`[VEO DEBUG] Request body:`, JSON.stringify(requestBody, null, 2));
 
-    // Submit request
-    const response = await fetch(url, {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${token.token ?? token}`,
-        'Content-Type': 'application/json'
-      },
-      body: JSON.stringify(requestBody)
-    });
+    // Submit request, backing off while the project is over quota
+    const apiBase = this.getApiBase(params.location);
+    for (let quotaRetries = 0; ; quotaRetries++) {
+      await this.waitForQuota(apiBase);
+
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${token}`,
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify(requestBody)
+      });
+
+      if (response.ok) {
+        const operation: VeoOperation = await response.json() as VeoOperation;
+        return operation.name;
+      }
 
-    if (!response.ok) {
       const error = await response.text();
-      throw new Error(`Veo API request failed: ${response.status} ${error}`);
+      if (!isQuotaError(response.status, error) || quotaRetries >= MAX_QUOTA_RETRIES) {
+        throw new Error(`Veo API request failed: ${response.status} ${error}`);
+      }
+
+      this.backOffForQuota(apiBase, quotaRetries);
     }
+  }
 
-    const operation: VeoOperation = await response.json() as VeoOperation;
+  private backOffForQuota(apiBase: string, retry: number): void {
+    const delay = quotaBackoffDelay(retry);
+    const until = Date.now() + delay;
+    quotaBackoffUntil.set(apiBase, Math.max(quotaBackoffUntil.get(apiBase) ?? 0, until));
+    this.context.onProgress?.('veo', 10, `Veo quota exceeded, retrying in ${Math.round(delay / 1000)}s`);
+  }
 
-    this.context.onProgress?.('veo', 20, 'Polling for completion');
+  private async waitForQuota(apiBase: string): Promise<void> {
+    const wait = (quotaBackoffUntil.get(apiBase) ?? 0) - Date.now();
+    if (wait > 0) {
+      await new Promise(resolve => setTimeout(resolve, wait));
+    }
+  }
 
-    // Poll operation until complete
-    const result = await this.pollOperation(operation.name, token.token ?? token);
+  private async getAccessToken(): Promise<string> {
+    // Stand-in endpoints don't check credentials
+    if (this.apiEndpoint) {
+      return 'offline';
+    }
 
-    // Download and process result
-    return await this.processResult(result, params);
+    const client = await this.auth.getClient();
+    const token = await (client as any).getAccessToken();
+    return token.token ?? token;
   }
 
-  private async pollOperation(operationName: string, token: string, maxAttempts = 60): Promise<VeoOperation> {
+  private getApiBase(location: string): string {
+    return this.apiEndpoint ?? `https://${location}-aiplatform.googleapis.com`;
+  }
+
+  private async pollOperation(operationName: string, model: string, token: string, maxAttempts = 60): Promise<VeoOperation> {
     let attempts = 0;
+    // Consecutive quota rejections; a successful poll starts the count over
+    let quotaRetries = 0;
     const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
 
     while (attempts < maxAttempts) {
+      // Stop waiting on cancel; the operation name is already checkpointed for a resume
+      this.context.signal?.throwIfAborted();
       attempts++;
       
       this.context.onProgress?.('veo', 20 + (attempts / maxAttempts) * 60, 
         `Polling operation (${attempts}/${maxAttempts})`);
 
-      // Use the correct fetchPredictOperation endpoint for Veo 3 Preview
+      // Use the fetchPredictOperation endpoint of the model that was asked to generate
       const location = this.getLocationFromOperationName(operationName);
       const project = this.getProjectFromOperationName(operationName);
-      const model = 'veo-3.0-fast-generate-001';
-      const pollUrl = `https://${location}-aiplatform.googleapis.com/v1/projects/${project}/locations/${location}/publishers/google/models/${model}:fetchPredictOperation`;
+      const pollUrl = `${this.getApiBase(location)}/v1/projects/${project}/locations/${location}/publishers/google/models/${model}:fetchPredictOperation`;
       
       const requestBody = {
         operationName: operationName
@@ -172,15 +268,23 @@ export class VeoClient {
       });
 
       if (!response.ok) {
-        throw new Error(`Failed to poll operation: ${response.status}`);
+        // Polls count against quota too; wait it out without spending an
+        // attempt, backing off further each time, as submitting does
+        const error = await response.text();
+        if (isQuotaError(response.status, error) && quotaRetries < MAX_QUOTA_RETRIES) {
+          attempts--;
+          this.backOffForQuota(this.getApiBase(location), quotaRetries++);
+          await this.waitForQuota(this.getApiBase(location));
+          continue;
+        }
+        throw new Error(`Failed to poll operation: ${response.status} ${error}`);
       }
+      quotaRetries = 0;
 
       const operation: VeoOperation = await response.json() as VeoOperation;
 
+      // Failed operations are returned too; the caller decides whether to retry
       if (operation.done) {
-        if (operation.error) {
-          throw new Error(`Veo generation failed: ${operation.error.message}`);
-        }
         return operation;
       }
 
@@ -266,11 +370,16 @@ export class VeoClient {
     const storage = this.storage.bucket(bucket);
     const file = storage.file(gcsPath);
 
-    await file.save(await fs.promises.readFile(localPath));
+    // Stand-in endpoints only implement simple (multipart) uploads
+    await file.save(await fs.promises.readFile(localPath), { resumable: !this.apiEndpoint });
     
     return `gs://${bucket}/${gcsPath}`;
   }
 
+  async uploadImage(localPath: string, remotePath: string, bucketName?: string): Promise<string> {
+    return this.uploadToGcs(localPath, remotePath, bucketName);
+  }
+
   private async extractLastFrame(videoPath: string, duration: number): Promise<string> {
     const lastFramePath = videoPath.replace('.mp4', '_last_frame.png');
     
@@ -1,5 +1,5 @@
 import { Scene, ListingData } from '../types.js';
-import { buildRoomPrompt, ROOM_DESCRIPTIONS } from './styleTokens.js';
+import { getRoomType, parseRoom, renderRoomTemplate } from '../pipeline/room-types.js';
 
 export interface PromptContext {
   scene: Scene;
@@ -40,20 +40,11 @@ function getTransitionGuidance(fromRoom: string, toRoom: string): string {
     }
   };
 
-  return transitions[fromRoom]?.[toRoom] || "Smooth camera movement for natural scene flow";
+  return transitions[parseRoom(fromRoom).type]?.[parseRoom(toRoom).type] || "Smooth camera movement for natural scene flow";
 }
 
 function getRelevantFeatures(room: string, features: string[]): string[] {
-  const roomKeywords: Record<string, string[]> = {
-    kitchen: ['kitchen', 'cook', 'chef', 'appliance', 'island', 'granite', 'marble', 'cabinet', 'pantry'],
-    living: ['living', 'fireplace', 'window', 'light', 'open', 'spacious', 'hardwood', 'view'],
-    bedroom: ['bedroom', 'master', 'suite', 'closet', 'walk-in', 'private', 'quiet'],
-    bathroom: ['bathroom', 'bath', 'shower', 'tub', 'vanity', 'marble', 'tile', 'spa'],
-    backyard: ['yard', 'garden', 'outdoor', 'patio', 'deck', 'pool', 'entertaining', 'private'],
-    exterior: ['exterior', 'curb', 'facade', 'landscape', 'garage', 'parking', 'entrance']
-  };
-
-  const keywords = roomKeywords[room] || [];
+  const keywords = getRoomType(room).featureKeywords;
   
   return features.filter(feature => 
     keywords.some(keyword => 
@@ -81,38 +72,61 @@ function generateIntro(listing?: ListingData): string {
   return "Welcome home. Let's explore this beautiful property together.";
 }
 
+// One narration line per scene, for voiceover that is placed on the timeline
+// scene by scene. The intro rides on the first scene and the outro on the last.
+// MLS cuts leave out the outro's call to contact the agent.
+export function generateSceneNarration(
+  scenes: Scene[],
+  listing?: ListingData,
+  options: { includeContact?: boolean } = {}
+): string[] {
+  return scenes.map((scene, index) => {
+    const parts = [narrateScene(scene, listing)];
+    if (index === 0) {
+      parts.unshift(generateIntro(listing));
+    }
+    if (index === scenes.length - 1) {
+      parts.push(generateOutro(listing, options.includeContact ?? true));
+    }
+    // A silent scene still carries the intro or outro
+    return parts.filter(Boolean).join(' ');
+  });
+}
+
 function generateRoomNarration(scenes: Scene[], listing?: ListingData): string {
-  return scenes.map(scene => {
-    const roomName = scene.room === 'living' ? 'living room' : scene.room;
-    const baseNarration = getRoomNarration(scene.room);
-    
-    // Add specific features if available
-    if (listing?.bullets) {
-      const relevantFeatures = getRelevantFeatures(scene.room, listing.bullets);
-      if (relevantFeatures.length > 0) {
-        return `${baseNarration} Notice the ${relevantFeatures.join(' and ')}.`;
-      }
+  return scenes.map(scene => narrateScene(scene, listing)).join(' ');
+}
+
+// The scene's own line, without the intro or outro. A line set on the scene
+// (from a plan file) is used as written.
+export function narrateScene(scene: Scene, listing?: ListingData): string {
+  if (scene.narration !== undefined) {
+    return scene.narration;
+  }
+
+  // Hallway and stair moves just say where the tour is headed
+  if (scene.transition && scene.description) {
+    return `${scene.description}.`;
+  }
+
+  const baseNarration = getRoomNarration(scene.room);
+  
+  // Add specific features if available
+  if (listing?.bullets) {
+    const relevantFeatures = getRelevantFeatures(scene.room, listing.bullets);
+    if (relevantFeatures.length > 0) {
+      return `${baseNarration} Notice the ${relevantFeatures.join(' and ')}.`;
     }
-    
-    return baseNarration;
-  }).join(' ');
+  }
+  
+  return baseNarration;
 }
 
 function getRoomNarration(room: string): string {
-  const narrations: Record<string, string> = {
-    exterior: "Here's your first look at this stunning home with its impressive curb appeal.",
-    entry: "Step inside to this welcoming entryway that sets the tone for the entire home.",
-    living: "The heart of the home features this spacious living area with abundant natural light.",
-    kitchen: "The kitchen is a chef's dream with premium finishes and thoughtful design.",
-    bedroom: "This peaceful bedroom offers comfort and tranquility with plenty of space.",
-    bathroom: "The bathroom showcases beautiful finishes and spa-like amenities.",
-    backyard: "Finally, step outside to enjoy this private outdoor oasis."
-  };
-
-  return narrations[room] || `This ${room} offers wonderful features and attention to detail.`;
+  return renderRoomTemplate(getRoomType(room).narration.scene, room);
 }
 
-function generateOutro(listing?: ListingData): string {
+function generateOutro(listing?: ListingData, includeContact = true): string {
   let outro = "Thank you for touring this exceptional property.";
   
   if (listing?.address) {
@@ -120,7 +134,9 @@ function generateOutro(listing?: ListingData): string {
   }
   
   outro += " this home offers the perfect blend of comfort, style, and convenience.";
-  outro += " Contact us today to schedule your private showing.";
+  if (includeContact) {
+    outro += " Contact us today to schedule your private showing.";
+  }
   
   return outro;
 }
@@ -0,0 +1,168 @@
+import ffmpeg from 'fluent-ffmpeg';
+import ffmpegPath from 'ffmpeg-static';
+import fs from 'fs';
+import path from 'path';
+import { RunManifest } from '../pipeline/manifest.js';
+import { Job, JobStore } from './jobs.js';
+
+// Set ffmpeg path
+ffmpeg.setFfmpegPath(ffmpegPath!);
+
+export interface JobPaths {
+  tmpDir: string;
+  outputPath: string;
+  thumbnailPath: string;
+}
+
+export interface JobArtifact {
+  name: string;
+  kind: 'video' | 'captions' | 'export' | 'report' | 'segment' | 'voiceover' | 'music' | 'assembled';
+  size: number;
+  // Scene the clip was rendered for, when kind is 'segment'
+  sceneId?: string;
+  // Export preset the file belongs to, for 'export' files and their captions
+  preset?: string;
+}
+
+// Where a job's scratch files and deliverables live on the server
+export function getJobPaths(jobId: string): JobPaths {
+  return {
+    tmpDir: `./tmp/${jobId}`,
+    outputPath: `./output/${jobId}_tour.mp4`,
+    thumbnailPath: `./output/${jobId}_thumb.jpg`
+  };
+}
+
+// Files a job produced, found through its run manifest. Only files listed
+// here can be downloaded, so arbitrary paths in tmpDir are never exposed.
+export function listJobArtifacts(job: Job): Array<JobArtifact & { path: string }> {
+  const { tmpDir } = getJobPaths(job.id);
+  const manifest = RunManifest.loadLatest(tmpDir);
+  const artifacts: Array<JobArtifact & { path: string }> = [];
+
+  const add = (filePath: string | undefined, kind: JobArtifact['kind'], sceneId?: string, preset?: string) => {
+    if (!filePath || !fs.existsSync(filePath) || artifacts.some(a => a.path === filePath)) {
+      return;
+    }
+    artifacts.push({
+      name: path.basename(filePath),
+      kind,
+      size: fs.statSync(filePath).size,
+      path: filePath,
+      ...(sceneId && { sceneId }),
+      ...(preset && { preset })
+    });
+  };
+
+  add(job.result?.outputPath, 'video');
+  add(job.result?.captions?.srtPath, 'captions');
+  add(job.result?.captions?.vttPath, 'captions');
+  for (const exported of job.result?.exports || []) {
+    add(exported.outputPath, 'export', undefined, exported.preset);
+    add(exported.captions?.srtPath, 'captions', undefined, exported.preset);
+    add(exported.captions?.vttPath, 'captions', undefined, exported.preset);
+  }
+  add(job.result?.compliance?.reportPath, 'report');
+  if (manifest) {
+    add(manifest.data.assembledPath, 'assembled');
+    for (const record of manifest.data.segments) {
+      add(record.segment?.path, 'segment', record.sceneId);
+    }
+    for (const track of manifest.data.audioTracks || []) {
+      add(track.path, track.type);
+    }
+  }
+
+  return artifacts;
+}
+
+// Grab a frame a little way in (the first frames are often mid-transition),
+// but no further than halfway into a short clip, and keep it next to the
+// output for later requests
+export async function ensureThumbnail(videoPath: string, thumbnailPath: string): Promise<string> {
+  if (fs.existsSync(thumbnailPath) && fs.statSync(thumbnailPath).mtimeMs >= fs.statSync(videoPath).mtimeMs) {
+    return thumbnailPath;
+  }
+
+  await fs.promises.mkdir(path.dirname(thumbnailPath), { recursive: true });
+  const seekTo = Math.min(1, (await probeDuration(videoPath)) / 2);
+
+  return new Promise<string>((resolve, reject) => {
+    ffmpeg(videoPath)
+      .seekInput(seekTo)
+      .outputOptions([
+        '-frames:v 1',
+        '-vf scale=640:-2',
+        '-q:v 3'
+      ])
+      .on('end', () => resolve(thumbnailPath))
+      .on('error', (error) => reject(error))
+      .save(thumbnailPath);
+  });
+}
+
+function probeDuration(videoPath: string): Promise<number> {
+  return new Promise((resolve, reject) => {
+    ffmpeg.ffprobe(videoPath, (error, metadata) => {
+      if (error) {
+        reject(error);
+        return;
+      }
+      resolve(parseFloat(String(metadata.format.duration || '0')));
+    });
+  });
+}
+
+// Delete finished jobs older than maxAge along with everything they left on
+// disk: the output, thumbnail, run directory and uploaded images
+export async function cleanupExpiredJobs(store: JobStore, maxAge: number): Promise<string[]> {
+  const cutoff = Date.now() - maxAge;
+  const removed: string[] = [];
+
+  for (const job of store.list()) {
+    if (job.status === 'pending' || job.status === 'processing') {
+      continue;
+    }
+    const finishedAt = new Date(job.finishedAt || job.updatedAt).getTime();
+    if (finishedAt >= cutoff) {
+      continue;
+    }
+
+    const { tmpDir, outputPath, thumbnailPath } = getJobPaths(job.id);
+    const exports = job.result?.exports || [];
+    const files = [
+      outputPath,
+      thumbnailPath,
+      job.result?.outputPath,
+      job.result?.captions?.srtPath,
+      job.result?.captions?.vttPath,
+      ...exports.flatMap(e => [e.outputPath, e.captions?.srtPath, e.captions?.vttPath]),
+      job.result?.compliance?.reportPath,
+      ...job.request.imagePaths
+    ];
+
+    try {
+      await fs.promises.rm(tmpDir, { recursive: true, force: true });
+      for (const file of files) {
+        if (file) {
+          await fs.promises.rm(file, { force: true });
+        }
+      }
+      store.delete(job.id);
+      removed.push(job.id);
+    } catch (error) {
+      console.warn(`Failed to clean up job ${job.id}:`, error);
+    }
+  }
+
+  return removed;
+}
+
+// Uploads that never became a job (validation requests, rejected generate
+// requests) belong to nobody, so cleanupExpiredJobs would never see them
+export async function discardUploads(files: Array<{ path: string }> | undefined): Promise<void> {
+  for (const file of files || []) {
+    await fs.promises.rm(file.path, { force: true }).catch(error =>
+      console.warn(`Failed to remove upload ${file.path}:`, error));
+  }
+}
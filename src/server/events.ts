@@ -0,0 +1,99 @@
+import { EventEmitter } from 'events';
+import { JobResult, JobStatus } from './jobs.js';
+
+interface JobEventBase {
+  // Increases per job, also across server restarts, so SSE clients can
+  // resume with Last-Event-ID
+  id: number;
+  jobId: string;
+  timestamp: string;
+}
+
+export type JobEventPayload =
+  | { type: 'status'; status: JobStatus; phase: string; progress: number; message?: string }
+  | { type: 'phase'; phase: string; message?: string }
+  | { type: 'progress'; phase: string; progress: number; message?: string }
+  | { type: 'segment'; sceneId: string; progress: number; message?: string }
+  | { type: 'warning'; message: string }
+  | { type: 'result'; result: JobResult }
+  | { type: 'error'; error: string };
+
+export type JobEvent = JobEventBase & JobEventPayload;
+
+export type JobEventListener = (event: JobEvent) => void;
+
+export interface JobEventHubOptions {
+  historySize?: number;
+}
+
+// In-process fan-out of job events to SSE and WebSocket subscribers. A short
+// per-job history lets clients that connect (or reconnect) late catch up.
+export class JobEventHub {
+  private options: Required<JobEventHubOptions>;
+  private emitter = new EventEmitter();
+  private history = new Map<string, JobEvent[]>();
+  // Phases each job has announced in its current attempt
+  private phases = new Map<string, Set<string>>();
+
+  constructor(options: JobEventHubOptions = {}) {
+    this.options = {
+      historySize: options.historySize ?? 200
+    };
+    // One listener per connected client
+    this.emitter.setMaxListeners(0);
+  }
+
+  publish(jobId: string, payload: JobEventPayload): JobEvent {
+    const events = this.history.get(jobId) || [];
+    // A job's first id in this process is taken from the clock (in
+    // microseconds), so ids never repeat or go back after a restart
+    const event = {
+      id: (events[events.length - 1]?.id ?? Date.now() * 1000) + 1,
+      jobId,
+      timestamp: new Date().toISOString(),
+      ...payload
+    } as JobEvent;
+
+    events.push(event);
+    if (events.length > this.options.historySize) {
+      events.splice(0, events.length - this.options.historySize);
+    }
+    this.history.set(jobId, events);
+
+    // A new attempt goes through the phases again
+    if (payload.type === 'status') {
+      this.phases.delete(jobId);
+    }
+
+    this.emitter.emit(jobId, event);
+    return event;
+  }
+
+  // Progress ticks also announce a 'phase' event when the pipeline enters a
+  // phase. Phases such as preprocessing and rendering report concurrently, so
+  // only the first tick of each is a transition.
+  publishProgress(jobId: string, phase: string, progress: number, message?: string): void {
+    const phases = this.phases.get(jobId) || new Set<string>();
+    if (!phases.has(phase)) {
+      phases.add(phase);
+      this.phases.set(jobId, phases);
+      this.publish(jobId, { type: 'phase', phase, message });
+    }
+    this.publish(jobId, { type: 'progress', phase, progress, message });
+  }
+
+  subscribe(jobId: string, listener: JobEventListener): () => void {
+    this.emitter.on(jobId, listener);
+    return () => this.emitter.off(jobId, listener);
+  }
+
+  // Events after afterId that are still in the history buffer
+  replay(jobId: string, afterId = 0): JobEvent[] {
+    return (this.history.get(jobId) || []).filter(event => event.id > afterId);
+  }
+
+  forget(jobId: string): void {
+    this.history.delete(jobId);
+    this.phases.delete(jobId);
+  }
+}
@@ -0,0 +1,331 @@
+import fs from 'fs';
+import path from 'path';
+import {
+  BrandConfig,
+  ExportPresetName,
+  HomeTourResult,
+  ImageOrdering,
+  ListingData,
+  VeoConfig,
+  VoiceoverConfig
+} from '../types.js';
+import type { JobEventHub } from './events.js';
+
+export type JobStatus = 'pending' | 'processing' | 'completed' | 'failed' | 'cancelled';
+
+// Everything needed to (re)run a job; uploads stay on disk until the job is deleted
+export interface JobRequest {
+  imagePaths: string[];
+  listing?: ListingData;
+  voiceover?: VoiceoverConfig;
+  music?: { path: string };
+  brand?: BrandConfig;
+  targetSeconds: number;
+  aspect: '16:9' | '9:16';
+  resolution: '720p' | '1080p';
+  veoProject: string;
+  veoLocation: string;
+  veoModel: VeoConfig['model'];
+  presets?: ExportPresetName[];
+  // MLS-compliant cut plus compliance report
+  mls?: boolean;
+  // Tour order; 'as-given' follows the upload order
+  ordering?: ImageOrdering;
+}
+
+// What a finished job keeps of its run; the per-image metadata stays out of the jobs file
+export type JobResult = Omit<HomeTourResult, 'metadata'>;
+
+export interface Job {
+  id: string;
+  status: JobStatus;
+  progress: number;
+  phase: string;
+  message?: string;
+  result?: JobResult;
+  error?: string;
+  attempts: number;
+  request: JobRequest;
+  createdAt: string;
+  updatedAt: string;
+  startedAt?: string;
+  finishedAt?: string;
+}
+
+export type JobRunner = (job: Job, signal: AbortSignal, resume: boolean) => Promise<JobResult>;
+
+export interface JobQueueOptions {
+  maxConcurrent?: number;
+  // Receives a 'status' event for every transition, plus 'result' or 'error' when a job settles
+  events?: JobEventHub;
+}
+
+// Progress ticks arrive many times a second; status changes are always written
+const PROGRESS_FLUSH_INTERVAL = 1000;
+
+// Durable job records for the API server, kept in a single JSON file that is
+// rewritten atomically on every status change
+export class JobStore {
+  private filePath: string;
+  private jobs: Map<string, Job>;
+  private flushTimer?: NodeJS.Timeout;
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    this.jobs = this.load();
+  }
+
+  get(id: string): Job | undefined {
+    return this.jobs.get(id);
+  }
+
+  list(): Job[] {
+    return Array.from(this.jobs.values())
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  }
+
+  create(id: string, request: JobRequest): Job {
+    const now = new Date().toISOString();
+    const job: Job = {
+      id,
+      status: 'pending',
+      progress: 0,
+      phase: 'queued',
+      attempts: 0,
+      request,
+      createdAt: now,
+      updatedAt: now
+    };
+    this.jobs.set(id, job);
+    this.save();
+    return job;
+  }
+
+  update(id: string, patch: Partial<Job>): Job {
+    const job = this.requireJob(id);
+    Object.assign(job, patch, { updatedAt: new Date().toISOString() });
+    this.save();
+    return job;
+  }
+
+  // Same as update, but the write is batched with other progress ticks
+  updateProgress(id: string, patch: Pick<Job, 'progress' | 'phase' | 'message'>): void {
+    const job = this.jobs.get(id);
+    if (!job) {
+      return;
+    }
+    Object.assign(job, patch, { updatedAt: new Date().toISOString() });
+
+    if (!this.flushTimer) {
+      this.flushTimer = setTimeout(() => this.save(), PROGRESS_FLUSH_INTERVAL);
+    }
+  }
+
+  delete(id: string): void {
+    this.jobs.delete(id);
+    this.save();
+  }
+
+  private requireJob(id: string): Job {
+    const job = this.jobs.get(id);
+    if (!job) {
+      throw new Error(`Job not found: ${id}`);
+    }
+    return job;
+  }
+
+  private load(): Map<string, Job> {
+    if (!fs.existsSync(this.filePath)) {
+      return new Map();
+    }
+
+    const content = fs.readFileSync(this.filePath, 'utf8');
+    const jobs = JSON.parse(content) as Job[];
+    return new Map(jobs.map(job => [job.id, job]));
+  }
+
+  private save(): void {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = undefined;
+    }
+
+    // Write then rename so a crash never leaves a half-written store
+    const tempPath = `${this.filePath}.${process.pid}.tmp`;
+    fs.writeFileSync(tempPath, JSON.stringify(this.list(), null, 2));
+    fs.renameSync(tempPath, this.filePath);
+  }
+}
+
+// FIFO worker queue over a JobStore. At most maxConcurrent jobs run at once;
+// the rest wait as 'pending' and survive a restart.
+export class JobQueue {
+  private store: JobStore;
+  private runner: JobRunner;
+  private options: Required<Omit<JobQueueOptions, 'events'>>;
+  private events?: JobEventHub;
+  private waiting: string[] = [];
+  private running = new Map<string, AbortController>();
+
+  constructor(store: JobStore, runner: JobRunner, options: JobQueueOptions = {}) {
+    this.store = store;
+    this.runner = runner;
+    this.options = {
+      maxConcurrent: Math.max(1, options.maxConcurrent ?? 1)
+    };
+    this.events = options.events;
+  }
+
+  // Re-queue work the previous server process didn't finish. Interrupted jobs
+  // resume from their run manifest instead of starting over.
+  recover(): number {
+    let recovered = 0;
+
+    for (const job of this.store.list()) {
+      if (job.status === 'processing') {
+        this.transition(job.id, { status: 'pending', phase: 'queued', message: 'Recovered after server restart' });
+      } else if (job.status !== 'pending') {
+        continue;
+      }
+      this.waiting.push(job.id);
+      recovered++;
+    }
+
+    this.drain();
+    return recovered;
+  }
+
+  enqueue(id: string): void {
+    this.waiting.push(id);
+    this.drain();
+  }
+
+  retry(id: string): Job {
+    const job = this.store.get(id);
+    if (!job) {
+      throw new Error(`Job not found: ${id}`);
+    }
+    if (job.status !== 'failed' && job.status !== 'cancelled') {
+      throw new Error(`Only failed or cancelled jobs can be retried (job is ${job.status})`);
+    }
+    if (this.running.has(id)) {
+      throw new Error('Job is still stopping, retry once it has settled');
+    }
+
+    const updated = this.transition(id, {
+      status: 'pending',
+      phase: 'queued',
+      message: 'Queued for retry',
+      error: undefined,
+      finishedAt: undefined
+    });
+    this.enqueue(id);
+    return updated;
+  }
+
+  cancel(id: string): Job {
+    const job = this.store.get(id);
+    if (!job) {
+      throw new Error(`Job not found: ${id}`);
+    }
+
+    if (job.status === 'pending') {
+      this.waiting = this.waiting.filter(waitingId => waitingId !== id);
+    } else if (job.status === 'processing') {
+      // The runner notices the abort at its next checkpoint and the job settles there
+      this.running.get(id)?.abort();
+    } else {
+      throw new Error(`Job is already ${job.status}`);
+    }
+
+    return this.transition(id, {
+      status: 'cancelled',
+      phase: 'cancelled',
+      finishedAt: new Date().toISOString()
+    });
+  }
+
+  isRunning(id: string): boolean {
+    return this.running.has(id);
+  }
+
+  get pendingCount(): number {
+    return this.waiting.length;
+  }
+
+  // Every status change goes through here so subscribers see it. The result
+  // or error goes out first: a terminal status is the last event of a run.
+  private transition(id: string, patch: Partial<Job>): Job {
+    const job = this.store.update(id, patch);
+
+    if (job.status === 'completed' && job.result) {
+      this.events?.publish(id, { type: 'result', result: job.result });
+    } else if (job.status === 'failed') {
+      this.events?.publish(id, { type: 'error', error: job.error || 'Unknown error' });
+    }
+
+    this.events?.publish(id, {
+      type: 'status',
+      status: job.status,
+      phase: job.phase,
+      progress: job.progress,
+      message: job.message
+    });
+
+    return job;
+  }
+
+  private drain(): void {
+    while (this.running.size < this.options.maxConcurrent && this.waiting.length > 0) {
+      const id = this.waiting.shift()!;
+      const job = this.store.get(id);
+      if (job?.status === 'pending') {
+        this.start(job);
+      }
+    }
+  }
+
+  private start(job: Job): void {
+    const controller = new AbortController();
+    this.running.set(job.id, controller);
+
+    // A job that has been attempted before picks up from its manifest
+    const resume = job.attempts > 0;
+    this.transition(job.id, {
+      status: 'processing',
+      phase: 'preparing',
+      attempts: job.attempts + 1,
+      startedAt: new Date().toISOString()
+    });
+
+    // A cancelled job, or one removed by cleanup meanwhile, has nothing left to record
+    const settled = () => controller.signal.aborted || !this.store.get(job.id);
+
+    this.runner(job, controller.signal, resume)
+      .then(result => {
+        if (settled()) return;
+        this.transition(job.id, {
+          status: 'completed',
+          progress: 100,
+          phase: 'completed',
+          result,
+          finishedAt: new Date().toISOString()
+        });
+      })
+      .catch(error => {
+        if (settled()) return;
+        this.transition(job.id, {
+          status: 'failed',
+          phase: 'error',
+          error: error instanceof Error ? error.message : 'Unknown error',
+          finishedAt: new Date().toISOString()
+        });
+      })
+      .finally(() => {
+        this.running.delete(job.id);
+        this.drain();
+      })
+      .catch(error => console.warn(`Failed to record the outcome of job ${job.id}:`, error));
+  }
+}
@@ -2,12 +2,83 @@ export interface ImageInput {
   path: string;
   room?: string;
   captureTime?: Date;
+  // How sure the room classifier was, when it picked the room
+  roomConfidence?: number;
+  // Filled in at ingest
+  quality?: ImageQuality;
+  // Near-duplicate shots culled in favor of this one
+  referenceImages?: string[];
+  // Original file, when path points at a preprocessed copy
+  sourcePath?: string;
+}
+
+export type ImageQualityCheck = 'resolution' | 'blur' | 'exposure' | 'tilt' | 'aspect';
+
+export interface ImageQualityIssue {
+  path: string;
+  check: ImageQualityCheck;
+  message: string;
+}
+
+export interface ImageQuality {
+  width: number;
+  height: number;
+  // How much the usable crop has to be enlarged to fill the output frame (1 = native)
+  upscaleFactor: number;
+  // Share of the image cropped away to match OutputConfig.aspect
+  croppedFraction: number;
+  // 0..1, from the variance of the Laplacian
+  sharpness: number;
+  // Mean luma 0..1, and the shares of pixels blown out or crushed
+  brightness: number;
+  clippedHighlights: number;
+  clippedShadows: number;
+  // Lean of the vertical lines as a whole (camera roll), in degrees
+  tiltDegrees: number;
+  // How far the verticals lean toward each other (camera pointed up or down)
+  convergingVerticalsDegrees: number;
+  // 0..1 overall; used to pick the Veo source images
+  score: number;
+  issues: ImageQualityIssue[];
+}
+
+export interface RoomPrediction {
+  room: string;
+  // 0..1
+  confidence: number;
+}
+
+// Decides which room a photo shows. Returning null means "no opinion" and
+// the ingestor falls back to filename keywords.
+export interface RoomClassifier {
+  classify(imagePath: string): Promise<RoomPrediction | null>;
 }
 
 export interface ListingData {
   headline?: string;
   bullets?: string[];
   address?: string;
+  // Rooms and how they connect; room-flow tours follow it when given
+  floorPlan?: FloorPlan;
+}
+
+export interface FloorPlanRoom {
+  // What images use as their room, e.g. 'kitchen' or 'kitchen-upstairs'
+  id: string;
+  // Kind of room when the id isn't one, e.g. 'kitchen' for 'kitchen-upstairs'
+  type?: string;
+  // 0 is the ground floor, 1 the one above, -1 a basement
+  floor?: number;
+  // Ids of the rooms you can walk straight into from this one
+  adjacent?: string[];
+  // Hallways and stairs are walked through between rooms
+  kind?: 'room' | 'hallway' | 'stairs';
+}
+
+export interface FloorPlan {
+  rooms: FloorPlanRoom[];
+  // Where the walk-through begins; defaults to the exterior, then the entry
+  start?: string;
 }
 
 export interface VoiceoverConfig {
@@ -19,8 +90,15 @@ export interface VoiceoverConfig {
 
 export interface MusicConfig {
   path: string;
+  // How far the music drops while the voiceover speaks (negative dB)
   duckUnderVOdB?: number;
   volume?: number;
+  duckAttackMs?: number;
+  duckReleaseMs?: number;
+  fadeInSeconds?: number;
+  fadeOutSeconds?: number;
+  // Cleared as having no lyrics; MLS cuts drop music that isn't
+  instrumental?: boolean;
 }
 
 export interface BrandConfig {
@@ -29,12 +107,107 @@ export interface BrandConfig {
   fontFamily?: string;
 }
 
+export type TransitionType = 'fade' | 'dissolve' | 'wipe' | 'slide' | 'dip-to-white';
+
+export type ExportAspect = '16:9' | '9:16' | '1:1' | '4:5';
+
+export type ExportPresetName = 'youtube' | 'reels' | 'tiktok' | 'instagram-square' | 'instagram-portrait' | 'mls';
+
+// An extra deliverable rendered from the same segments and audio as the main
+// output. Naming a built-in preset fills in whatever fields are left out.
+export interface ExportPreset {
+  name: ExportPresetName | string;
+  aspect?: ExportAspect;
+  resolution?: '720p' | '1080p';
+  // Defaults to <output>_<name>.mp4 next to the main output
+  path?: string;
+  // Longest the export may run, end slate included; the tour fades out early to fit
+  maxSeconds?: number;
+  // Unbranded exports drop the logo, lower thirds and end slate
+  branded?: boolean;
+  // 'smart' crops around the busiest part of each scene, 'pad' letterboxes over a blurred fill
+  reframe?: 'smart' | 'center' | 'pad';
+  lowerThirdPosition?: 'bottom-left' | 'bottom-center' | 'top-left' | 'top-center';
+  lowerThirdStyle?: 'minimal' | 'bar' | 'badge';
+  // Bottom of the frame kept clear for platform UI, in percent of the height
+  bottomSafePercent?: number;
+  burnCaptions?: boolean;
+  // MLS rules: no branding, address-only end slate, narration without agent contact
+  mlsCompliant?: boolean;
+}
+
+export interface ExportResult {
+  preset: string;
+  outputPath: string;
+  width: number;
+  height: number;
+  duration: number;
+  captions?: CaptionFiles;
+}
+
 export interface OutputConfig {
   path: string;
   aspect: '16:9' | '9:16';
   resolution: '720p' | '1080p';
   targetSeconds: number;
   fps?: number;
+  transition?: TransitionType;
+  crossfadeDuration?: number;
+  // Integrated loudness of the final mix in LUFS: -16 for social, -23 for broadcast (EBU R128)
+  loudnessTarget?: number;
+  // Render voiceover captions into the picture; SRT/VTT sidecars are written either way
+  burnCaptions?: boolean;
+  // Additional platform exports; segments are generated once in aspect/resolution above
+  presets?: Array<ExportPresetName | ExportPreset>;
+}
+
+export interface CaptionFiles {
+  srtPath: string;
+  vttPath: string;
+}
+
+export interface ComplianceConfig {
+  // Also produce an MLS-compliant cut (the 'mls' export preset) and a report
+  // of every MLS rule the rest of the config breaks
+  mls?: boolean;
+  // Defaults to <mls export>.compliance.json
+  reportPath?: string;
+}
+
+export type ComplianceRule = 'agent-branding' | 'agent-contact' | 'music-lyrics';
+
+export interface ComplianceViolation {
+  rule: ComplianceRule;
+  // Config field the problem comes from, e.g. 'brand.logoPath'
+  field: string;
+  message: string;
+  // Whether the compliant cut already leaves it out
+  fixedInCut: boolean;
+}
+
+export interface ComplianceReport {
+  standard: 'mls';
+  // True when every violation is fixed in the compliant cut
+  compliant: boolean;
+  violations: ComplianceViolation[];
+  checkedAt: string;
+}
+
+// How the tour is sequenced: the order the images were given in, EXIF
+// capture time, a fixed room-to-room walk-through, or the number in each file name
+export type ImageOrdering = 'as-given' | 'capture-time' | 'room-flow' | 'filename-number';
+
+export interface PreprocessConfig {
+  // Defaults to true; false sends the original files to every later phase
+  enabled?: boolean;
+  // Fill the output aspect by cropping the middle, or by padding over a blurred copy
+  fit?: 'crop' | 'pad';
+  // Derived images keep this much more resolution than the output frame, for Ken Burns zooms
+  headroom?: number;
+  // Level the horizon and correct converging verticals found by the quality checks
+  straightenVerticals?: boolean;
+  // Even out exposure and color casts
+  normalizeExposure?: boolean;
 }
 
 export interface VeoConfig {
@@ -43,6 +216,13 @@ export interface VeoConfig {
   model: 'veo-2.0-generate-001' | 'veo-2.0-generate-exp' | 'veo-3.0-generate-001' | 'veo-3.0-fast-generate-001' | 'veo-3.0-generate-preview';
   generateAudio?: boolean;
   bucketName?: string;
+  maxVeoSegments?: number;
+  // Veo operations allowed in flight at once; quota errors back off shared across them
+  maxConcurrent?: number;
+  // 'vertex' talks to Vertex AI + GCS, 'local' synthesizes motion with ffmpeg
+  backend?: 'vertex' | 'local';
+  // Override the Vertex AI and GCS base URL, e.g. to point at FakeVertexServer
+  apiEndpoint?: string;
 }
 
 export interface HomeTourConfig {
@@ -53,7 +233,56 @@ export interface HomeTourConfig {
   brand?: BrandConfig;
   output: OutputConfig;
   veo: VeoConfig;
+  compliance?: ComplianceConfig;
+  preprocess?: PreprocessConfig;
+  // Defaults to 'room-flow'; decided once at ingest and kept by every later phase
+  ordering?: ImageOrdering;
   tmpDir?: string;
+  // Rendered Veo clips and TTS audio are reused across runs from here
+  cacheDir?: string;
+  // Evict cache entries unused for longer than this many milliseconds
+  cacheMaxAge?: number;
+  // Continue the run recorded in tmpDir's manifest instead of starting over
+  resume?: boolean;
+  // Keep the run's clips, audio and images in tmpDir after it completes
+  // (only its manifest is kept otherwise)
+  keepIntermediates?: boolean;
+  // Render this plan exactly instead of planning from images; its images
+  // are ingested in place of config.images
+  plan?: ScenePlanFile;
+}
+
+export interface DuplicateCluster {
+  kept: string;
+  culled: string[];
+  // Largest hash distance from the kept shot, in bits out of 64
+  maxDistance: number;
+}
+
+export interface HomeTourResult {
+  outputPath: string;
+  duration: number;
+  veoSegments: number;
+  kenBurnsSegments: number;
+  estimatedCost: number;
+  metadata: {
+    totalImages: number;
+    roomDistribution: Record<string, number>;
+    processingTime: number;
+    // Problems found in the source photos at ingest
+    qualityIssues?: ImageQualityIssue[];
+    // Near-duplicate shots that were left out, by the shot kept in their place
+    duplicates?: DuplicateCluster[];
+  };
+  // Sidecar subtitles next to the output, when there is a voiceover
+  captions?: CaptionFiles;
+  // One entry per requested export preset
+  exports?: ExportResult[];
+  // MLS rule check, when an MLS-compliant cut was produced
+  compliance?: {
+    report: ComplianceReport;
+    reportPath: string;
+  };
 }
 
 export interface Scene {
@@ -64,6 +293,40 @@ export interface Scene {
   type: 'veo' | 'kenburns';
   description?: string;
   focusPoints?: string[];
+  // Short hallway or stair move between rooms, shown over the next room's photo
+  transition?: 'hallway' | 'stairs';
+  // Set by a plan file; otherwise each comes from the room when rendering.
+  // A null lower third means none.
+  prompt?: string;
+  motion?: KenBurnsMotion;
+  lowerThird?: string | null;
+  narration?: string;
+}
+
+export interface KenBurnsMotion {
+  zoom: 'in' | 'out';
+  pan: 'left' | 'right' | 'up' | 'down' | 'none';
+}
+
+// A scene plan as saved for editing. Images are file paths (relative to the
+// plan file when read from one) instead of ingested images.
+export interface ScenePlanFileScene {
+  id: string;
+  room: string;
+  type: 'veo' | 'kenburns';
+  duration: number;
+  images: string[];
+  description?: string;
+  transition?: 'hallway' | 'stairs';
+  prompt?: string;
+  motion?: KenBurnsMotion;
+  lowerThird?: string | null;
+  narration?: string;
+}
+
+export interface ScenePlanFile {
+  version: 1;
+  scenes: ScenePlanFileScene[];
 }
 
 export interface ScenePlan {
@@ -71,6 +334,22 @@ export interface ScenePlan {
   totalDuration: number;
   veoSegments: number;
   kenBurnsSegments: number;
+  // How the planner's scenes add up against the target; plan files don't have it
+  timing?: PlanTiming;
+}
+
+export interface PlanTiming {
+  targetSeconds: number;
+  // Scenes less their crossfade overlaps, plus the end slate
+  renderedSeconds: number;
+  tolerance: number;
+  withinTolerance: boolean;
+  crossfadeSeconds: number;
+  endSlateSeconds: number;
+  // Why the rendered length misses the target; empty when it doesn't
+  reasons: string[];
+  // Voiceover lines that won't fit their scene even sped up
+  warnings: string[];
 }
 
 export interface VeoParams {
@@ -99,6 +378,17 @@ export interface VeoResult {
   duration: number;
 }
 
+export interface GenerateClipOptions {
+  // Poll an operation submitted by an earlier run instead of submitting again
+  resumeOperation?: string;
+  onOperationStarted?: (operationName: string) => void;
+}
+
+export interface VideoGenerator {
+  uploadImage(localPath: string, remotePath: string, bucketName?: string): Promise<string>;
+  generateClip(params: VeoParams, options?: GenerateClipOptions): Promise<VeoResult>;
+}
+
 export interface KenBurnsParams {
   imagePath: string;
   outputPath: string;
@@ -122,6 +412,8 @@ export interface VideoSegment {
   type: 'veo' | 'kenburns';
   room: string;
   hasAudio: boolean;
+  // From the scene; undefined means the room's default
+  lowerThird?: string | null;
 }
 
 export interface AudioTrack {
@@ -132,11 +424,22 @@ export interface AudioTrack {
   duration: number;
 }
 
+export interface AudioMixParams {
+  duckUnderVOdB?: number;
+  duckAttackMs?: number;
+  duckReleaseMs?: number;
+  musicFadeIn?: number;
+  musicFadeOut?: number;
+  loudnessTarget?: number;
+}
+
 export interface AssemblyParams {
   segments: VideoSegment[];
   audioTracks: AudioTrack[];
+  audioMix?: AudioMixParams;
   outputPath: string;
   crossfadeDuration: number;
+  transition?: TransitionType;
   aspect: '16:9' | '9:16';
   resolution: '720p' | '1080p';
   fps: number;
@@ -162,12 +465,28 @@ export interface ProgressCallback {
   (phase: string, progress: number, message?: string): void;
 }
 
+export interface RunOptions {
+  // Cancels the run at the next checkpoint (between phases, segments and Veo polls)
+  signal?: AbortSignal;
+  // Non-fatal problems worth surfacing to the user, e.g. ingest warnings
+  onWarning?: (message: string) => void;
+  // Progress of one scene's render; onProgress only sees the aggregate
+  onSegmentProgress?: (sceneId: string, progress: number, message?: string) => void;
+  // Replaces the built-in heuristic classifier, e.g. with an ONNX model
+  roomClassifier?: RoomClassifier;
+}
+
 export interface PipelineContext {
   config: HomeTourConfig;
   tmpDir: string;
   gcsBucket?: string;
   authToken?: string;
   onProgress?: ProgressCallback;
+  cache?: Cache;
+  // Aborted when the caller cancels; long-running steps check it between units of work
+  signal?: AbortSignal;
+  onWarning?: (message: string) => void;
+  onSegmentProgress?: (sceneId: string, progress: number, message?: string) => void;
 }
 
 export interface CacheEntry {
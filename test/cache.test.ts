@@ -0,0 +1,80 @@
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import { RenderCache } from '../src/pipeline/cache.js';
+
+describe('RenderCache', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'render-cache-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  const render = (name: string) => {
+    const filePath = path.join(dir, name);
+    fs.writeFileSync(filePath, name);
+    return { hash: '', inputHash: name, outputPath: filePath, lastUsed: new Date() };
+  };
+  const indexKeys = () => Object.keys(JSON.parse(fs.readFileSync(path.join(dir, 'cache', 'index.json'), 'utf8'))).sort();
+
+  it('copies renders into the cache and finds them again', () => {
+    const cache = new RenderCache(path.join(dir, 'cache'));
+    cache.set('clip', render('clip.mp4'));
+
+    const entry = new RenderCache(path.join(dir, 'cache')).get('clip');
+    assert.ok(entry);
+    assert.equal(path.dirname(entry.outputPath), path.resolve(dir, 'cache', 'objects'));
+    assert.equal(fs.readFileSync(entry.outputPath, 'utf8'), 'clip.mp4');
+  });
+
+  it('merges entries other instances saved instead of overwriting them', () => {
+    const first = new RenderCache(path.join(dir, 'cache'));
+    const second = new RenderCache(path.join(dir, 'cache'));
+
+    first.set('a', render('a.mp4'));
+    second.set('b', render('b.mp4'));
+
+    assert.deepEqual(indexKeys(), ['a', 'b']);
+    // Found on a miss without reopening
+    assert.ok(first.get('b'));
+  });
+
+  it('keeps entries another instance removed out of the index', () => {
+    const first = new RenderCache(path.join(dir, 'cache'));
+    const second = new RenderCache(path.join(dir, 'cache'));
+    first.set('a', render('a.mp4'));
+    assert.ok(second.get('a'));
+
+    second.clear();
+    first.set('b', render('b.mp4'));
+
+    assert.deepEqual(indexKeys(), ['b']);
+    assert.equal(first.get('a'), null);
+  });
+
+  it('evicts entries unused for longer than the max age', () => {
+    const cache = new RenderCache(path.join(dir, 'cache'));
+    cache.set('old', { ...render('old.mp4'), lastUsed: new Date(Date.now() - 60_000) });
+    cache.set('new', render('new.mp4'));
+
+    cache.cleanup(30_000);
+
+    assert.deepEqual(indexKeys(), ['new']);
+    assert.equal(fs.readdirSync(path.join(dir, 'cache', 'objects')).length, 1);
+  });
+
+  it('drops entries whose file is gone', () => {
+    const cache = new RenderCache(path.join(dir, 'cache'));
+    cache.set('clip', render('clip.mp4'));
+    fs.rmSync(cache.get('clip')!.outputPath);
+
+    assert.equal(cache.get('clip'), null);
+    assert.deepEqual(indexKeys(), []);
+  });
+});
@@ -0,0 +1,95 @@
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { describe, it } from 'node:test';
+import { CaptionGenerator } from '../src/pipeline/captions.js';
+import { SentenceTiming, TimedVoiceoverSegment } from '../src/pipeline/tts.js';
+import { PipelineContext } from '../src/types.js';
+
+const context = { config: {}, tmpDir: '/tmp' } as PipelineContext;
+
+function segment(startTime: number, duration: number, sentences: SentenceTiming[]): TimedVoiceoverSegment {
+  return {
+    room: 'kitchen',
+    text: sentences.map(sentence => sentence.text).join(' '),
+    audioPath: '/tmp/line.mp3',
+    startTime,
+    duration,
+    tempo: 1,
+    sentences
+  };
+}
+
+describe('CaptionGenerator', () => {
+  it('formats SRT with numbered cues and comma milliseconds', () => {
+    const srt = new CaptionGenerator(context).toSrt([
+      { start: 0, end: 2.5, text: 'Welcome home.' },
+      { start: 3661.0004, end: 3662.9996, text: 'Line one\nLine two' }
+    ]);
+
+    assert.equal(srt,
+      '1\n00:00:00,000 --> 00:00:02,500\nWelcome home.\n\n' +
+      '2\n01:01:01,000 --> 01:01:03,000\nLine one\nLine two\n'
+    );
+  });
+
+  it('formats WebVTT with a header, dot milliseconds and no stray cue arrows', () => {
+    const vtt = new CaptionGenerator(context).toWebVtt([
+      { start: 1.25, end: 4, text: 'Kitchen --> dining room' }
+    ]);
+
+    assert.equal(vtt, 'WEBVTT\n\n00:00:01.250 --> 00:00:04.000\nKitchen -> dining room\n');
+  });
+
+  it('ends each sentence at the next one and clamps the last to the video', () => {
+    const cues = new CaptionGenerator(context).buildCues([
+      segment(0, 6, [{ text: 'Bright kitchen.', start: 0 }, { text: 'Granite counters.', start: 2 }]),
+      segment(5, 10, [{ text: 'Open living room.', start: 5 }, { text: 'Too late.', start: 9 }])
+    ], 8);
+
+    assert.deepEqual(cues, [
+      { start: 0, end: 2, text: 'Bright kitchen.' },
+      { start: 2, end: 5, text: 'Granite counters.' },
+      { start: 5, end: 8, text: 'Open living room.' }
+    ]);
+  });
+
+  it('wraps long sentences and splits them into cues timed by length', () => {
+    const generator = new CaptionGenerator(context, { maxLineLength: 10, maxLines: 1 });
+    const cues = generator.buildCues([
+      segment(0, 4, [{ text: 'sunny porch wide lawn', start: 0 }])
+    ], 10);
+
+    assert.deepEqual(cues.map(cue => cue.text), ['sunny', 'porch wide', 'lawn']);
+    assert.equal(cues[0].start, 0);
+    assert.equal(cues[2].end, 4);
+    assert.ok(Math.abs(cues[1].end - cues[1].start - 4 * 10 / 19) < 1e-9);
+  });
+
+  it('folds chunks too short to read into the previous cue', () => {
+    const generator = new CaptionGenerator(context, { maxLineLength: 10, maxLines: 1, minCueDuration: 0.8 });
+    const cues = generator.buildCues([
+      segment(0, 1, [{ text: 'sunny porch wide lawn', start: 0 }])
+    ], 10);
+
+    assert.deepEqual(cues, [{ start: 0, end: 1, text: 'sunny\nporch wide\nlawn' }]);
+  });
+
+  it('writes SRT and VTT next to the video', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'captions-'));
+    try {
+      const files = await new CaptionGenerator(context).writeCaptionFiles(
+        [{ start: 0, end: 1, text: 'Hello' }],
+        path.join(dir, 'out', 'tour.mp4')
+      );
+
+      assert.equal(files.srtPath, path.join(dir, 'out', 'tour.srt'));
+      assert.equal(files.vttPath, path.join(dir, 'out', 'tour.vtt'));
+      assert.match(fs.readFileSync(files.srtPath, 'utf8'), /^1\n00:00:00,000 --> 00:00:01,000\nHello\n$/);
+      assert.match(fs.readFileSync(files.vttPath, 'utf8'), /^WEBVTT\n/);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
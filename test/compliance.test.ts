@@ -0,0 +1,101 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { checkMlsCompliance, containsAgentContact, scrubAgentContact } from '../src/pipeline/compliance.js';
+import { HomeTourConfig } from '../src/types.js';
+
+const config = (overrides: Partial<HomeTourConfig> = {}): HomeTourConfig => ({
+  images: ['/photos/kitchen.jpg'],
+  output: { path: '/out/tour.mp4', aspect: '16:9', resolution: '1080p', targetSeconds: 30 },
+  veo: { projectId: 'project', location: 'us-central1', model: 'veo-3.0-fast-generate-001' },
+  ...overrides
+} as HomeTourConfig);
+
+describe('containsAgentContact', () => {
+  it('finds phone numbers, emails, websites and calls to contact the agent', () => {
+    for (const text of [
+      'Call (555) 123-4567',
+      'Reach us at 555.123.4567',
+      'Dial +1 555 123 4567',
+      'jane.doe+homes@example-realty.com',
+      'More at https://example.com/listing',
+      'See www.janedoe.realty',
+      'janedoe.homes',
+      'Contact us for details',
+      'Schedule your private showing',
+      'Visit our website',
+      'Presented by Sunrise Realty'
+    ]) {
+      assert.equal(containsAgentContact(text), true, text);
+    }
+  });
+
+  it('leaves ordinary listing copy alone', () => {
+    for (const text of [
+      'Three bedrooms and 2.5 baths on 1,850 square feet',
+      'Offered at $1,250,000',
+      'Built in 1998, updated in 2021',
+      'Quiet street near parks and good homes'
+    ]) {
+      assert.equal(containsAgentContact(text), false, text);
+    }
+  });
+});
+
+describe('scrubAgentContact', () => {
+  it('drops only the sentences with contact details', () => {
+    assert.equal(
+      scrubAgentContact('Welcome home! Granite counters throughout. Call me at 555-123-4567. Enjoy the view.'),
+      'Welcome home! Granite counters throughout. Enjoy the view.'
+    );
+  });
+
+  it('returns an empty string when every sentence is contact copy', () => {
+    assert.equal(scrubAgentContact('Email me today. Visit my website.'), '');
+  });
+});
+
+describe('checkMlsCompliance', () => {
+  it('passes a config without branding, contact details or music', () => {
+    const report = checkMlsCompliance(config({ voiceover: { text: 'A bright kitchen with a view.' } }));
+    assert.equal(report.standard, 'mls');
+    assert.equal(report.compliant, true);
+    assert.deepEqual(report.violations, []);
+  });
+
+  it('lists every rule broken and which ones the compliant cut fixes', () => {
+    const report = checkMlsCompliance(config({
+      brand: { logoPath: '/brand/logo.png', primaryHex: '#123456' },
+      listing: {
+        headline: 'Sunny Craftsman',
+        bullets: ['hardwood floors', 'text me for a showing'],
+        address: '12 Elm St, call 555-123-4567'
+      },
+      music: { path: '/audio/song.mp3' }
+    }));
+
+    assert.deepEqual(
+      report.violations.map(v => [v.rule, v.field, v.fixedInCut]),
+      [
+        ['agent-branding', 'brand.logoPath', true],
+        ['agent-branding', 'brand', true],
+        ['agent-contact', 'voiceover', true],
+        ['agent-contact', 'listing.bullets[1]', true],
+        ['agent-contact', 'listing.address', false],
+        ['music-lyrics', 'music.instrumental', true]
+      ]
+    );
+    // The address is shown unchanged on the MLS slate, so the cut can't fix it
+    assert.equal(report.compliant, false);
+  });
+
+  it('fails when scrubbing would leave the voiceover empty', () => {
+    const report = checkMlsCompliance(config({
+      voiceover: { text: 'Call me today at 555-123-4567.' },
+      music: { path: '/audio/piano.mp3', instrumental: true }
+    }));
+
+    assert.deepEqual(report.violations.map(v => v.field), ['voiceover.text']);
+    assert.equal(report.violations[0].fixedInCut, false);
+    assert.equal(report.compliant, false);
+  });
+});
@@ -0,0 +1,115 @@
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+import { ImageIngestor } from '../src/pipeline/ingest.js';
+import { PerceptualHasher } from '../src/pipeline/perceptual-hash.js';
+import { HomeTourConfig, ImageInput, PipelineContext } from '../src/types.js';
+
+describe('PerceptualHasher', () => {
+  it('sets a bit wherever brightness rises to the right', () => {
+    const rising = Buffer.alloc(72);
+    for (let i = 0; i < 72; i++) {
+      rising[i] = (i % 9) * 10;
+    }
+    assert.equal(PerceptualHasher.fromPixels(rising), 'ffffffffffffffff');
+    assert.equal(PerceptualHasher.fromPixels(Buffer.alloc(72, 50)), '0000000000000000');
+
+    // Brighter overall, same shape: same hash
+    const brighter = Buffer.from(rising.map(value => value + 40));
+    assert.equal(PerceptualHasher.fromPixels(brighter), PerceptualHasher.fromPixels(rising));
+  });
+
+  it('counts differing bits', () => {
+    assert.equal(PerceptualHasher.distance('0000000000000000', '0000000000000000'), 0);
+    assert.equal(PerceptualHasher.distance('0000000000000000', 'ffffffffffffffff'), 64);
+    assert.equal(PerceptualHasher.distance('00000000000000ff', '000000000000ff0f'), 12);
+    assert.equal(PerceptualHasher.distance('8000000000000001', '0000000000000000'), 2);
+  });
+});
+
+describe('ImageIngestor near-duplicate culling', () => {
+  let tmpDir: string;
+  let hashes: Record<string, string>;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'duplicates-'));
+    hashes = {};
+    mock.method(PerceptualHasher.prototype, 'hash', async (imagePath: string) => hashes[path.basename(imagePath)]);
+  });
+
+  afterEach(() => {
+    mock.restoreAll();
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  // Larger files win ties, so bytes decides which shot of a group is kept
+  function photo(name: string, hash: string, bytes: number, room?: string): ImageInput {
+    const imagePath = path.join(tmpDir, name);
+    fs.writeFileSync(imagePath, Buffer.alloc(bytes, 1));
+    hashes[name] = hash;
+    return room ? { path: imagePath, room } : { path: imagePath };
+  }
+
+  function ingestor(): ImageIngestor {
+    const context = {
+      config: { ordering: 'as-given' } as HomeTourConfig,
+      tmpDir
+    } as PipelineContext;
+    return new ImageIngestor(context, {
+      analyzeQuality: false,
+      classifier: { classify: async () => ({ room: 'living_room', confidence: 0.9 }) }
+    });
+  }
+
+  it('collapses a bracket transitively and keeps the best shot', async () => {
+    const result = await ingestor().ingestImages([
+      photo('bracket-1.jpg', '0000000000000000', 10),
+      photo('bracket-2.jpg', '00000000000000ff', 30),
+      photo('bracket-3.jpg', '000000000000ffff', 20),
+      photo('other.jpg', 'ffffffffffffffff', 10)
+    ]);
+
+    assert.deepEqual(result.images.map(image => path.basename(image.path)), ['bracket-2.jpg', 'other.jpg']);
+    assert.deepEqual(
+      result.images[0].referenceImages?.map(p => path.basename(p)),
+      ['bracket-1.jpg', 'bracket-3.jpg']
+    );
+    assert.equal(result.duplicates.length, 1);
+    assert.equal(result.duplicates[0].maxDistance, 8);
+  });
+
+  it('never joins photos whose rooms were set to different rooms', async () => {
+    // The unlabeled shot is close to both, but the two groups must stay apart
+    const result = await ingestor().ingestImages([
+      photo('kitchen.jpg', '0000000000000000', 30, 'kitchen'),
+      photo('between.jpg', '00000000000000ff', 20),
+      photo('dining.jpg', '000000000000ffff', 10, 'dining')
+    ]);
+
+    assert.deepEqual(result.images.map(image => path.basename(image.path)), ['kitchen.jpg', 'dining.jpg']);
+    assert.deepEqual(result.duplicates.map(cluster => path.basename(cluster.kept)), ['kitchen.jpg']);
+    assert.deepEqual(result.duplicates[0].culled.map(p => path.basename(p)), ['between.jpg']);
+  });
+
+  it('keeps photos it could not hash', async () => {
+    const result = await ingestor().ingestImages([
+      photo('a.jpg', '0000000000000000', 10),
+      photo('b.jpg', '0000000000000000', 10)
+    ]);
+    assert.equal(result.images.length, 1);
+
+    const unhashable = ingestor();
+    mock.method(PerceptualHasher.prototype, 'hash', async () => {
+      throw new Error('corrupt');
+    });
+    const kept = await unhashable.ingestImages([
+      photo('c.jpg', '0000000000000000', 10),
+      photo('d.jpg', '0000000000000000', 10)
+    ]);
+    assert.equal(kept.images.length, 2);
+    assert.deepEqual(kept.duplicates, []);
+    assert.ok(kept.warnings.some(warning => warning.startsWith('Could not check c.jpg for duplicates')));
+  });
+});
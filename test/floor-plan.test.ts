@@ -0,0 +1,79 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { FloorPlanGraph } from '../src/pipeline/floor-plan.js';
+import { FloorPlan } from '../src/types.js';
+
+// Two floors and a basement: the stairs go up from the hall, the basement
+// stairs down from the kitchen, and the patio is off the kitchen
+const plan: FloorPlan = {
+  rooms: [
+    { id: 'exterior', adjacent: ['entry'] },
+    { id: 'entry', adjacent: ['living', 'hall'] },
+    { id: 'living', adjacent: ['kitchen'] },
+    { id: 'kitchen', adjacent: ['patio', 'basement-stairs'] },
+    { id: 'hall', kind: 'hallway', adjacent: ['bath', 'stairs'] },
+    { id: 'bath', type: 'bathroom' },
+    { id: 'stairs', kind: 'stairs', adjacent: ['landing'] },
+    { id: 'landing', kind: 'hallway', floor: 1, adjacent: ['bedroom-1', 'bedroom-2'] },
+    { id: 'bedroom-1', floor: 1 },
+    { id: 'bedroom-2', floor: 1 },
+    { id: 'basement-stairs', kind: 'stairs', adjacent: ['rec-room'] },
+    { id: 'rec-room', type: 'living', floor: -1 },
+    { id: 'patio', type: 'backyard' }
+  ]
+};
+
+describe('FloorPlanGraph', () => {
+  it('routes floor by floor, nearest room first, and ends outside', () => {
+    const route = new FloorPlanGraph(plan).route([
+      'patio', 'bedroom-2', 'rec-room', 'bath', 'kitchen', 'exterior', 'bedroom-1', 'living'
+    ]);
+
+    assert.deepEqual(route, [
+      'exterior', 'living', 'kitchen', 'bath',
+      'bedroom-1', 'bedroom-2',
+      'rec-room',
+      'patio'
+    ]);
+  });
+
+  it('resolves labels by room type and drops labels the plan lacks', () => {
+    const graph = new FloorPlanGraph(plan);
+    assert.equal(graph.resolve('bathroom')?.id, 'bath');
+    assert.equal(graph.resolve('bedroom')?.id, 'bedroom-1');
+    assert.equal(graph.resolve('garage'), undefined);
+
+    // Both labels land on the same room and stay together
+    assert.deepEqual(graph.route(['bedroom', 'garage', 'kitchen', 'bedroom-1']), ['kitchen', 'bedroom', 'bedroom-1']);
+    assert.deepEqual(graph.route(['garage']), []);
+  });
+
+  it('starts where the plan says', () => {
+    const route = new FloorPlanGraph({ ...plan, start: 'bedroom-2' }).route(['living', 'bedroom-1', 'bedroom-2', 'bath']);
+    assert.deepEqual(route, ['bedroom-2', 'bedroom-1', 'bath', 'living']);
+  });
+
+  it('lists the hallways and stairs between two rooms', () => {
+    const graph = new FloorPlanGraph(plan);
+    assert.deepEqual(graph.connectorsBetween('living', 'bedroom-2').map(room => room.id), ['hall', 'stairs', 'landing']);
+    assert.deepEqual(graph.connectorsBetween('kitchen', 'rec-room').map(room => room.id), ['basement-stairs']);
+    // Doors work both ways
+    assert.deepEqual(graph.connectorsBetween('bathroom', 'entry').map(room => room.id), ['hall']);
+    assert.deepEqual(graph.connectorsBetween('living', 'kitchen'), []);
+    assert.deepEqual(graph.connectorsBetween('living', 'garage'), []);
+  });
+
+  it('finds no connectors between rooms that are not joined', () => {
+    const graph = new FloorPlanGraph({ rooms: [{ id: 'kitchen' }, { id: 'hall', kind: 'hallway' }, { id: 'garage' }] });
+    assert.deepEqual(graph.connectorsBetween('kitchen', 'garage'), []);
+  });
+
+  it('rejects plans with duplicate or unknown rooms', () => {
+    assert.throws(() => new FloorPlanGraph({ rooms: [{ id: 'kitchen' }, { id: 'kitchen' }] }), /lists room "kitchen" twice/);
+    assert.throws(
+      () => new FloorPlanGraph({ rooms: [{ id: 'kitchen', adjacent: ['pantry'] }] }),
+      /"kitchen" is adjacent to unknown room "pantry"/
+    );
+    assert.throws(() => new FloorPlanGraph({ rooms: [{ id: 'kitchen' }], start: 'porch' }), /starts at unknown room "porch"/);
+  });
+});
@@ -0,0 +1,74 @@
+import assert from 'node:assert/strict';
+import path from 'node:path';
+import { describe, it } from 'node:test';
+import { extractRawPreview, readHeic } from '../src/pipeline/image-formats.js';
+
+const FIXTURES = path.join(import.meta.dirname, 'fixtures');
+
+// A minimal JPEG: SOI, optional APP1, a frame header, a scan with stuffed
+// bytes and a restart marker, then EOI
+function jpeg(width: number, height: number, options: { sof?: number; app1?: Buffer } = {}): Buffer {
+  const segment = (marker: number, body: Buffer) => {
+    const header = Buffer.from([0xff, marker, 0, 0]);
+    header.writeUInt16BE(body.length + 2, 2);
+    return Buffer.concat([header, body]);
+  };
+  const frame = Buffer.alloc(6);
+  frame.writeUInt8(8, 0);
+  frame.writeUInt16BE(height, 1);
+  frame.writeUInt16BE(width, 3);
+
+  return Buffer.concat([
+    Buffer.from([0xff, 0xd8]),
+    options.app1 ? segment(0xe1, options.app1) : Buffer.alloc(0),
+    segment(options.sof ?? 0xc0, frame),
+    segment(0xda, Buffer.alloc(6)),
+    Buffer.from([0x12, 0xff, 0x00, 0x34, 0xff, 0xd0, 0x56]),
+    Buffer.from([0xff, 0xd9])
+  ]);
+}
+
+const filler = (length: number) => Buffer.alloc(length, 0x2a);
+
+describe('extractRawPreview', () => {
+  it('picks the largest embedded preview', () => {
+    const preview = jpeg(1620, 1080);
+    const raw = Buffer.concat([filler(64), jpeg(160, 120), filler(32), preview, filler(16)]);
+
+    assert.deepEqual(extractRawPreview(raw), preview);
+  });
+
+  it('keeps an EXIF thumbnail inside the preview instead of cutting it short', () => {
+    const preview = jpeg(1620, 1080, { app1: Buffer.concat([Buffer.from('Exif\0\0'), jpeg(160, 120)]) });
+    const raw = Buffer.concat([filler(64), preview]);
+
+    assert.deepEqual(extractRawPreview(raw), preview);
+  });
+
+  it('skips lossless sensor data', () => {
+    const preview = jpeg(1620, 1080);
+    const raw = Buffer.concat([filler(8), jpeg(6000, 4000, { sof: 0xc3 }), preview]);
+
+    assert.deepEqual(extractRawPreview(raw), preview);
+  });
+
+  it('returns null without a complete JPEG', () => {
+    assert.equal(extractRawPreview(filler(256)), null);
+    assert.equal(extractRawPreview(jpeg(1620, 1080).subarray(0, 20)), null);
+  });
+});
+
+describe('readHeic', () => {
+  // A 2x1 grid of x265 tiles with a 90 degree irot, laid out as iPhones write portrait photos
+  it('decodes a rotated tile-grid HEIC upright', async () => {
+    const { width, height, data } = await readHeic(path.join(FIXTURES, 'portrait-grid.heic'));
+
+    assert.equal(width, 128);
+    assert.equal(height, 256);
+    assert.equal(data.length, width * height * 4);
+    // The stored image's black top-left corner ends up bottom-left
+    const pixel = (x: number, y: number) => Array.from(data.subarray((y * width + x) * 4, (y * width + x) * 4 + 3));
+    assert.deepEqual(pixel(10, 245), [0, 0, 0]);
+    assert.notDeepEqual(pixel(10, 10), [0, 0, 0]);
+  });
+});
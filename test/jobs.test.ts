@@ -0,0 +1,185 @@
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import { Job, JobQueue, JobRequest, JobResult, JobStore } from '../src/server/jobs.js';
+
+const request: JobRequest = {
+  imagePaths: ['uploads/a.jpg'],
+  targetSeconds: 30,
+  aspect: '16:9',
+  resolution: '1080p',
+  veoProject: 'project',
+  veoLocation: 'us-central1',
+  veoModel: 'veo-3.0-generate-001'
+};
+
+const result: JobResult = {
+  outputPath: 'out/tour.mp4',
+  duration: 30,
+  veoSegments: 3,
+  kenBurnsSegments: 2,
+  estimatedCost: 2.4
+};
+
+// Lets queued .then/.finally callbacks run
+const settle = () => new Promise(resolve => setTimeout(resolve, 5));
+
+describe('JobStore', () => {
+  let dir: string;
+  let filePath: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'jobs-'));
+    filePath = path.join(dir, 'state', 'jobs.json');
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('persists created and updated jobs across instances', () => {
+    const store = new JobStore(filePath);
+    store.create('a', request);
+    store.create('b', request);
+    store.update('a', { status: 'failed', error: 'boom' });
+    store.delete('b');
+
+    const reloaded = new JobStore(filePath);
+    assert.deepEqual(reloaded.list().map(job => job.id), ['a']);
+    assert.equal(reloaded.get('a')!.status, 'failed');
+    assert.equal(reloaded.get('a')!.error, 'boom');
+    assert.deepEqual(reloaded.get('a')!.request, request);
+    // Only the renamed store is left behind, never a temp file
+    assert.deepEqual(fs.readdirSync(path.dirname(filePath)), ['jobs.json']);
+  });
+
+  it('batches progress ticks into one delayed write', async (t) => {
+    t.mock.timers.enable({ apis: ['setTimeout'] });
+    const store = new JobStore(filePath);
+    store.create('a', request);
+
+    store.updateProgress('a', { progress: 10, phase: 'generating', message: 'Segment 1' });
+    store.updateProgress('a', { progress: 20, phase: 'generating', message: 'Segment 2' });
+    assert.equal(new JobStore(filePath).get('a')!.progress, 0);
+
+    t.mock.timers.tick(1000);
+    assert.equal(new JobStore(filePath).get('a')!.progress, 20);
+  });
+
+  it('rejects updates to unknown jobs', () => {
+    const store = new JobStore(filePath);
+    assert.throws(() => store.update('missing', { progress: 1 }), /Job not found: missing/);
+  });
+});
+
+describe('JobQueue', () => {
+  let dir: string;
+  let store: JobStore;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'jobs-'));
+    store = new JobStore(path.join(dir, 'jobs.json'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  // Runner whose jobs finish only when the test resolves them
+  function controlledRunner() {
+    const pending = new Map<string, { resolve: (result: JobResult) => void; reject: (error: Error) => void }>();
+    const calls: Array<{ id: string; resume: boolean; signal: AbortSignal }> = [];
+    const runner = (job: Job, signal: AbortSignal, resume: boolean) => {
+      calls.push({ id: job.id, resume, signal });
+      return new Promise<JobResult>((resolve, reject) => pending.set(job.id, { resolve, reject }));
+    };
+    return { runner, calls, pending };
+  }
+
+  it('runs at most maxConcurrent jobs and starts the next in FIFO order', async () => {
+    const { runner, calls, pending } = controlledRunner();
+    const queue = new JobQueue(store, runner, { maxConcurrent: 2 });
+    for (const id of ['a', 'b', 'c']) {
+      store.create(id, request);
+      queue.enqueue(id);
+    }
+
+    assert.deepEqual(calls.map(call => call.id), ['a', 'b']);
+    assert.equal(queue.pendingCount, 1);
+    assert.equal(store.get('c')!.status, 'pending');
+
+    pending.get('b')!.resolve(result);
+    await settle();
+
+    assert.deepEqual(calls.map(call => call.id), ['a', 'b', 'c']);
+    assert.equal(store.get('b')!.status, 'completed');
+    assert.equal(store.get('b')!.progress, 100);
+    assert.deepEqual(store.get('b')!.result, result);
+  });
+
+  it('treats a maxConcurrent below one as one', () => {
+    const { runner, calls } = controlledRunner();
+    const queue = new JobQueue(store, runner, { maxConcurrent: 0 });
+    store.create('a', request);
+    store.create('b', request);
+    queue.enqueue('a');
+    queue.enqueue('b');
+
+    assert.deepEqual(calls.map(call => call.id), ['a']);
+  });
+
+  it('records failures and resumes them on retry', async () => {
+    const { runner, calls, pending } = controlledRunner();
+    const queue = new JobQueue(store, runner);
+    store.create('a', request);
+    queue.enqueue('a');
+
+    pending.get('a')!.reject(new Error('quota exhausted'));
+    await settle();
+    assert.equal(store.get('a')!.status, 'failed');
+    assert.equal(store.get('a')!.error, 'quota exhausted');
+    assert.throws(() => queue.cancel('a'), /already failed/);
+
+    queue.retry('a');
+    assert.equal(calls.length, 2);
+    assert.equal(calls[0].resume, false);
+    assert.equal(calls[1].resume, true);
+    assert.equal(store.get('a')!.attempts, 2);
+    assert.equal(store.get('a')!.error, undefined);
+  });
+
+  it('cancels running jobs through their signal and ignores their late outcome', async () => {
+    const { runner, calls, pending } = controlledRunner();
+    const queue = new JobQueue(store, runner);
+    store.create('a', request);
+    queue.enqueue('a');
+
+    queue.cancel('a');
+    assert.equal(calls[0].signal.aborted, true);
+    assert.equal(store.get('a')!.status, 'cancelled');
+    assert.throws(() => queue.retry('a'), /still stopping/);
+
+    pending.get('a')!.resolve(result);
+    await settle();
+    assert.equal(store.get('a')!.status, 'cancelled');
+    assert.equal(store.get('a')!.result, undefined);
+    assert.equal(queue.isRunning('a'), false);
+  });
+
+  it('re-queues interrupted and pending jobs after a restart', () => {
+    for (const id of ['done', 'interrupted', 'waiting']) {
+      store.create(id, request);
+    }
+    store.update('done', { status: 'completed' });
+    store.update('interrupted', { status: 'processing', attempts: 1 });
+
+    const { runner, calls } = controlledRunner();
+    const queue = new JobQueue(new JobStore(path.join(dir, 'jobs.json')), runner);
+    assert.equal(queue.recover(), 2);
+
+    assert.deepEqual(calls.map(call => [call.id, call.resume]), [['interrupted', true]]);
+    assert.equal(queue.pendingCount, 1);
+  });
+});
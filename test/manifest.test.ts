@@ -0,0 +1,111 @@
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import { RunManifest } from '../src/pipeline/manifest.js';
+import { HomeTourConfig } from '../src/types.js';
+
+const config = (overrides: Partial<HomeTourConfig> = {}): HomeTourConfig => ({
+  images: [{ path: '/photos/kitchen.jpg' }, { path: '/photos/living.jpg' }],
+  output: { path: '/out/tour.mp4', aspect: '16:9', resolution: '1080p', targetSeconds: 30 },
+  veo: { projectId: 'project', location: 'us-central1', model: 'veo-3.0-fast-generate-001' },
+  ...overrides
+} as HomeTourConfig);
+
+describe('RunManifest', () => {
+  let tmpDir: string;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'run-manifest-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('resumes a run with its phases and segments', () => {
+    const manifest = RunManifest.open(tmpDir, config(), false);
+    manifest.completePhase('ingest');
+    manifest.updateSegment('kitchen', 'veo', { status: 'running', operationName: 'operations/1' });
+    manifest.markFailed(new Error('quota'));
+
+    const resumed = RunManifest.open(tmpDir, config(), true);
+
+    assert.equal(resumed.data.status, 'running');
+    assert.equal(resumed.data.error, undefined);
+    assert.ok(resumed.isPhaseComplete('ingest'));
+    assert.equal(resumed.getSegment('kitchen')?.operationName, 'operations/1');
+  });
+
+  it('starts over without resume', () => {
+    RunManifest.open(tmpDir, config(), false).completePhase('ingest');
+
+    assert.equal(RunManifest.open(tmpDir, config(), false).isPhaseComplete('ingest'), false);
+  });
+
+  it('refuses to resume after the configuration changed', () => {
+    RunManifest.open(tmpDir, config(), false);
+
+    assert.throws(
+      () => RunManifest.open(tmpDir, config({ images: [{ path: '/photos/kitchen.jpg' }] }), true),
+      /configuration changed/
+    );
+  });
+
+  it('ignores scratch paths, resume flags and concurrency in the config hash', () => {
+    RunManifest.open(tmpDir, config(), false);
+    const scratch = config({
+      tmpDir: '/elsewhere',
+      cacheDir: '/cache',
+      resume: true,
+      keepIntermediates: true,
+      veo: { ...config().veo, maxConcurrent: 8 }
+    });
+
+    assert.doesNotThrow(() => RunManifest.open(tmpDir, scratch, true));
+  });
+
+  it('gives each configuration its own run directory', () => {
+    const first = RunManifest.runDirectory(tmpDir, config());
+
+    assert.equal(RunManifest.runDirectory(tmpDir, config({ keepIntermediates: true })), first);
+    assert.notEqual(RunManifest.runDirectory(tmpDir, config({ ordering: 'capture-time' })), first);
+    assert.equal(path.dirname(path.dirname(first)), tmpDir);
+  });
+
+  it('finds the most recently updated run', async () => {
+    const older = RunManifest.open(RunManifest.runDirectory(tmpDir, config()), config(), false);
+    await new Promise(resolve => setTimeout(resolve, 5));
+    const other = config({ ordering: 'capture-time' });
+    RunManifest.open(RunManifest.runDirectory(tmpDir, other), other, false).completePhase('ingest');
+
+    const latest = RunManifest.loadLatest(tmpDir);
+    assert.ok(latest?.isPhaseComplete('ingest'));
+    assert.notEqual(latest?.data.configHash, older.data.configHash);
+  });
+
+  it('removes everything but the manifest', async () => {
+    const manifest = RunManifest.open(tmpDir, config(), false);
+    fs.mkdirSync(path.join(tmpDir, 'preprocessed'));
+    fs.writeFileSync(path.join(tmpDir, 'preprocessed', 'kitchen.jpg'), '');
+    fs.writeFileSync(path.join(tmpDir, 'veo_1.mp4'), '');
+
+    await manifest.removeIntermediates();
+
+    assert.deepEqual(fs.readdirSync(tmpDir), ['manifest.json']);
+    assert.ok(RunManifest.load(tmpDir));
+  });
+
+  it('only reuses completed segments whose file survived', () => {
+    const manifest = RunManifest.open(tmpDir, config(), false);
+    const clip = path.join(tmpDir, 'kitchen.mp4');
+    fs.writeFileSync(clip, '');
+    const segment = { path: clip, duration: 8, type: 'veo' as const, room: 'kitchen', hasAudio: false };
+    manifest.updateSegment('kitchen', 'veo', { status: 'completed', segment });
+
+    assert.deepEqual(manifest.getCompletedSegment('kitchen'), segment);
+    fs.rmSync(clip);
+    assert.equal(manifest.getCompletedSegment('kitchen'), undefined);
+  });
+});
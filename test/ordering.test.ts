@@ -0,0 +1,103 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { IMAGE_ORDERINGS, isImageOrdering, orderImages } from '../src/pipeline/ordering.js';
+import { ImageInput } from '../src/types.js';
+
+const at = (minute: number) => new Date(Date.UTC(2026, 4, 1, 10, minute));
+const names = (images: ImageInput[]) => images.map(image => image.path);
+
+describe('orderImages', () => {
+  it('covers every ordering policy', () => {
+    assert.deepEqual(IMAGE_ORDERINGS, ['as-given', 'capture-time', 'room-flow', 'filename-number']);
+    assert.equal(isImageOrdering('room-flow'), true);
+    assert.equal(isImageOrdering('random'), false);
+  });
+
+  it('keeps the given order for as-given', () => {
+    const images: ImageInput[] = [
+      { path: 'c.jpg', room: 'backyard', captureTime: at(1) },
+      { path: 'a.jpg', room: 'exterior', captureTime: at(3) },
+      { path: 'b.jpg', room: 'kitchen', captureTime: at(2) }
+    ];
+    const ordered = orderImages(images, 'as-given');
+
+    assert.deepEqual(names(ordered), ['c.jpg', 'a.jpg', 'b.jpg']);
+    assert.notEqual(ordered, images);
+  });
+
+  it('sorts by capture time with undated images last in their given order', () => {
+    const ordered = orderImages([
+      { path: 'undated-1.jpg' },
+      { path: 'late.jpg', captureTime: at(30) },
+      { path: 'undated-2.jpg' },
+      { path: 'early.jpg', captureTime: at(5) },
+      { path: 'also-early.jpg', captureTime: at(5) }
+    ], 'capture-time');
+
+    assert.deepEqual(names(ordered), ['early.jpg', 'also-early.jpg', 'late.jpg', 'undated-1.jpg', 'undated-2.jpg']);
+  });
+
+  it('sorts by the last number in the original file name', () => {
+    const ordered = orderImages([
+      { path: 'cover.jpg' },
+      { path: '/photos/house_12.jpg' },
+      { path: '/photos/2024_shoot_3.jpg' },
+      // Converted files are named after a hash; the original name counts
+      { path: '/tmp/converted/IMG_1_f00d.jpg', sourcePath: '/photos/IMG_0007.HEIC' },
+      { path: 'house_2.jpg' },
+      { path: 'twilight.jpg' }
+    ], 'filename-number');
+
+    assert.deepEqual(names(ordered), [
+      'house_2.jpg',
+      '/photos/2024_shoot_3.jpg',
+      '/tmp/converted/IMG_1_f00d.jpg',
+      '/photos/house_12.jpg',
+      'cover.jpg',
+      'twilight.jpg'
+    ]);
+  });
+
+  it('walks rooms in registry order for room-flow, shots of a room by capture time', () => {
+    const ordered = orderImages([
+      { path: 'yard.jpg', room: 'backyard', captureTime: at(1) },
+      { path: 'kitchen-2.jpg', room: 'kitchen', captureTime: at(9) },
+      { path: 'cellar.jpg', room: 'wine-cellar', captureTime: at(2) },
+      { path: 'bed-2.jpg', room: 'bedroom-2', captureTime: at(3) },
+      { path: 'front.jpg', room: 'exterior', captureTime: at(4) },
+      { path: 'kitchen-1.jpg', room: 'kitchen', captureTime: at(5) },
+      { path: 'bed-1.jpg', room: 'bedroom-1', captureTime: at(6) },
+      { path: 'living.jpg', room: 'living', captureTime: at(7) }
+    ], 'room-flow');
+
+    assert.deepEqual(names(ordered), [
+      'front.jpg',
+      'living.jpg',
+      'kitchen-1.jpg',
+      'kitchen-2.jpg',
+      'bed-1.jpg',
+      'bed-2.jpg',
+      // Unknown room types go just before the outdoor finale
+      'cellar.jpg',
+      'yard.jpg'
+    ]);
+  });
+
+  it('follows the floor plan first for room-flow, then the rooms it lacks', () => {
+    const ordered = orderImages([
+      { path: 'office.jpg', room: 'office' },
+      { path: 'kitchen.jpg', room: 'kitchen' },
+      { path: 'loft.jpg', room: 'loft' },
+      { path: 'living.jpg', room: 'living' }
+    ], 'room-flow', {
+      rooms: [
+        { id: 'kitchen', adjacent: ['loft'] },
+        { id: 'loft', type: 'living', adjacent: ['living'] },
+        { id: 'living' }
+      ],
+      start: 'kitchen'
+    });
+
+    assert.deepEqual(names(ordered), ['kitchen.jpg', 'loft.jpg', 'living.jpg', 'office.jpg']);
+  });
+});
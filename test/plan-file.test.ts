@@ -0,0 +1,175 @@
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import {
+  fromScenePlanFile,
+  planImageInputs,
+  readScenePlanFile,
+  toScenePlanFile,
+  validateScenePlanFile,
+  writeScenePlanFile
+} from '../src/pipeline/plan-file.js';
+import { ScenePlan, ScenePlanFile } from '../src/types.js';
+
+describe('scene plan files', () => {
+  let tmpDir: string;
+  let photos: Record<string, string>;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'plan-file-'));
+    photos = {};
+    for (const name of ['front', 'kitchen', 'hall']) {
+      photos[name] = path.join(tmpDir, 'photos', `${name}.jpg`);
+      fs.mkdirSync(path.dirname(photos[name]), { recursive: true });
+      fs.writeFileSync(photos[name], Buffer.alloc(8, 1));
+    }
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  const planned = (): ScenePlan => ({
+    scenes: [
+      { id: 'scene-1', room: 'exterior', type: 'veo', duration: 5.2, images: [{ path: photos.front }] },
+      { id: 'scene-2', room: 'hallway', type: 'kenburns', duration: 2.04, transition: 'hallway', images: [{ path: photos.hall }] },
+      {
+        id: 'scene-3',
+        room: 'kitchen',
+        type: 'kenburns',
+        duration: 4,
+        // Preprocessed copy; the plan names the original
+        images: [{ path: path.join(tmpDir, 'tmp', 'kitchen_pre.jpg'), sourcePath: photos.kitchen }],
+        lowerThird: null
+      }
+    ],
+    totalDuration: 11.24,
+    veoSegments: 1,
+    kenBurnsSegments: 2
+  });
+
+  it('writes out every choice the renderer would make', () => {
+    const file = toScenePlanFile(planned(), { headline: 'Sunny Craftsman' });
+    const [front, hall, kitchen] = file.scenes;
+
+    assert.equal(file.version, 1);
+    assert.equal(front.duration, 6);
+    assert.ok(front.prompt && front.prompt.length > 0);
+    assert.equal(front.motion, undefined);
+    assert.equal(front.lowerThird, 'Exterior');
+    assert.equal(hall.duration, 2);
+    assert.equal(hall.lowerThird, null);
+    assert.deepEqual(kitchen.images, [photos.kitchen]);
+    assert.deepEqual(kitchen.motion, { zoom: 'in', pan: 'left' });
+    assert.equal(kitchen.lowerThird, null);
+    assert.equal(kitchen.prompt, undefined);
+    assert.ok(kitchen.narration);
+
+    // A custom script replaces the per-scene lines
+    assert.ok(toScenePlanFile(planned(), undefined, true).scenes.every(scene => scene.narration === undefined));
+  });
+
+  it('round-trips through a file with image paths relative to it', async () => {
+    const file = toScenePlanFile(planned());
+    const planPath = path.join(tmpDir, 'plans', 'tour.plan.json');
+    await writeScenePlanFile(planPath, file);
+
+    const written = JSON.parse(fs.readFileSync(planPath, 'utf8')) as ScenePlanFile;
+    assert.deepEqual(written.scenes.map(scene => scene.images), [
+      ['../photos/front.jpg'],
+      ['../photos/hall.jpg'],
+      ['../photos/kitchen.jpg']
+    ]);
+
+    // The folder can move as a whole
+    const movedDir = path.join(os.tmpdir(), `${path.basename(tmpDir)}-moved`);
+    fs.renameSync(tmpDir, movedDir);
+    try {
+      const read = await readScenePlanFile(path.join(movedDir, 'plans', 'tour.plan.json'));
+      const expected = JSON.parse(JSON.stringify(file).split(tmpDir).join(movedDir));
+      assert.deepEqual(read, expected);
+    } finally {
+      fs.renameSync(movedDir, tmpDir);
+    }
+  });
+
+  it('reports every problem in one error', () => {
+    const plan = {
+      version: 2,
+      scenes: [
+        { id: 'a', room: 'kitchen', type: 'veo', duration: 5, images: ['photos/kitchen.jpg'], motion: { zoom: 'in', pan: 'left' } },
+        { id: 'a', room: '', type: 'kenburns', duration: 0, images: ['photos/missing.jpg'], prompt: 'glide', speed: 2 },
+        { id: 'c', room: 'hall', type: 'dolly', duration: 4, images: [] }
+      ]
+    };
+
+    assert.throws(() => validateScenePlanFile(plan, tmpDir), (error: Error) => {
+      assert.equal(error.message.split('\n')[0], 'Invalid scene plan:');
+      assert.deepEqual(error.message.split('\n  ').slice(1), [
+        'plan.version: must be one of 1',
+        'plan.scenes[1].room: must not be empty',
+        'plan.scenes[1].duration: must be greater than 0',
+        'plan.scenes[1].speed: is not a plan field',
+        'plan.scenes[2].type: must be one of "veo", "kenburns"',
+        'plan.scenes[2].images: needs at least 1 item'
+      ]);
+      return true;
+    });
+  });
+
+  it('checks scene rules once the shape is right', () => {
+    const plan = {
+      version: 1,
+      scenes: [
+        { id: 'a', room: 'kitchen', type: 'veo', duration: 5, images: ['photos/kitchen.jpg'], motion: { zoom: 'in', pan: 'left' } },
+        { id: 'a', room: 'hall', type: 'kenburns', duration: 3, images: ['photos/missing.jpg'], prompt: 'glide' }
+      ]
+    };
+
+    assert.throws(() => validateScenePlanFile(plan, tmpDir), (error: Error) => {
+      assert.deepEqual(error.message.split('\n  ').slice(1), [
+        'plan.scenes[0].duration: Veo scenes are 4, 6 or 8 seconds, not 5',
+        'plan.scenes[0].motion: only Ken Burns scenes have a motion; Veo scenes take a prompt',
+        'plan.scenes[1].id: "a" is used by an earlier scene',
+        'plan.scenes[1].prompt: only Veo scenes have a prompt; Ken Burns scenes take a motion',
+        'plan.scenes[1].images[0]: photos/missing.jpg not found'
+      ]);
+      return true;
+    });
+  });
+
+  it('rejects missing and malformed plan files', async () => {
+    await assert.rejects(readScenePlanFile(path.join(tmpDir, 'none.json')), /Scene plan not found/);
+
+    const brokenPath = path.join(tmpDir, 'broken.json');
+    fs.writeFileSync(brokenPath, '{ "version": 1,');
+    await assert.rejects(readScenePlanFile(brokenPath), /is not valid JSON/);
+  });
+
+  it('ingests each image once and renders the scenes as written', () => {
+    const file = toScenePlanFile(planned());
+    // The hallway move borrows the kitchen's photo
+    file.scenes[1].images = [photos.kitchen];
+
+    const inputs = planImageInputs(file);
+    assert.deepEqual(inputs, [
+      { path: photos.front, room: 'exterior' },
+      { path: photos.kitchen, room: 'kitchen' }
+    ]);
+
+    const ingested = inputs.map(input => ({ ...input, path: `${input.path}.pre.jpg`, sourcePath: input.path }));
+    const plan = fromScenePlanFile(file, ingested);
+    assert.deepEqual(plan.scenes.map(scene => scene.images[0].path), [
+      `${photos.front}.pre.jpg`,
+      `${photos.kitchen}.pre.jpg`,
+      `${photos.kitchen}.pre.jpg`
+    ]);
+    assert.equal(plan.totalDuration, 12);
+    assert.equal(plan.veoSegments, 1);
+    assert.equal(plan.kenBurnsSegments, 2);
+
+    assert.throws(() => fromScenePlanFile(file, ingested.slice(1)), /"scene-1" uses .*front\.jpg, which could not be ingested/);
+  });
+});
@@ -0,0 +1,101 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { getExportDimensions, resolveExportPresets } from '../src/pipeline/presets.js';
+import { OutputConfig } from '../src/types.js';
+
+function output(overrides: Partial<OutputConfig> = {}): OutputConfig {
+  return {
+    path: 'out/tour.mp4',
+    aspect: '16:9',
+    resolution: '720p',
+    targetSeconds: 60,
+    ...overrides
+  };
+}
+
+describe('getExportDimensions', () => {
+  it('sizes the short side by resolution and keeps the long side even', () => {
+    assert.deepEqual(getExportDimensions('16:9', '1080p'), { width: 1920, height: 1080 });
+    assert.deepEqual(getExportDimensions('16:9', '720p'), { width: 1280, height: 720 });
+    assert.deepEqual(getExportDimensions('9:16', '1080p'), { width: 1080, height: 1920 });
+    assert.deepEqual(getExportDimensions('1:1', '720p'), { width: 720, height: 720 });
+    assert.deepEqual(getExportDimensions('4:5', '1080p'), { width: 1080, height: 1350 });
+    assert.deepEqual(getExportDimensions('4:5', '720p'), { width: 720, height: 900 });
+  });
+});
+
+describe('resolveExportPresets', () => {
+  it('fills built-in presets from their defaults and custom ones from the main output', () => {
+    const [reels, custom] = resolveExportPresets(output({
+      presets: ['reels', { name: 'lobby-screen', aspect: '1:1', branded: false }]
+    }));
+
+    assert.deepEqual(reels, {
+      name: 'reels',
+      aspect: '9:16',
+      resolution: '1080p',
+      path: 'out/tour_reels.mp4',
+      maxSeconds: 90,
+      branded: true,
+      reframe: 'smart',
+      lowerThirdPosition: 'top-center',
+      lowerThirdStyle: 'badge',
+      bottomSafePercent: 20,
+      burnCaptions: false,
+      mlsCompliant: false,
+      width: 1080,
+      height: 1920
+    });
+    assert.equal(custom.resolution, '720p');
+    assert.equal(custom.path, 'out/tour_lobby-screen.mp4');
+    assert.equal(custom.branded, false);
+    assert.equal(custom.lowerThirdPosition, 'bottom-left');
+    assert.deepEqual([custom.width, custom.height], [720, 720]);
+  });
+
+  it('lets overrides replace built-in fields', () => {
+    const [youtube] = resolveExportPresets(output({
+      presets: [{ name: 'youtube', resolution: '720p', path: 'share/yt.mp4', maxSeconds: 45 }]
+    }));
+
+    assert.equal(youtube.path, 'share/yt.mp4');
+    assert.equal(youtube.maxSeconds, 45);
+    assert.deepEqual([youtube.width, youtube.height], [1280, 720]);
+    assert.equal(youtube.lowerThirdStyle, 'bar');
+  });
+
+  it('adds the mls cut in compliance mode and never brands it', () => {
+    const presets = resolveExportPresets(output({ presets: ['youtube'] }), { mls: true });
+    assert.deepEqual(presets.map(preset => preset.name), ['youtube', 'mls']);
+
+    const [mls] = resolveExportPresets(output({ presets: [{ name: 'mls', branded: true }] }));
+    assert.equal(mls.branded, false);
+    assert.equal(mls.reframe, 'pad');
+    assert.equal(mls.burnCaptions, false);
+  });
+
+  it('does not add a second mls cut when an mls-compliant preset is listed', () => {
+    const presets = resolveExportPresets(
+      output({ presets: [{ name: 'listing', aspect: '16:9', mlsCompliant: true }] }),
+      { mls: true }
+    );
+
+    assert.deepEqual(presets.map(preset => preset.name), ['listing']);
+    assert.equal(presets[0].branded, false);
+  });
+
+  it('rejects unknown, duplicate and badly bounded presets', () => {
+    assert.throws(
+      () => resolveExportPresets(output({ presets: ['vimeo' as any] })),
+      /Unknown export preset "vimeo"/
+    );
+    assert.throws(
+      () => resolveExportPresets(output({ presets: ['reels', { name: 'reels', maxSeconds: 60 }] })),
+      /listed twice/
+    );
+    assert.throws(
+      () => resolveExportPresets(output({ presets: [{ name: 'tiktok', maxSeconds: 0 }] })),
+      /invalid maxSeconds \(0\)/
+    );
+  });
+});
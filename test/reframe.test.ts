@@ -0,0 +1,63 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { cropOffsetExpression, pickDetailWindow } from '../src/pipeline/reframe.js';
+
+// One size x size grayscale frame, black with the given columns white
+function frameWithWhiteColumns(size: number, columns: number[]): Buffer {
+  const pixels = Buffer.alloc(size * size);
+  for (let row = 0; row < size; row++) {
+    for (const col of columns) {
+      pixels[row * size + col] = 255;
+    }
+  }
+  return pixels;
+}
+
+describe('pickDetailWindow', () => {
+  it('centers the window on the busiest columns', () => {
+    const pixels = frameWithWhiteColumns(8, [7]);
+    assert.equal(pickDetailWindow(pixels, 8, 'x', 0.25, 0.25), 0.75);
+  });
+
+  it('prefers the center when the detail is spread evenly along the axis', () => {
+    // The edge runs down every row, so no row is busier than another
+    const pixels = frameWithWhiteColumns(8, [7]);
+    assert.equal(pickDetailWindow(pixels, 8, 'y', 0.25, 0.25), 0.5);
+  });
+
+  it('sums detail over every sampled frame', () => {
+    const pixels = Buffer.concat([
+      frameWithWhiteColumns(8, [2]),
+      frameWithWhiteColumns(8, [2]),
+      frameWithWhiteColumns(8, [6])
+    ]);
+    assert.equal(pickDetailWindow(pixels, 8, 'x', 0.25, 0), 0.25);
+  });
+
+  it('falls back to the middle without usable frames', () => {
+    assert.equal(pickDetailWindow(Buffer.alloc(0), 8, 'x', 0.5, 0.25), 0.5);
+    assert.equal(pickDetailWindow(Buffer.alloc(64, 128), 8, 'x', 0.5, 0.25), 0.5);
+  });
+});
+
+describe('cropOffsetExpression', () => {
+  it('holds a single offset', () => {
+    assert.equal(cropOffsetExpression([], [], 1), '0');
+    assert.equal(cropOffsetExpression([120], [0], 1), '120');
+  });
+
+  it('eases between segments over the crossfade', () => {
+    assert.equal(
+      cropOffsetExpression([0, 200], [0, 5], 1),
+      'if(lt(t,5.000),0,if(lt(t,6.000),0+(200)*(t-5.000)/1.000,200))'
+    );
+  });
+
+  it('jumps almost at once without a crossfade', () => {
+    assert.equal(
+      cropOffsetExpression([40, 10, 90], [0, 4, 8.5], 0),
+      'if(lt(t,4.000),40,if(lt(t,4.001),40+(-30)*(t-4.000)/0.001,' +
+      'if(lt(t,8.500),10,if(lt(t,8.501),10+(80)*(t-8.500)/0.001,90))))'
+    );
+  });
+});
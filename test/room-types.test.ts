@@ -0,0 +1,86 @@
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { describe, it } from 'node:test';
+import { ImageIngestor } from '../src/pipeline/ingest.js';
+import {
+  compareRoomFlow,
+  getRoomType,
+  matchRoomType,
+  parseRoom,
+  renderRoomTemplate,
+  roomLabel,
+  roomLowerThird,
+  roomSpokenName
+} from '../src/pipeline/room-types.js';
+import { HomeTourConfig, PipelineContext } from '../src/types.js';
+
+describe('parseRoom', () => {
+  it('reads instance numbers however they are written', () => {
+    for (const room of ['Bedroom 2', 'bedroom_2', 'bedroom2', 'bedroom-2', '  BEDROOM  2 ']) {
+      assert.deepEqual(parseRoom(room), { id: 'bedroom-2', name: 'bedroom', type: 'bedroom', instance: 2 }, room);
+    }
+    assert.deepEqual(parseRoom('kitchen'), { id: 'kitchen', name: 'kitchen', type: 'kitchen', instance: undefined });
+  });
+
+  it('types free-form names by their words and keeps unknown rooms as their own type', () => {
+    assert.equal(parseRoom('Guest Bedroom').type, 'bedroom');
+    assert.equal(parseRoom('Family Room').type, 'living');
+    assert.equal(parseRoom('master bath').type, 'bathroom');
+    assert.equal(parseRoom('primary-bedroom').type, 'primary-bedroom');
+    assert.deepEqual(parseRoom('Wine Cellar 2'), { id: 'wine-cellar-2', name: 'wine-cellar', type: 'wine-cellar', instance: 2 });
+  });
+
+  it('matches the most specific type first', () => {
+    assert.equal(matchRoomType('/photos/master_bath_01.jpg'), 'bathroom');
+    assert.equal(matchRoomType('garage-door.jpg'), 'garage');
+    assert.equal(matchRoomType('golden-retriever.jpg'), undefined);
+  });
+});
+
+describe('room names', () => {
+  it('labels and narrates numbered and unknown rooms', () => {
+    assert.equal(roomLabel('bedroom-2'), 'Bedroom 2');
+    assert.equal(roomLabel('guest-bedroom'), 'Guest Bedroom');
+    assert.equal(roomLabel('primary-bedroom'), 'Primary Bedroom');
+    assert.equal(roomSpokenName('bedroom-2'), 'second bedroom');
+    assert.equal(roomSpokenName('living'), 'living room');
+    assert.equal(renderRoomTemplate('The {room} has views.', 'bedroom-3'), 'The third bedroom has views.');
+  });
+
+  it('falls back to a generic type and hides connector lower thirds', () => {
+    const cellar = getRoomType('wine-cellar');
+    assert.equal(cellar.label, 'Wine Cellar');
+    assert.equal(cellar.veoPriority, 999);
+    assert.equal(roomLowerThird('hallway'), null);
+    assert.equal(roomLowerThird('bedroom-2'), 'Bedroom 2');
+  });
+
+  it('sorts rooms in walk-through order and instances by number', () => {
+    assert.deepEqual(
+      ['backyard', 'bedroom-2', 'wine-cellar', 'kitchen', 'bedroom', 'exterior', 'pool'].sort(compareRoomFlow),
+      ['exterior', 'kitchen', 'bedroom', 'bedroom-2', 'wine-cellar', 'pool', 'backyard']
+    );
+  });
+});
+
+describe('ImageIngestor room instances', () => {
+  it('numbers the unnumbered room once another of its type is numbered', async () => {
+    const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'room-types-'));
+    try {
+      const images = ['Bedroom 2', 'bedroom', 'kitchen', 'Bath_1'].map((room, i) => {
+        const imagePath = path.join(tmpDir, `photo_${i}.jpg`);
+        fs.writeFileSync(imagePath, Buffer.alloc(8, 1));
+        return { path: imagePath, room };
+      });
+      const context = { config: { ordering: 'as-given' } as HomeTourConfig, tmpDir } as PipelineContext;
+      const result = await new ImageIngestor(context, { analyzeQuality: false, cullDuplicates: false }).ingestImages(images);
+
+      assert.deepEqual(result.images.map(image => image.room), ['bedroom-2', 'bedroom-1', 'kitchen', 'bath-1']);
+      assert.deepEqual(result.roomDistribution, { 'bedroom-2': 1, 'bedroom-1': 1, kitchen: 1, 'bath-1': 1 });
+    } finally {
+      fs.rmSync(tmpDir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,74 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { ScenePlanner, ScenePlannerOptions } from '../src/pipeline/scene-plan.js';
+import { generateSceneNarration } from '../src/prompts/segmentPrompt.js';
+import { ImageInput, OutputConfig, PipelineContext } from '../src/types.js';
+
+const context = { config: {}, tmpDir: '/tmp' } as PipelineContext;
+const listing = { headline: 'Sunny Craftsman', bullets: ['granite counters', 'hardwood floors'] } as any;
+
+function photos(rooms: Record<string, number>): ImageInput[] {
+  return Object.entries(rooms).flatMap(([room, count]) =>
+    Array.from({ length: count }, (_, index) => ({ path: `/photos/${room}-${index}.jpg`, room }) as ImageInput)
+  );
+}
+
+function plan(rooms: Record<string, number>, targetSeconds: number, options: ScenePlannerOptions = {}) {
+  return new ScenePlanner(context, options).planScenes(photos(rooms), { targetSeconds } as OutputConfig);
+}
+
+describe('ScenePlanner timeline', () => {
+  it('explains a tour that cannot reach the target', async () => {
+    const { timing } = await plan({ exterior: 1, kitchen: 1 }, 60);
+
+    assert.equal(timing!.withinTolerance, false);
+    assert.match(timing!.reasons[0], /run at most .* no spare photos are left/);
+  });
+
+  it('explains a tour that cannot fit under the target', async () => {
+    const { timing } = await plan({ exterior: 1, living: 1, kitchen: 1, bedroom: 1, bathroom: 1, office: 1 }, 10);
+
+    assert.equal(timing!.withinTolerance, false);
+    assert.match(timing!.reasons[0], /run at least/);
+  });
+
+  it('adds silent fillers from spare photos when narrated', async () => {
+    const { scenes, timing } = await plan(
+      { exterior: 1, living: 2, kitchen: 2, bedroom: 1, bathroom: 1, office: 1 },
+      45,
+      { narration: { listing } }
+    );
+
+    const filler = scenes.find(scene => scene.id.endsWith('_filler'));
+    assert.ok(filler);
+    assert.equal(filler.narration, '');
+    assert.equal(timing!.withinTolerance, true);
+
+    // The filler doesn't repeat its room's line
+    const lines = generateSceneNarration(scenes, listing).filter(Boolean);
+    assert.equal(new Set(lines).size, lines.length);
+  });
+
+  it('drops a filler that would miss the target by more', async () => {
+    const rooms = { exterior: 1, living: 2, kitchen: 1, bedroom: 1 };
+    const options = { veoDurations: [8], kenBurnsMinDuration: 6 };
+    const without = await plan(rooms, 31, options);
+    const withFiller = await plan(rooms, 33, options);
+
+    assert.equal(without.scenes.length, 4);
+    assert.equal(without.timing!.renderedSeconds, 29.8);
+    assert.match(without.timing!.reasons[0], /would miss the target by more/);
+    assert.equal(withFiller.scenes.length, 5);
+  });
+
+  it('counts the end slate towards the target', async () => {
+    const { timing } = await plan({ exterior: 1, living: 1, kitchen: 1, bedroom: 1 }, 30, {
+      endSlateDuration: 3,
+      preferVeoOverKenBurns: false
+    });
+
+    assert.equal(timing!.endSlateSeconds, 3);
+    assert.equal(timing!.withinTolerance, true);
+    assert.ok(Math.abs(timing!.renderedSeconds - 30) <= 0.5);
+  });
+});
@@ -0,0 +1,82 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { runWithConcurrency } from '../src/pipeline/scheduler.js';
+import { isQuotaError, quotaBackoffDelay } from '../src/pipeline/veo.js';
+
+const tick = () => new Promise(resolve => setTimeout(resolve, 1));
+
+describe('runWithConcurrency', () => {
+  it('returns results in input order with at most limit in flight', async () => {
+    let inFlight = 0;
+    let peak = 0;
+    const results = await runWithConcurrency([5, 1, 4, 2, 3], 2, async (delay, index) => {
+      peak = Math.max(peak, ++inFlight);
+      await new Promise(resolve => setTimeout(resolve, delay));
+      inFlight--;
+      return index;
+    });
+
+    assert.deepEqual(results, [0, 1, 2, 3, 4]);
+    assert.equal(peak, 2);
+  });
+
+  it('starts nothing new after a failure and rethrows it once running work is done', async () => {
+    const started: number[] = [];
+    const finished: number[] = [];
+    const run = runWithConcurrency([0, 1, 2, 3, 4], 2, async item => {
+      started.push(item);
+      await tick();
+      if (item === 0) {
+        throw new Error('boom');
+      }
+      await tick();
+      finished.push(item);
+      return item;
+    });
+
+    await assert.rejects(run, /boom/);
+    assert.deepEqual(started, [0, 1]);
+    // The item already running when the first failed was allowed to finish
+    assert.deepEqual(finished, [1]);
+  });
+
+  it('stops every pool that shares the failure controller', async () => {
+    const failure = new AbortController();
+    const started: string[] = [];
+    const pools = Promise.allSettled([
+      runWithConcurrency(['veo 1', 'veo 2'], 1, async item => {
+        started.push(item);
+        await tick();
+        throw new Error(`${item} failed`);
+      }, failure),
+      runWithConcurrency(['kb 1', 'kb 2', 'kb 3'], 1, async item => {
+        started.push(item);
+        await tick();
+        await tick();
+        return item;
+      }, failure)
+    ]);
+
+    const [veo, kenBurns] = await pools;
+    assert.deepEqual(started, ['veo 1', 'kb 1']);
+    assert.equal(veo.status, 'rejected');
+    assert.equal(kenBurns.status, 'rejected');
+    assert.match(String((kenBurns as PromiseRejectedResult).reason), /veo 1 failed/);
+  });
+});
+
+describe('Veo quota backoff', () => {
+  it('recognizes quota errors', () => {
+    assert.ok(isQuotaError(429, ''));
+    assert.ok(isQuotaError(400, '{"error":{"status":"RESOURCE_EXHAUSTED"}}'));
+    assert.equal(isQuotaError(500, 'internal'), false);
+  });
+
+  it('doubles the wait from 5s and caps it at 2 minutes plus jitter', () => {
+    const expected = [5000, 10000, 20000, 40000, 80000, 120000, 120000];
+    expected.forEach((base, retry) => {
+      const delay = quotaBackoffDelay(retry);
+      assert.ok(delay >= base && delay < base + 1000, `retry ${retry}: ${delay}ms`);
+    });
+  });
+});